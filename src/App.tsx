@@ -14,7 +14,24 @@ const Inventory = lazy(() => import('./pages/inventory/Inventory'));
 const POS = lazy(() => import('./pages/pos/POS'));
 const Transactions = lazy(() => import('./pages/transactions/Transactions'));
 const Reports = lazy(() => import('./pages/reports/Reports'));
+const ProfitReport = lazy(() => import('./pages/reports/ProfitReport'));
+const CashierReport = lazy(() => import('./pages/reports/CashierReport'));
 const Customers = lazy(() => import('./pages/customers/Customers'));
+const SyncQueue = lazy(() => import('./pages/sync/SyncQueue'));
+const Shift = lazy(() => import('./pages/shifts/Shift'));
+const Promotions = lazy(() => import('./pages/promotions/Promotions'));
+const TransactionDetail = lazy(() => import('./pages/transactions/TransactionDetail'));
+const Returns = lazy(() => import('./pages/returns/Returns'));
+const Suppliers = lazy(() => import('./pages/purchasing/Suppliers'));
+const PurchaseOrders = lazy(() => import('./pages/purchasing/PurchaseOrders'));
+const PurchaseOrderForm = lazy(() => import('./pages/purchasing/PurchaseOrderForm'));
+const PurchaseOrderDetail = lazy(() => import('./pages/purchasing/PurchaseOrderDetail'));
+const Reorder = lazy(() => import('./pages/purchasing/Reorder'));
+const Transfers = lazy(() => import('./pages/transfers/Transfers'));
+const TransferDetail = lazy(() => import('./pages/transfers/TransferDetail'));
+const Stocktakes = lazy(() => import('./pages/stocktake/Stocktakes'));
+const StocktakeSession = lazy(() => import('./pages/stocktake/StocktakeSession'));
+const StockCard = lazy(() => import('./pages/inventory/StockCard'));
 
 // Loading component
 const LoadingSpinner = () => (
@@ -100,6 +117,14 @@ function App() {
               </Suspense>
             } 
           />
+          <Route 
+            path="transactions/:id" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <TransactionDetail />
+              </Suspense>
+            } 
+          />
           <Route 
             path="reports" 
             element={
@@ -108,6 +133,22 @@ function App() {
               </Suspense>
             } 
           />
+          <Route 
+            path="reports/profit" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <ProfitReport />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="reports/cashiers" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <CashierReport />
+              </Suspense>
+            } 
+          />
           <Route 
             path="customers" 
             element={
@@ -116,6 +157,126 @@ function App() {
               </Suspense>
             } 
           />
+          <Route 
+            path="suppliers" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <Suppliers />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="stock-card/:productId" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <StockCard />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="stocktakes" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <Stocktakes />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="stocktakes/:id" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <StocktakeSession />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="transfers" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <Transfers />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="transfers/:id" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <TransferDetail />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="reorder" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <Reorder />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="purchase-orders" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <PurchaseOrders />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="purchase-orders/new" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <PurchaseOrderForm />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="purchase-orders/:id" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <PurchaseOrderDetail />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="purchase-orders/:id/edit" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <PurchaseOrderForm />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="sync-queue" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <SyncQueue />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="shift" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <Shift />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="promotions" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <Promotions />
+              </Suspense>
+            } 
+          />
+          <Route 
+            path="returns" 
+            element={
+              <Suspense fallback={<LoadingSpinner />}>
+                <Returns />
+              </Suspense>
+            } 
+          />
         </Route>
       </Routes>
       <OfflineIndicator />
@@ -0,0 +1,163 @@
+import { useState, useRef } from 'react';
+import { exportService } from '../services/exportService.js';
+import { fetchAllPages } from '../services/pagination.js';
+import type { ExportColumn, ExportFormat, ExportPageFetcher, ExportProgress } from '../services/exportService.js';
+
+interface ExportButtonProps<T> {
+  // Used for the file name and to remember the chosen columns
+  name: string;
+  columns: ExportColumn<T>[];
+  fetchPage: ExportPageFetcher<T>;
+  // Applied to each fetched page, for filters the server doesn't know about
+  filterRows?: (rows: T[]) => T[];
+}
+
+const storageKey = (name: string) => `export-columns:${name}`;
+
+const loadColumns = <T,>(name: string, columns: ExportColumn<T>[]): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(name)) || 'null');
+    if (Array.isArray(saved)) return columns.filter((c) => saved.includes(c.key)).map((c) => c.key);
+  } catch {
+    // Fall through to the defaults
+  }
+  return columns.filter((column) => !column.optional).map((column) => column.key);
+};
+
+const ExportButton = <T,>({ name, columns, fetchPage, filterRows }: ExportButtonProps<T>) => {
+  const [showDialog, setShowDialog] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [selected, setSelected] = useState<string[]>(() => loadColumns(name, columns));
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState('');
+  const signalRef = useRef({ cancelled: false });
+
+  const toggleColumn = (key: string) => {
+    setSelected(selected.includes(key) ? selected.filter((k) => k !== key) : [...selected, key]);
+  };
+
+  const handleExport = async () => {
+    const chosen = columns.filter((column) => selected.includes(column.key));
+    if (chosen.length === 0) {
+      setError('Choose at least one column');
+      return;
+    }
+    localStorage.setItem(storageKey(name), JSON.stringify(selected));
+    setError('');
+    signalRef.current = { cancelled: false };
+    const signal = signalRef.current;
+    setProgress({ fetched: 0 });
+    try {
+      const filteredFetch: ExportPageFetcher<T> = async (page, limit) => {
+        const result = await fetchPage(page, limit);
+        return filterRows ? { ...result, rows: filterRows(result.rows) } : result;
+      };
+      const rows = await fetchAllPages(filteredFetch, setProgress, signal);
+      if (signal.cancelled) return;
+      exportService.download(rows, chosen, name, exportFormat);
+      setShowDialog(false);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Export failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    signalRef.current.cancelled = true;
+    setProgress(null);
+    setShowDialog(false);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setShowDialog(true)}
+        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+      >
+        Export
+      </button>
+
+      {showDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full m-4 p-6 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-mercellus text-gray-800 mb-4">Export</h2>
+
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2 mb-4">
+              {(['xlsx', 'csv'] as ExportFormat[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setExportFormat(option)}
+                  className={`flex-1 py-1 rounded text-sm ${
+                    exportFormat === option ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  {option === 'xlsx' ? 'Excel (.xlsx)' : 'CSV'}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-medium text-gray-700">Columns</h3>
+              <div className="space-x-2 text-xs">
+                <button onClick={() => setSelected(columns.map((c) => c.key))} className="text-blue-600 hover:text-blue-800">
+                  All
+                </button>
+                <button onClick={() => setSelected([])} className="text-blue-600 hover:text-blue-800">
+                  None
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-1 mb-4">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="mr-2"
+                  />
+                  {column.header}
+                </label>
+              ))}
+            </div>
+
+            {progress && (
+              <p className="text-sm text-gray-600 mb-4">
+                Fetching rows... {progress.fetched}
+                {progress.total !== undefined && ` of ${progress.total}`}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={!!progress}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {progress ? 'Exporting...' : 'Download'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ExportButton;
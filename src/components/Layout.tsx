@@ -1,5 +1,8 @@
 import { Outlet, Link, useNavigate, useLocation } from 'react-router-dom';
+import { useQuery } from 'react-query';
 import { useAuthStore } from '../store/authStore.js';
+import { useShiftStore } from '../store/shiftStore.js';
+import { shiftService } from '../services/shiftService.js';
 
 interface MenuItem {
   path: string;
@@ -12,8 +15,22 @@ const Layout = () => {
   const { user, logout } = useAuthStore();
   const navigate = useNavigate();
   const location = useLocation();
+  const { currentShift, setShift, clearShift } = useShiftStore();
+  const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+
+  // Keep the locally persisted shift in step with the server; when offline the stored one is kept
+  useQuery(
+    ['current-shift', storeId],
+    () => shiftService.getCurrentShift(storeId!),
+    {
+      enabled: !!storeId,
+      staleTime: 60 * 1000, // 1 minute
+      onSuccess: (data) => setShift(data.data.shift),
+    }
+  );
 
   const handleLogout = () => {
+    clearShift();
     logout();
     navigate('/login');
   };
@@ -25,10 +42,17 @@ const Layout = () => {
     { path: '/stores', label: 'Stores', icon: '🏪', roles: ['admin', 'manager'] },
     { path: '/products', label: 'Products', icon: '📦' },
     { path: '/inventory', label: 'Inventory', icon: '📋' },
+    { path: '/transfers', label: 'Transfers', icon: '🔀', roles: ['admin', 'manager', 'staff'] },
+    { path: '/stocktakes', label: 'Stocktake', icon: '🔢', roles: ['admin', 'manager', 'staff'] },
     { path: '/pos', label: 'POS', icon: '💰' },
+    { path: '/shift', label: 'Shift', icon: '🗄️' },
     { path: '/customers', label: 'Customers', icon: '👥' },
+    { path: '/purchase-orders', label: 'Purchasing', icon: '🚚', roles: ['admin', 'manager'] },
+    { path: '/suppliers', label: 'Suppliers', icon: '🤝', roles: ['admin', 'manager'] },
+    { path: '/promotions', label: 'Promotions', icon: '🏷️', roles: ['admin', 'manager'] },
     { path: '/transactions', label: 'Transactions', icon: '🧾' },
     { path: '/reports', label: 'Reports', icon: '📈', roles: ['admin', 'manager'] },
+    { path: '/sync-queue', label: 'Sync Queue', icon: '🔄', roles: ['admin', 'manager'] },
   ];
 
   const filteredMenuItems = menuItems.filter(item => {
@@ -85,6 +109,27 @@ const Layout = () => {
 
       {/* Main Content */}
       <div className="ml-64">
+        {storeId && (
+          currentShift ? (
+            <Link
+              to="/shift"
+              className="flex justify-between items-center px-8 py-2 bg-green-50 border-b border-green-200 text-sm text-green-800 hover:bg-green-100"
+            >
+              <span>
+                Shift open since {new Date(currentShift.openedAt).toLocaleTimeString()} · Float ৳{currentShift.openingFloat.toFixed(2)}
+              </span>
+              <span className="font-semibold">Manage shift →</span>
+            </Link>
+          ) : (
+            <Link
+              to="/shift"
+              className="flex justify-between items-center px-8 py-2 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800 hover:bg-yellow-100"
+            >
+              <span>No open shift - sales are disabled until a shift is opened</span>
+              <span className="font-semibold">Open shift →</span>
+            </Link>
+          )
+        )}
         <main className="p-8">
           <Outlet />
         </main>
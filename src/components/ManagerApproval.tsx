@@ -0,0 +1,133 @@
+import { useState, FormEvent, ChangeEvent } from 'react';
+import { authService } from '../services/authService.js';
+import type { User } from '../types/index.js';
+
+interface ManagerApprovalProps {
+  title: string;
+  message: string;
+  // Audit label sent with the override, e.g. 'discount' or 'void'
+  action: string;
+  allowedRoles?: User['role'][];
+  // overrideToken goes with the request being approved; the approver is for display
+  onApproved: (approver: User, overrideToken: string) => void;
+  onCancel: () => void;
+}
+
+const ManagerApproval = ({
+  title,
+  message,
+  action,
+  allowedRoles = ['admin', 'manager'],
+  onApproved,
+  onCancel,
+}: ManagerApprovalProps) => {
+  const [mode, setMode] = useState<'pin' | 'credentials'>('pin');
+  const [pin, setPin] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      const response = await authService.verifyOverride(
+        mode === 'pin' ? { pin } : { email, password },
+        action
+      );
+      const { approver, overrideToken } = response.data;
+      if (!allowedRoles.includes(approver.role)) {
+        setError(`${approver.name} is not allowed to approve this`);
+        return;
+      }
+      onApproved(approver, overrideToken);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Approval failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-sm w-full m-4 p-6">
+        <h2 className="text-xl font-mercellus text-gray-800 mb-2">{title}</h2>
+        <p className="text-sm text-gray-600 mb-4">{message}</p>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2 mb-4">
+          <button
+            type="button"
+            onClick={() => setMode('pin')}
+            className={`flex-1 py-1 rounded text-sm ${mode === 'pin' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
+          >
+            PIN
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode('credentials')}
+            className={`flex-1 py-1 rounded text-sm ${mode === 'credentials' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
+          >
+            Email & Password
+          </button>
+        </div>
+
+        {mode === 'pin' ? (
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            placeholder="Manager PIN"
+            value={pin}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setPin(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 mb-4"
+          />
+        ) : (
+          <div className="space-y-3 mb-4">
+            <input
+              type="email"
+              autoFocus
+              placeholder="Manager email"
+              value={email}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="password"
+              placeholder="Password"
+              value={password}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading || (mode === 'pin' ? !pin : !email || !password)}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {loading ? 'Checking...' : 'Approve'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ManagerApproval;
@@ -1,8 +1,12 @@
 import { memo } from 'react';
+import { Link } from 'react-router-dom';
 import { useOfflineSync } from '../hooks/useOfflineSync';
+import { useAuthStore } from '../store/authStore.js';
 
 const OfflineIndicator = memo(() => {
   const { isOnline, pendingSyncs } = useOfflineSync();
+  const { user } = useAuthStore();
+  const canReview = user?.role === 'admin' || user?.role === 'manager';
 
   if (isOnline && pendingSyncs === 0) {
     return null;
@@ -23,6 +27,11 @@ const OfflineIndicator = memo(() => {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
           </svg>
           <span>Syncing {pendingSyncs} pending {pendingSyncs === 1 ? 'change' : 'changes'}...</span>
+          {canReview && (
+            <Link to="/sync-queue" className="underline font-semibold ml-2">
+              Review
+            </Link>
+          )}
         </div>
       ) : null}
     </div>
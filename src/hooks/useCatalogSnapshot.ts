@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { catalogSnapshot } from '../services/catalogSnapshot';
+
+const REFRESH_INTERVAL = 10 * 60 * 1000; // 10 minutes
+
+// Keeps the store's offline catalogue snapshot fresh while the POS is open
+export const useCatalogSnapshot = (storeId: string | null) => {
+  useEffect(() => {
+    if (!storeId) return;
+
+    const refresh = () => {
+      if (!navigator.onLine) return;
+      catalogSnapshot.refresh(storeId).catch((error) => {
+        console.warn('Catalogue snapshot refresh failed:', error);
+      });
+    };
+
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    window.addEventListener('online', refresh);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', refresh);
+    };
+  }, [storeId]);
+};
@@ -1,14 +1,42 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from 'react-query';
 import { offlineSync } from '../services/offlineSync';
+import { syncPendingItem } from '../services/syncHandlers';
+
+// A failed request doesn't always flip navigator.onLine, so no 'online' event follows.
+// While items are queued, sync is retried on a timer that backs off while nothing lands.
+const RETRY_BASE_DELAY = 15 * 1000; // 15 seconds
+const RETRY_MAX_DELAY = 5 * 60 * 1000; // 5 minutes
 
 export const useOfflineSync = () => {
+  const queryClient = useQueryClient();
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [pendingSyncs, setPendingSyncs] = useState(0);
+  const retryDelayRef = useRef(RETRY_BASE_DELAY);
+
+  const syncNow = useCallback(async () => {
+    const results = await offlineSync.syncWhenOnline(syncPendingItem);
+    const remaining = offlineSync.getSyncQueue().length;
+    setPendingSyncs(remaining);
+
+    const synced = results.some(({ result }) => result.status === 'synced');
+    retryDelayRef.current =
+      synced || remaining === 0 ? RETRY_BASE_DELAY : Math.min(retryDelayRef.current * 2, RETRY_MAX_DELAY);
+
+    // Refresh server-backed views once queued changes have landed
+    if (synced) {
+      queryClient.invalidateQueries('inventory');
+      queryClient.invalidateQueries('transactions');
+      queryClient.invalidateQueries('sales-report');
+    }
+    return results;
+  }, [queryClient]);
 
   useEffect(() => {
     const handleOnline = () => {
       setIsOnline(true);
       console.log('🌐 Back online - starting sync...');
+      syncNow().catch(console.error);
     };
 
     const handleOffline = () => {
@@ -28,20 +56,39 @@ export const useOfflineSync = () => {
     const interval = setInterval(updatePendingSyncs, 5000);
     updatePendingSyncs();
 
+    // Flush anything left over from a previous session
+    if (navigator.onLine) {
+      syncNow().catch(console.error);
+    }
+
+    let retryTimer: ReturnType<typeof setTimeout>;
+    let stopped = false;
+    const scheduleRetry = () => {
+      retryTimer = setTimeout(async () => {
+        if (offlineSync.isOnline() && offlineSync.getSyncQueue().length > 0) {
+          await syncNow().catch(console.error);
+        }
+        if (!stopped) scheduleRetry();
+      }, retryDelayRef.current);
+    };
+    scheduleRetry();
+
     return () => {
+      stopped = true;
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
       clearInterval(interval);
+      clearTimeout(retryTimer);
     };
-  }, []);
+  }, [syncNow]);
 
   return {
     isOnline,
     pendingSyncs,
+    syncNow,
     addToSyncQueue: offlineSync.addToSyncQueue.bind(offlineSync),
     storeOffline: offlineSync.storeOffline.bind(offlineSync),
     getOffline: offlineSync.getOffline.bind(offlineSync),
     syncWhenOnline: offlineSync.syncWhenOnline.bind(offlineSync)
   };
 };
-
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { useQuery } from 'react-query';
+import { transactionService } from '../services/transactionService.js';
+import { fetchAllPages } from '../services/pagination.js';
+import type { PageProgress } from '../services/pagination.js';
+import type { ReportParams } from '../services/reportService.js';
+import type { Transaction } from '../types/index.js';
+
+// Every transaction in a report range, for reports worked out line by line in the browser.
+// Keyed under 'transactions' so new sales, returns and voids refresh it.
+export const useRangeTransactions = (params: ReportParams, enabled = true) => {
+  const [progress, setProgress] = useState<PageProgress | null>(null);
+
+  const query = useQuery<Transaction[]>(
+    ['transactions', 'range', params],
+    async () => {
+      try {
+        return await fetchAllPages(async (page, limit) => {
+          const response = await transactionService.getTransactions(params, page, limit);
+          return {
+            rows: response.data.transactions,
+            pages: response.data.pagination?.pages || 1,
+            total: response.data.pagination?.total,
+          };
+        }, setProgress);
+      } finally {
+        setProgress(null);
+      }
+    },
+    {
+      enabled,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    }
+  );
+
+  return { ...query, progress };
+};
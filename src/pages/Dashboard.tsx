@@ -2,7 +2,11 @@ import { useState, ChangeEvent, useMemo, useCallback } from 'react';
 import { useQuery } from 'react-query';
 import api from '../services/api.js';
 import { useAuthStore } from '../store/authStore.js';
+import { reportService } from '../services/reportService.js';
 import type { Store } from '../types/index.js';
+import HourlyHeatmap from './dashboard/HourlyHeatmap';
+import StoreHourComparison from './dashboard/StoreHourComparison';
+import { heatmapParams } from './dashboard/hourlyTraffic.js';
 import {
   BarChart,
   Bar,
@@ -128,6 +132,17 @@ const Dashboard = () => {
     }
   );
 
+  // Hourly buckets for the weekday × hour heatmap; storeId is null for the admin's combined view
+  const { data: hourlyData, isLoading: hourlyLoading } = useQuery(
+    ['sales-report', 'hourly', storeId],
+    () => reportService.getSalesReport({ ...heatmapParams(storeId), groupBy: 'hour' }),
+    {
+      enabled: !!storeId || isAdmin,
+      staleTime: 10 * 60 * 1000, // 10 minutes - a few more sales barely move a 4 week pattern
+      cacheTime: 15 * 60 * 1000, // 15 minutes
+    }
+  );
+
   // Top products with caching
   const { data: topProductsData } = useQuery<TopProductsResponse>(
     ['top-products', storeId],
@@ -541,6 +556,22 @@ const Dashboard = () => {
         </div>
       </div>
 
+      {/* Peak hours */}
+      <HourlyHeatmap
+        grouped={hourlyData?.data?.grouped}
+        isLoading={hourlyLoading}
+        formatCurrency={formatCurrency}
+      />
+
+      {isAdmin && storesData?.data?.stores && storesData.data.stores.length > 1 && (
+        <StoreHourComparison
+          stores={storesData.data.stores}
+          selectedStore={selectedStore}
+          onSelectStore={setSelectedStore}
+          formatCurrency={formatCurrency}
+        />
+      )}
+
       {/* Store-specific breakdown for admin */}
       {isAdmin && !selectedStore && storesData?.data?.stores && storesData.data.stores.length > 0 && (
         <div className="bg-white rounded-xl shadow-lg p-6">
@@ -1,10 +1,28 @@
 import { useState, ChangeEvent, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import { customerService } from '../../services/customerService.js';
+import type { ExportColumn, ExportPageFetcher } from '../../services/exportService.js';
 import type { Customer } from '../../types/index.js';
+import ExportButton from '../../components/ExportButton';
 import CustomerForm from './CustomerForm';
 import CustomerDetails from './CustomerDetails';
 
+const CUSTOMER_EXPORT_COLUMNS: ExportColumn<Customer>[] = [
+  { key: 'name', header: 'Name', value: (c) => c.name },
+  { key: 'phone', header: 'Phone', value: (c) => c.phone },
+  { key: 'alternatePhone', header: 'Alternate Phone', value: (c) => c.alternatePhone, optional: true },
+  { key: 'email', header: 'Email', value: (c) => c.email },
+  { key: 'city', header: 'City', value: (c) => c.address?.city, optional: true },
+  { key: 'district', header: 'District', value: (c) => c.address?.district, optional: true },
+  { key: 'loyaltyPoints', header: 'Loyalty Points', value: (c) => c.loyaltyPoints, type: 'number' },
+  { key: 'totalSpent', header: 'Total Spent', value: (c) => c.totalSpent, type: 'currency' },
+  { key: 'totalTransactions', header: 'Transactions', value: (c) => c.totalTransactions, type: 'number' },
+  { key: 'lastPurchaseDate', header: 'Last Purchase', value: (c) => c.lastPurchaseDate, type: 'date' },
+  { key: 'tags', header: 'Tags', value: (c) => c.tags?.join(', ') },
+  { key: 'status', header: 'Status', value: (c) => (c.isActive ? 'Active' : 'Inactive'), optional: true },
+  { key: 'createdAt', header: 'Customer Since', value: (c) => c.createdAt, type: 'date', optional: true },
+];
+
 const Customers = () => {
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
@@ -39,6 +57,18 @@ const Customers = () => {
     }
   );
 
+  const fetchExportPage: ExportPageFetcher<Customer> = async (page, limit) => {
+    const response = await customerService.getAllCustomers({
+      search: searchTerm || undefined,
+      sortBy,
+      tag: filterTag || undefined,
+      page,
+      limit,
+    });
+    const { customers, pagination } = response.data;
+    return { rows: customers, pages: pagination?.pages || 1, total: pagination?.total ?? response.count };
+  };
+
   const handleEdit = (customer: Customer) => {
     setSelectedCustomer(customer);
     setShowForm(true);
@@ -86,15 +116,18 @@ const Customers = () => {
     <div className="container mx-auto p-6">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-mercellus text-gray-800">Customer Management</h1>
-        <button
-          onClick={() => {
-            setSelectedCustomer(null);
-            setShowForm(true);
-          }}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          Add Customer
-        </button>
+        <div className="flex gap-2">
+          <ExportButton name="customers" columns={CUSTOMER_EXPORT_COLUMNS} fetchPage={fetchExportPage} />
+          <button
+            onClick={() => {
+              setSelectedCustomer(null);
+              setShowForm(true);
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Add Customer
+          </button>
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react';
+import {
+  buildHeatmap,
+  busiestSlots,
+  formatHour,
+  formatSlot,
+  maxCellValue,
+  WEEKDAYS,
+} from './hourlyTraffic.js';
+import type { HeatmapMetric } from './hourlyTraffic.js';
+import type { SalesPeriod } from '../../services/reportService.js';
+
+interface HourlyHeatmapProps {
+  grouped?: SalesPeriod[];
+  isLoading?: boolean;
+  formatCurrency: (amount: number) => string;
+}
+
+const METRIC_LABELS: Record<HeatmapMetric, string> = {
+  transactions: 'Transactions',
+  sales: 'Revenue',
+};
+
+const HourlyHeatmap = ({ grouped, isLoading, formatCurrency }: HourlyHeatmapProps) => {
+  const [metric, setMetric] = useState<HeatmapMetric>('transactions');
+
+  const grid = useMemo(() => buildHeatmap(grouped), [grouped]);
+  const max = maxCellValue(grid, metric);
+  const busiest = busiestSlots(grid, metric);
+  const formatValue = (value: number) => (metric === 'sales' ? formatCurrency(value) : value.toLocaleString());
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="bg-white rounded-xl shadow-lg p-6 lg:col-span-3">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-mercellus text-gray-900">Hourly Traffic</h2>
+            <p className="text-xs text-gray-500">Last 4 weeks, by weekday and hour</p>
+          </div>
+          <div className="flex rounded-lg overflow-hidden border border-gray-300">
+            {(Object.keys(METRIC_LABELS) as HeatmapMetric[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMetric(option)}
+                className={`px-3 py-1 text-sm ${
+                  metric === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {METRIC_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {max > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="border-separate" style={{ borderSpacing: 2 }}>
+              <thead>
+                <tr>
+                  <th />
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <th key={hour} className="text-[10px] font-normal text-gray-500 w-7">
+                      {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.map((row, weekday) => (
+                  <tr key={WEEKDAYS[weekday]}>
+                    <td className="text-xs text-gray-600 pr-2">{WEEKDAYS[weekday]}</td>
+                    {row.map((cell, hour) => {
+                      const intensity = cell[metric] / max;
+                      return (
+                        <td
+                          key={hour}
+                          className="w-7 h-6 rounded"
+                          style={{
+                            backgroundColor: intensity > 0 ? `rgba(59, 130, 246, ${0.1 + intensity * 0.9})` : '#F3F4F6',
+                          }}
+                          title={`${WEEKDAYS[weekday]} ${formatHour(hour)}: ${cell.transactions} transactions, ${formatCurrency(cell.sales)}`}
+                        />
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="h-[200px] flex items-center justify-center text-gray-500">
+            <p>{isLoading ? 'Loading...' : 'No hourly data available'}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <h2 className="text-xl font-mercellus text-gray-900 mb-4">Busiest Hours</h2>
+        {busiest.length > 0 ? (
+          <ol className="space-y-3">
+            {busiest.map((slot, index) => (
+              <li key={`${slot.weekday}-${slot.hour}`} className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <span className="w-6 h-6 rounded-full bg-blue-100 text-blue-700 text-xs font-semibold flex items-center justify-center mr-3">
+                    {index + 1}
+                  </span>
+                  <span className="text-sm text-gray-900">{formatSlot(slot)}</span>
+                </div>
+                <span className="text-sm font-medium text-gray-700">{formatValue(slot[metric])}</span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-gray-500 text-sm">No data yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HourlyHeatmap;
@@ -0,0 +1,99 @@
+import { useQueries } from 'react-query';
+import { reportService } from '../../services/reportService.js';
+import { buildHeatmap, busiestSlots, formatSlot, heatmapParams, HEATMAP_DAYS } from './hourlyTraffic.js';
+import type { SalesReportResponse } from '../../services/reportService.js';
+import type { Store } from '../../types/index.js';
+
+interface StoreHourComparisonProps {
+  stores: Store[];
+  selectedStore: string | null;
+  onSelectStore: (storeId: string) => void;
+  formatCurrency: (amount: number) => string;
+}
+
+// Side-by-side hourly profile of every store, for admins deciding where staff are needed
+const StoreHourComparison = ({ stores, selectedStore, onSelectStore, formatCurrency }: StoreHourComparisonProps) => {
+  const results = useQueries(
+    stores.map((store) => {
+      const params = heatmapParams(store._id);
+      return {
+        queryKey: ['sales-report', 'hourly', store._id],
+        queryFn: () => reportService.getSalesReport({ ...params, groupBy: 'hour' }),
+        staleTime: 10 * 60 * 1000, // 10 minutes
+      };
+    })
+  );
+
+  const rows = stores.map((store, index) => {
+    const report = results[index]?.data as SalesReportResponse | undefined;
+    const grid = buildHeatmap(report?.data?.grouped);
+    const [peak] = busiestSlots(grid, 'transactions', 1);
+    // Weekday-hour slots the store traded in, times the weeks covered
+    const openHours = grid.flat().filter((cell) => cell.transactions > 0).length * (HEATMAP_DAYS / 7);
+    return {
+      store,
+      isLoading: results[index]?.isLoading,
+      sales: report?.data?.summary?.totalSales || 0,
+      transactions: report?.data?.summary?.totalTransactions || 0,
+      peak,
+      openHours,
+    };
+  });
+
+  const maxSales = Math.max(0, ...rows.map((row) => row.sales));
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-xl font-mercellus text-gray-900 mb-1">Store Comparison</h2>
+      <p className="text-xs text-gray-500 mb-4">Last 4 weeks</p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Transactions
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Per Open Hour
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Busiest Hour
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr
+                key={row.store._id}
+                onClick={() => onSelectStore(row.store._id)}
+                className={`cursor-pointer hover:bg-gray-50 ${selectedStore === row.store._id ? 'bg-blue-50' : ''}`}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{row.store.name}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {row.isLoading ? '...' : formatCurrency(row.sales)}
+                  <div className="mt-1 h-1.5 bg-gray-100 rounded">
+                    <div
+                      className="h-1.5 bg-blue-500 rounded"
+                      style={{ width: `${maxSales > 0 ? (row.sales / maxSales) * 100 : 0}%` }}
+                    />
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.transactions}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {row.openHours > 0 ? (row.transactions / row.openHours).toFixed(1) : '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {row.peak ? `${formatSlot(row.peak)} (${row.peak.transactions})` : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StoreHourComparison;
@@ -0,0 +1,58 @@
+import { format, getDay, getHours, isValid, parseISO, subDays } from 'date-fns';
+import type { ReportParams, SalesPeriod } from '../../services/reportService.js';
+
+export type HeatmapMetric = 'transactions' | 'sales';
+
+export interface HeatmapCell {
+  transactions: number;
+  sales: number;
+}
+
+export interface BusySlot extends HeatmapCell {
+  // Index into WEEKDAYS
+  weekday: number;
+  hour: number;
+}
+
+// The trading week here runs Saturday to Friday
+export const WEEKDAYS = ['Sat', 'Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+// Four full weeks, so every weekday is counted the same number of times
+export const HEATMAP_DAYS = 28;
+
+export const heatmapParams = (store?: string | null, now = new Date()): ReportParams => ({
+  startDate: format(subDays(now, HEATMAP_DAYS - 1), 'yyyy-MM-dd'),
+  endDate: format(now, 'yyyy-MM-dd'),
+  store: store || undefined,
+});
+
+// getDay() counts from Sunday; shift so Saturday is row 0
+const weekdayIndex = (date: Date): number => (getDay(date) + 1) % 7;
+
+// Folds hourly buckets into a weekday × hour grid of totals
+export const buildHeatmap = (grouped: SalesPeriod[] = []): HeatmapCell[][] => {
+  const grid = WEEKDAYS.map(() => Array.from({ length: 24 }, () => ({ transactions: 0, sales: 0 })));
+  grouped.forEach((period) => {
+    const date = parseISO(period.date);
+    if (!isValid(date)) return;
+    const cell = grid[weekdayIndex(date)][getHours(date)];
+    cell.transactions += period.transactions;
+    cell.sales += period.sales;
+  });
+  return grid;
+};
+
+export const busiestSlots = (grid: HeatmapCell[][], metric: HeatmapMetric, limit = 5): BusySlot[] =>
+  grid
+    .flatMap((row, weekday) => row.map((cell, hour) => ({ ...cell, weekday, hour })))
+    .filter((slot) => slot[metric] > 0)
+    .sort((a, b) => b[metric] - a[metric])
+    .slice(0, limit);
+
+export const maxCellValue = (grid: HeatmapCell[][], metric: HeatmapMetric): number =>
+  Math.max(0, ...grid.flat().map((cell) => cell[metric]));
+
+export const formatHour = (hour: number): string => `${String(hour).padStart(2, '0')}:00`;
+
+export const formatSlot = (slot: Pick<BusySlot, 'weekday' | 'hour'>): string =>
+  `${WEEKDAYS[slot.weekday]} ${formatHour(slot.hour)}–${formatHour((slot.hour + 1) % 24)}`;
@@ -1,22 +1,32 @@
 import { useState, ChangeEvent, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link } from 'react-router-dom';
 import api from '../../services/api.js';
 import { useAuthStore } from '../../store/authStore.js';
+import type { ExportColumn, ExportPageFetcher } from '../../services/exportService.js';
 import type { Inventory as InventoryType } from '../../types/index.js';
+import ExportButton from '../../components/ExportButton';
 import StockEntry from './StockEntry.js';
 import StockAdjustment from './StockAdjustment.js';
 import StockTransfer from './StockTransfer.js';
+import { stockCardPath } from './movements.js';
+
+type InventoryRow = InventoryType & {
+  product: {
+    _id: string;
+    name: string;
+    sku: string;
+  };
+};
 
 interface InventoryResponse {
   success: boolean;
   data: {
-    inventory: Array<InventoryType & {
-      product: {
-        _id: string;
-        name: string;
-        sku: string;
-      };
-    }>;
+    inventory: InventoryRow[];
+    pagination?: {
+      pages: number;
+      total: number;
+    };
   };
 }
 
@@ -33,6 +43,32 @@ interface LowStockResponse {
   };
 }
 
+const INVENTORY_EXPORT_COLUMNS: ExportColumn<InventoryRow>[] = [
+  { key: 'name', header: 'Product', value: (item) => item.product?.name },
+  { key: 'sku', header: 'SKU', value: (item) => item.product?.sku },
+  { key: 'quantity', header: 'Quantity', value: (item) => item.quantity, type: 'number' },
+  { key: 'reserved', header: 'Reserved', value: (item) => item.reservedQuantity, type: 'number', optional: true },
+  {
+    key: 'available',
+    header: 'Available',
+    value: (item) => item.availableQuantity ?? item.quantity - (item.reservedQuantity || 0),
+    type: 'number',
+  },
+  { key: 'reorderPoint', header: 'Reorder Point', value: (item) => item.reorderPoint, type: 'number' },
+  { key: 'reorderQuantity', header: 'Reorder Quantity', value: (item) => item.reorderQuantity, type: 'number', optional: true },
+  { key: 'location', header: 'Location', value: (item) => item.location },
+  { key: 'lastRestocked', header: 'Last Restocked', value: (item) => item.lastRestocked, type: 'date' },
+];
+
+const matchesSearch = (item: InventoryRow, searchTerm: string): boolean => {
+  const searchLower = searchTerm.toLowerCase();
+  const product = typeof item.product === 'object' ? item.product : null;
+  return !!(
+    product?.name.toLowerCase().includes(searchLower) ||
+    product?.sku.toLowerCase().includes(searchLower)
+  );
+};
+
 interface UpdateInventoryData {
   quantity?: number;
   reorderPoint?: number;
@@ -165,17 +201,19 @@ const Inventory = () => {
   const filteredInventory = useMemo(() => {
     if (!data?.data?.inventory) return [];
     if (!searchTerm) return data.data.inventory;
-    
-    const searchLower = searchTerm.toLowerCase();
-    return data.data.inventory.filter((item) => {
-      const product = typeof item.product === 'object' ? item.product : null;
-      return (
-        product?.name.toLowerCase().includes(searchLower) ||
-        product?.sku.toLowerCase().includes(searchLower)
-      );
-    });
+    return data.data.inventory.filter((item) => matchesSearch(item, searchTerm));
   }, [data?.data?.inventory, searchTerm]);
 
+  // Same list as on screen, fetched page by page for export
+  const fetchExportPage: ExportPageFetcher<InventoryRow> = async (page, limit) => {
+    const url = showLowStockOnly ? `/inventory/store/${storeId}/low-stock` : `/inventory/store/${storeId}`;
+    const response = await api.get<InventoryResponse & { data: { lowStockItems?: InventoryRow[] } }>(url, {
+      params: { page, limit },
+    });
+    const { inventory, lowStockItems, pagination } = response.data.data;
+    return { rows: inventory || lowStockItems || [], pages: pagination?.pages || 1, total: pagination?.total };
+  };
+
   const lowStockCount = lowStockData?.data?.lowStockItems?.length || 0;
 
   if (isLoading) {
@@ -194,30 +232,44 @@ const Inventory = () => {
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-mercellus">Inventory Management</h1>
-        {canManageInventory && (
-          <div className="flex gap-2">
-            <button
-              onClick={() => setShowStockEntry(true)}
-              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
-            >
-              + Stock Entry
-            </button>
-            <button
-              onClick={() => setShowStockAdjustment(true)}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-            >
-              Adjust Stock
-            </button>
-            {(user?.role === 'admin' || user?.role === 'manager') && (
+        <div className="flex gap-2">
+          <ExportButton
+            name="inventory"
+            columns={INVENTORY_EXPORT_COLUMNS}
+            fetchPage={fetchExportPage}
+            filterRows={searchTerm ? (rows) => rows.filter((item) => matchesSearch(item, searchTerm)) : undefined}
+          />
+          {canManageInventory && (
+            <>
               <button
-                onClick={() => setShowStockTransfer(true)}
-                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                onClick={() => setShowStockEntry(true)}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
               >
-                Transfer Stock
+                + Stock Entry
               </button>
-            )}
-          </div>
-        )}
+              <button
+                onClick={() => setShowStockAdjustment(true)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Adjust Stock
+              </button>
+              <Link
+                to="/stocktakes"
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Stocktake
+              </Link>
+              {(user?.role === 'admin' || user?.role === 'manager') && (
+                <button
+                  onClick={() => setShowStockTransfer(true)}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+                >
+                  Request Transfer
+                </button>
+              )}
+            </>
+          )}
+        </div>
       </div>
 
       {/* Low Stock Alert */}
@@ -238,6 +290,11 @@ const Inventory = () => {
                 >
                   View Low Stock Items
                 </button>
+                {canManageInventory && (
+                  <Link to="/reorder" className="ml-4 underline font-semibold">
+                    Create Reorder
+                  </Link>
+                )}
               </p>
             </div>
           </div>
@@ -306,6 +363,11 @@ const Inventory = () => {
                 <tr key={item._id} className={isLowStock ? 'bg-red-50' : ''}>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900">{product?.name || 'N/A'}</div>
+                    {product && storeId && (
+                      <Link to={stockCardPath(product._id, storeId)} className="text-xs text-blue-600 hover:text-blue-800">
+                        Stock card
+                      </Link>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-500">{product?.sku || 'N/A'}</div>
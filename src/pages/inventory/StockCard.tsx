@@ -0,0 +1,277 @@
+import { ChangeEvent } from 'react';
+import { useQuery } from 'react-query';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { format, subDays } from 'date-fns';
+import api from '../../services/api.js';
+import { useAuthStore } from '../../store/authStore.js';
+import { inventoryService } from '../../services/inventoryService.js';
+import { MOVEMENT_TYPE_BADGES, MOVEMENT_TYPE_LABELS, movementSourcePath } from './movements.js';
+import type { Inventory, InventoryMovementType, Product, Store } from '../../types/index.js';
+
+interface InventoryItemResponse {
+  success: boolean;
+  data: {
+    inventory: Inventory & { product: Product | string };
+  };
+}
+
+interface StoresResponse {
+  success: boolean;
+  data: {
+    stores: Store[];
+  };
+}
+
+const PAGE_SIZE = 50;
+
+const selectClass = 'px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm bg-white';
+
+const nameOf = (value: unknown): string | undefined =>
+  value && typeof value === 'object' && 'name' in value ? (value as { name?: string }).name : undefined;
+
+// Every stock movement for one product in one store, with the running balance
+const StockCard = () => {
+  const { productId } = useParams<{ productId: string }>();
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const userStoreId = typeof user?.store === 'object' ? user.store._id : user?.store || '';
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Other users can only see their own store's card
+  const store = isAdmin ? searchParams.get('store') || userStoreId : userStoreId;
+  const startDate = searchParams.get('from') || format(subDays(new Date(), 29), 'yyyy-MM-dd');
+  const endDate = searchParams.get('to') || format(new Date(), 'yyyy-MM-dd');
+  const type = (searchParams.get('type') as InventoryMovementType) || '';
+  const page = Number(searchParams.get('page')) || 1;
+
+  const updateFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    // Any filter change starts back on the first page
+    if (key !== 'page') next.delete('page');
+    setSearchParams(next);
+  };
+
+  const { data: storesData } = useQuery<StoresResponse>(
+    'stores',
+    async () => {
+      const response = await api.get<StoresResponse>('/stores');
+      return response.data;
+    },
+    { enabled: isAdmin, staleTime: 10 * 60 * 1000 } // 10 minutes
+  );
+
+  const { data: itemData } = useQuery<InventoryItemResponse>(
+    ['inventory', store, 'item', productId],
+    async () => {
+      const response = await api.get<InventoryItemResponse>(`/inventory/store/${store}/product/${productId}`);
+      return response.data;
+    },
+    { enabled: !!store && !!productId }
+  );
+
+  const { data, isLoading } = useQuery(
+    ['inventory', store, 'movements', productId, startDate, endDate, type, page],
+    () => inventoryService.getMovements(store, productId!, {
+      startDate,
+      endDate,
+      type: type || undefined,
+      page,
+      limit: PAGE_SIZE,
+    }),
+    { enabled: !!store && !!productId, keepPreviousData: true }
+  );
+
+  const item = itemData?.data?.inventory;
+  const product = item && typeof item.product === 'object' ? item.product : null;
+  const movements = data?.data?.movements || [];
+  const pages = data?.data?.pagination?.pages || 1;
+
+  // Opening and closing cover the whole range; in and out only add up the rows shown
+  const opening = data?.data?.openingBalance ?? 0;
+  const closing = data?.data?.closingBalance ?? opening;
+  const partial = pages > 1 || !!type;
+  const totalIn = movements.reduce((sum, movement) => sum + Math.max(0, movement.quantity), 0);
+  const totalOut = movements.reduce((sum, movement) => sum + Math.max(0, -movement.quantity), 0);
+
+  return (
+    <div>
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-3xl font-mercellus">Stock Card</h1>
+          <p className="text-gray-600">
+            {product ? `${product.name} (${product.sku})` : 'Loading product...'}
+            {item?.location && ` · ${item.location}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link
+            to="/products"
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            Products
+          </Link>
+          <Link to="/inventory" className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50">
+            Inventory
+          </Link>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow mb-6 flex flex-wrap gap-4 items-center">
+        {isAdmin && (
+          <select
+            value={store}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => updateFilter('store', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Select Store</option>
+            {storesData?.data?.stores?.map((s) => (
+              <option key={s._id} value={s._id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => updateFilter('from', e.target.value)}
+          className={selectClass}
+        />
+        <span className="text-sm text-gray-500">to</span>
+        <input
+          type="date"
+          value={endDate}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => updateFilter('to', e.target.value)}
+          className={selectClass}
+        />
+        <select
+          value={type}
+          onChange={(e: ChangeEvent<HTMLSelectElement>) => updateFilter('type', e.target.value)}
+          className={selectClass}
+        >
+          <option value="">All movements</option>
+          {(Object.keys(MOVEMENT_TYPE_LABELS) as InventoryMovementType[]).map((value) => (
+            <option key={value} value={value}>
+              {MOVEMENT_TYPE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!store ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center text-gray-600">Select a store to see its stock card</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-6 mb-6">
+            <div className="bg-white p-6 rounded-lg shadow">
+              <p className="text-sm text-gray-600">Opening</p>
+              <p className="text-2xl font-bold">{opening}</p>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow">
+              <p className="text-sm text-gray-600">In{partial && ' (shown)'}</p>
+              <p className="text-2xl font-bold text-green-600">+{totalIn}</p>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow">
+              <p className="text-sm text-gray-600">Out{partial && ' (shown)'}</p>
+              <p className="text-2xl font-bold text-red-600">−{totalOut}</p>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow">
+              <p className="text-sm text-gray-600">Closing</p>
+              <p className="text-2xl font-bold">{closing}</p>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow">
+              <p className="text-sm text-gray-600">On Hand Now</p>
+              <p className="text-2xl font-bold">{item?.quantity ?? '-'}</p>
+            </div>
+          </div>
+          {type && (
+            <p className="mb-4 text-sm text-gray-600">
+              Showing {MOVEMENT_TYPE_LABELS[type]} movements only; balances still include every movement.
+            </p>
+          )}
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Document</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {movements.map((movement) => {
+                  const sourcePath = movementSourcePath(movement);
+                  return (
+                    <tr key={movement._id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {format(new Date(movement.createdAt), 'dd MMM yyyy HH:mm')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${MOVEMENT_TYPE_BADGES[movement.type]}`}>
+                          {MOVEMENT_TYPE_LABELS[movement.type]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {sourcePath ? (
+                          <Link to={sourcePath} className="text-blue-600 hover:text-blue-800">
+                            {movement.reference || 'View'}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-900">{movement.reference || '-'}</span>
+                        )}
+                        {movement.reason && <div className="text-xs text-gray-500">{movement.reason}</div>}
+                      </td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {movement.quantity > 0 ? '+' : ''}
+                        {movement.quantity}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">{movement.balanceAfter}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{nameOf(movement.user) || '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {!isLoading && movements.length === 0 && (
+              <div className="p-8 text-center">
+                <p className="text-gray-600">No movements in this period</p>
+              </div>
+            )}
+            {isLoading && <div className="p-8 text-center text-gray-600">Loading...</div>}
+          </div>
+
+          {pages > 1 && (
+            <div className="mt-4 flex justify-between items-center">
+              <button
+                onClick={() => updateFilter('page', String(page - 1))}
+                disabled={page <= 1}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {page} of {pages}
+              </span>
+              <button
+                onClick={() => updateFilter('page', String(page + 1))}
+                disabled={page >= pages}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StockCard;
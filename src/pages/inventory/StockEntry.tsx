@@ -1,7 +1,9 @@
 import { useState, FormEvent, ChangeEvent } from 'react';
 import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { Link } from 'react-router-dom';
 import api from '../../services/api.js';
 import { useAuthStore } from '../../store/authStore.js';
+import { purchasingService } from '../../services/purchasingService.js';
 
 interface Product {
   _id: string;
@@ -31,7 +33,11 @@ const StockEntry = ({ onClose }: StockEntryFormProps) => {
   const { user } = useAuthStore();
   const queryClient = useQueryClient();
   const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
 
+  // Every receipt is tied to the supplier's document so stock can be traced back to it
+  const [reference, setReference] = useState('');
+  const [supplier, setSupplier] = useState('');
   const [items, setItems] = useState<StockEntryItem[]>([{ product: '', quantity: 0 }]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -47,9 +53,16 @@ const StockEntry = ({ onClose }: StockEntryFormProps) => {
     { enabled: !!storeId }
   );
 
+  const { data: suppliersData } = useQuery('suppliers', () => purchasingService.getSuppliers(), {
+    enabled: canManage,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
   const stockEntryMutation = useMutation(
     async (entryItems: StockEntryItem[]) => {
       if (!storeId) throw new Error('No store ID');
+      const document = reference.trim();
+      const supplierName = suppliersData?.data?.suppliers?.find((s) => s._id === supplier)?.name;
       
       // Get current inventory first
       const inventoryResponse = await api.get(`/inventory/store/${storeId}`);
@@ -71,7 +84,10 @@ const StockEntry = ({ onClose }: StockEntryFormProps) => {
                 `/inventory/store/${storeId}/product/${item.product}/adjust`,
                 {
                   adjustment,
-                  reason: `Stock received${item.notes ? ': ' + item.notes : ''}`
+                  reason: `Stock received (${document}${supplierName ? ', ' + supplierName : ''})${item.notes ? ': ' + item.notes : ''}`,
+                  reference: document,
+                  supplier: supplier || undefined,
+                  cost: item.cost || undefined
                 }
               );
             }
@@ -82,7 +98,10 @@ const StockEntry = ({ onClose }: StockEntryFormProps) => {
               {
                 quantity: item.quantity,
                 reorderPoint: 10,
-                reorderQuantity: 50
+                reorderQuantity: 50,
+                reference: document,
+                supplier: supplier || undefined,
+                cost: item.cost || undefined
               }
             );
           }
@@ -94,6 +113,7 @@ const StockEntry = ({ onClose }: StockEntryFormProps) => {
     {
       onSuccess: () => {
         queryClient.invalidateQueries(['inventory', storeId]);
+        queryClient.invalidateQueries('products');
         onClose();
       },
       onError: (err: any) => {
@@ -121,6 +141,12 @@ const StockEntry = ({ onClose }: StockEntryFormProps) => {
     setError('');
     setLoading(true);
 
+    if (!reference.trim()) {
+      setError('Enter the invoice or delivery challan number for this stock');
+      setLoading(false);
+      return;
+    }
+
     // Validate items
     const validItems = items.filter(item => item.product && item.quantity > 0);
     if (validItems.length === 0) {
@@ -158,11 +184,57 @@ const StockEntry = ({ onClose }: StockEntryFormProps) => {
             </div>
           )}
 
+          {canManage && (
+            <p className="mb-4 text-sm text-gray-600">
+              Ordered from a supplier?{' '}
+              <Link to="/purchase-orders" onClick={onClose} className="text-blue-600 hover:text-blue-800">
+                Receive against a purchase order
+              </Link>{' '}
+              to keep the order and product costs up to date.
+            </p>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-b pb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Invoice / Challan No. <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setReference(e.target.value)}
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              {canManage && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Supplier
+                  </label>
+                  <select
+                    value={supplier}
+                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setSupplier(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Not specified</option>
+                    {suppliersData?.data?.suppliers
+                      ?.filter((s) => s.isActive)
+                      .map((s) => (
+                        <option key={s._id} value={s._id}>
+                          {s.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
             <div className="space-y-4">
               {items.map((item, index) => (
                 <div key={index} className="grid grid-cols-12 gap-4 items-end border-b pb-4">
-                  <div className="col-span-5">
+                  <div className="col-span-4">
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Product <span className="text-red-500">*</span>
                     </label>
@@ -199,7 +271,23 @@ const StockEntry = ({ onClose }: StockEntryFormProps) => {
                     />
                   </div>
 
-                  <div className="col-span-3">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Unit Cost (৳)
+                    </label>
+                    <input
+                      type="number"
+                      value={item.cost || ''}
+                      onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                        handleItemChange(index, 'cost', Number(e.target.value))
+                      }
+                      min="0"
+                      step="0.01"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div className="col-span-2">
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Notes
                     </label>
@@ -1,7 +1,10 @@
 import { useState, FormEvent, ChangeEvent } from 'react';
 import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { useNavigate } from 'react-router-dom';
 import api from '../../services/api.js';
 import { useAuthStore } from '../../store/authStore.js';
+import { transferService } from '../../services/transferService.js';
+import type { StockTransferData } from '../../services/transferService.js';
 
 interface Store {
   _id: string;
@@ -35,19 +38,26 @@ interface InventoryResponse {
   };
 }
 
+interface TransferLine {
+  product: string;
+  quantity: number;
+}
+
 interface StockTransferFormProps {
   onClose: () => void;
 }
 
+// Raises a transfer request; stock only moves when the source store dispatches it
 const StockTransfer = ({ onClose }: StockTransferFormProps) => {
   const { user } = useAuthStore();
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const isAdmin = user?.role === 'admin';
   const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
 
   const [fromStoreId, setFromStoreId] = useState(storeId || '');
   const [toStoreId, setToStoreId] = useState('');
-  const [productId, setProductId] = useState('');
-  const [quantity, setQuantity] = useState(0);
+  const [lines, setLines] = useState<TransferLine[]>([{ product: '', quantity: 0 }]);
   const [notes, setNotes] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -73,39 +83,22 @@ const StockTransfer = ({ onClose }: StockTransferFormProps) => {
     { enabled: !!fromStoreId }
   );
 
-  const selectedProduct = inventoryData?.data?.inventory?.find(
-    (inv) => (typeof inv.product === 'object' ? inv.product._id : inv.product) === productId
-  );
+  const availableQuantity = (productId: string) =>
+    inventoryData?.data?.inventory?.find(
+      (inv) => (typeof inv.product === 'object' ? inv.product._id : inv.product) === productId
+    )?.quantity || 0;
 
-  const availableQuantity = selectedProduct?.quantity || 0;
+  const handleLineChange = (index: number, changes: Partial<TransferLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
 
   const transferMutation = useMutation(
-    async ({
-      fromStoreId,
-      toStoreId,
-      productId,
-      quantity,
-      notes,
-    }: {
-      fromStoreId: string;
-      toStoreId: string;
-      productId: string;
-      quantity: number;
-      notes: string;
-    }) => {
-      const response = await api.post('/inventory/transfer', {
-        fromStoreId,
-        toStoreId,
-        productId,
-        quantity,
-        notes,
-      });
-      return response.data;
-    },
+    (transferData: StockTransferData) => transferService.createTransfer(transferData),
     {
-      onSuccess: () => {
-        queryClient.invalidateQueries(['inventory']);
+      onSuccess: (data) => {
+        queryClient.invalidateQueries('transfers');
         onClose();
+        navigate(`/transfers/${data.data.transfer._id}`);
       },
       onError: (err: any) => {
         setError(err.response?.data?.message || 'Failed to transfer stock');
@@ -127,18 +120,26 @@ const StockTransfer = ({ onClose }: StockTransferFormProps) => {
       return;
     }
 
-    if (!productId) {
-      setError('Please select a product');
+    if (!isAdmin && fromStoreId !== storeId && toStoreId !== storeId) {
+      setError('Transfers must go to or from your own store');
+      return;
+    }
+
+    const validLines = lines.filter((line) => line.product && line.quantity > 0);
+    if (validLines.length === 0) {
+      setError('Please add at least one product with a quantity');
       return;
     }
 
-    if (quantity <= 0) {
-      setError('Quantity must be greater than 0');
+    const productIds = validLines.map((line) => line.product);
+    if (new Set(productIds).size !== productIds.length) {
+      setError('Each product can only appear once - combine the quantities');
       return;
     }
 
-    if (quantity > availableQuantity) {
-      setError(`Insufficient stock. Available: ${availableQuantity}`);
+    const short = validLines.find((line) => line.quantity > availableQuantity(line.product));
+    if (short) {
+      setError(`Insufficient stock. Available: ${availableQuantity(short.product)}`);
       return;
     }
 
@@ -146,11 +147,10 @@ const StockTransfer = ({ onClose }: StockTransferFormProps) => {
 
     try {
       await transferMutation.mutateAsync({
-        fromStoreId,
-        toStoreId,
-        productId,
-        quantity,
-        notes,
+        fromStore: fromStoreId,
+        toStore: toStoreId,
+        lines: validLines,
+        notes: notes.trim() || undefined,
       });
     } catch (err) {
       // Error handled in mutation
@@ -164,7 +164,7 @@ const StockTransfer = ({ onClose }: StockTransferFormProps) => {
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full m-4">
         <div className="p-6">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-mercellus">Transfer Stock Between Stores</h2>
+            <h2 className="text-2xl font-mercellus">Request Stock Transfer</h2>
             <button
               onClick={onClose}
               className="text-gray-500 hover:text-gray-700 text-2xl"
@@ -189,10 +189,9 @@ const StockTransfer = ({ onClose }: StockTransferFormProps) => {
                   value={fromStoreId}
                   onChange={(e: ChangeEvent<HTMLSelectElement>) => {
                     setFromStoreId(e.target.value);
-                    setProductId(''); // Reset product when store changes
+                    setLines([{ product: '', quantity: 0 }]); // Reset products when store changes
                   }}
                   required
-                  disabled={user?.role !== 'admin'}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
                 >
                   <option value="">Select Store</option>
@@ -229,52 +228,63 @@ const StockTransfer = ({ onClose }: StockTransferFormProps) => {
               </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Product <span className="text-red-500">*</span>
-              </label>
-              <select
-                value={productId}
-                onChange={(e: ChangeEvent<HTMLSelectElement>) => setProductId(e.target.value)}
-                required
-                disabled={!fromStoreId}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            <div className="space-y-4">
+              {lines.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-4 items-end border-b pb-4">
+                  <div className="col-span-7">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Product <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                      value={line.product}
+                      onChange={(e: ChangeEvent<HTMLSelectElement>) => handleLineChange(index, { product: e.target.value })}
+                      disabled={!fromStoreId}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                    >
+                      <option value="">Select Product</option>
+                      {inventoryData?.data?.inventory?.map((inv) => {
+                        const product = typeof inv.product === 'object' ? inv.product : null;
+                        return (
+                          <option key={inv._id} value={product?._id || ''}>
+                            {product?.name} ({product?.sku}) - Stock: {inv.quantity}
+                          </option>
+                        );
+                      })}
+                    </select>
+                  </div>
+                  <div className="col-span-3">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Quantity <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      value={line.quantity || ''}
+                      onChange={(e: ChangeEvent<HTMLInputElement>) => handleLineChange(index, { quantity: Number(e.target.value) })}
+                      min="1"
+                      max={line.product ? availableQuantity(line.product) : undefined}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    {lines.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        className="px-3 py-2 text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setLines([...lines, { product: '', quantity: 0 }])}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
               >
-                <option value="">Select Product</option>
-                {inventoryData?.data?.inventory?.map((inv) => {
-                  const product = typeof inv.product === 'object' ? inv.product : null;
-                  return (
-                    <option key={inv._id} value={product?._id || ''}>
-                      {product?.name} ({product?.sku}) - Stock: {inv.quantity}
-                    </option>
-                  );
-                })}
-              </select>
-            </div>
-
-            {selectedProduct && (
-              <div className="bg-blue-50 p-4 rounded-lg">
-                <p className="text-sm text-blue-900">
-                  Available Stock: <span className="font-semibold">{availableQuantity}</span>
-                </p>
-              </div>
-            )}
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Quantity to Transfer <span className="text-red-500">*</span>
-              </label>
-              <input
-                type="number"
-                value={quantity || ''}
-                onChange={(e: ChangeEvent<HTMLInputElement>) =>
-                  setQuantity(Number(e.target.value))
-                }
-                min="1"
-                max={availableQuantity}
-                required
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
-              />
+                + Add Product
+              </button>
             </div>
 
             <div>
@@ -290,6 +300,10 @@ const StockTransfer = ({ onClose }: StockTransferFormProps) => {
               />
             </div>
 
+            <p className="text-sm text-gray-600">
+              Stock stays in the source store until the transfer is approved and dispatched.
+            </p>
+
             <div className="flex justify-end gap-4 pt-4">
               <button
                 type="button"
@@ -303,7 +317,7 @@ const StockTransfer = ({ onClose }: StockTransferFormProps) => {
                 disabled={loading}
                 className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
               >
-                {loading ? 'Transferring...' : 'Transfer Stock'}
+                {loading ? 'Submitting...' : 'Request Transfer'}
               </button>
             </div>
           </form>
@@ -0,0 +1,47 @@
+import type { InventoryMovement, InventoryMovementType } from '../../types/index.js';
+
+export const MOVEMENT_TYPE_LABELS: Record<InventoryMovementType, string> = {
+  sale: 'Sale',
+  return: 'Return',
+  void: 'Void',
+  stock_entry: 'Stock Entry',
+  purchase_receipt: 'PO Receipt',
+  adjustment: 'Adjustment',
+  manual_edit: 'Manual Edit',
+  transfer_out: 'Transfer Out',
+  transfer_in: 'Transfer In',
+  stocktake: 'Stocktake',
+};
+
+export const MOVEMENT_TYPE_BADGES: Record<InventoryMovementType, string> = {
+  sale: 'bg-blue-100 text-blue-800',
+  return: 'bg-yellow-100 text-yellow-800',
+  void: 'bg-gray-100 text-gray-800',
+  stock_entry: 'bg-green-100 text-green-800',
+  purchase_receipt: 'bg-green-100 text-green-800',
+  adjustment: 'bg-orange-100 text-orange-800',
+  manual_edit: 'bg-orange-100 text-orange-800',
+  transfer_out: 'bg-purple-100 text-purple-800',
+  transfer_in: 'bg-purple-100 text-purple-800',
+  stocktake: 'bg-indigo-100 text-indigo-800',
+};
+
+// In-app page for the document a movement came from, when there is one
+export const movementSourcePath = (movement: InventoryMovement): string | undefined => {
+  if (!movement.sourceId) return undefined;
+  switch (movement.sourceType) {
+    case 'transaction':
+      return `/transactions/${movement.sourceId}`;
+    case 'purchase_order':
+      return `/purchase-orders/${movement.sourceId}`;
+    case 'transfer':
+      return `/transfers/${movement.sourceId}`;
+    case 'stocktake':
+      return `/stocktakes/${movement.sourceId}`;
+    default:
+      return undefined;
+  }
+};
+
+export const stockCardPath = (productId: string, storeId: string): string =>
+  `/stock-card/${productId}?store=${storeId}`;
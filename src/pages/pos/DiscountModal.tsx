@@ -0,0 +1,148 @@
+import { useState, FormEvent, ChangeEvent } from 'react';
+import { useAuthStore } from '../../store/authStore.js';
+import ManagerApproval from '../../components/ManagerApproval';
+import type { User } from '../../types/index.js';
+import {
+  DISCOUNT_APPROVAL_THRESHOLDS,
+  canApproveDiscount,
+  discountPercentage,
+  resolveDiscount,
+  validateDiscount,
+} from './discounts.js';
+import type { Discount } from './discounts.js';
+
+interface DiscountModalProps {
+  title: string;
+  // Amount the discount is taken from (line total or cart total after line discounts)
+  baseAmount: number;
+  initial?: Discount;
+  onApply: (discount: Discount | undefined) => void;
+  onClose: () => void;
+}
+
+const DiscountModal = ({ title, baseAmount, initial, onApply, onClose }: DiscountModalProps) => {
+  const { user } = useAuthStore();
+  const [type, setType] = useState<Discount['type']>(initial?.type || 'percentage');
+  const [value, setValue] = useState(initial ? String(initial.value) : '');
+  const [error, setError] = useState('');
+  const [needsApproval, setNeedsApproval] = useState(false);
+
+  const discount: Discount = { type, value: parseFloat(value) || 0 };
+  const amount = resolveDiscount(discount, baseAmount);
+  const percentage = discountPercentage(discount, baseAmount);
+  const userLimit = user ? DISCOUNT_APPROVAL_THRESHOLDS[user.role] : 0;
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const validationError = validateDiscount(discount, baseAmount);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (!canApproveDiscount(user?.role, percentage)) {
+      setNeedsApproval(true);
+      return;
+    }
+    onApply(discount);
+  };
+
+  const handleApproved = (approver: User, overrideToken: string) => {
+    setNeedsApproval(false);
+    if (!canApproveDiscount(approver.role, percentage)) {
+      setError(`${approver.name} can approve discounts up to ${DISCOUNT_APPROVAL_THRESHOLDS[approver.role]}% only`);
+      return;
+    }
+    onApply({ ...discount, overrideToken });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-sm w-full m-4 p-6">
+        <h2 className="text-xl font-mercellus text-gray-800 mb-1">{title}</h2>
+        <p className="text-sm text-gray-600 mb-4">Applies to ৳{baseAmount.toFixed(2)}</p>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2 mb-3">
+          <select
+            value={type}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => setType(e.target.value as Discount['type'])}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="percentage">%</option>
+            <option value="fixed">৳</option>
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            autoFocus
+            value={value}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => {
+              setValue(e.target.value);
+              setError('');
+            }}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div className="text-sm space-y-1 mb-4">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Discount:</span>
+            <span className="text-red-600">-৳{amount.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span>New amount:</span>
+            <span>৳{(baseAmount - amount).toFixed(2)}</span>
+          </div>
+          {percentage > userLimit && (
+            <p className="text-xs text-orange-600">
+              Above your {userLimit}% limit - manager approval required
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {initial && (
+            <button
+              type="button"
+              onClick={() => onApply(undefined)}
+              className="px-4 py-2 bg-red-100 text-red-700 rounded-lg hover:bg-red-200"
+            >
+              Remove
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+
+      {needsApproval && (
+        <ManagerApproval
+          title="Manager Approval"
+          message={`A ${percentage.toFixed(1)}% discount (৳${amount.toFixed(2)}) needs manager approval.`}
+          action="discount"
+          onApproved={handleApproved}
+          onCancel={() => setNeedsApproval(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DiscountModal;
@@ -1,18 +1,42 @@
 import { useState, ChangeEvent, useEffect, useRef, KeyboardEvent, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
-import api from '../../services/api.js';
+import api, { isNetworkError } from '../../services/api.js';
 import { useAuthStore } from '../../store/authStore.js';
+import { useShiftStore } from '../../store/shiftStore.js';
 import { customerService } from '../../services/customerService.js';
 import { loyaltyService } from '../../services/loyaltyService.js';
+import { promotionService } from '../../services/promotionService.js';
+import { offlineSync, generateIdempotencyKey } from '../../services/offlineSync.js';
+import { catalogSnapshot } from '../../services/catalogSnapshot.js';
+import { useCatalogSnapshot } from '../../hooks/useCatalogSnapshot';
+import { transactionService, generateProvisionalTransactionNumber } from '../../services/transactionService.js';
+import type { SaleItemData, SaleResponse, SaleTransactionData } from '../../services/transactionService.js';
 import type { Product, Inventory as InventoryType, Transaction, Customer } from '../../types/index.js';
 import Receipt from './Receipt.js';
-
-interface CartItem {
+import VoidTransactionModal, { canVoidTransaction } from '../transactions/VoidTransactionModal';
+import PaymentPanel from './PaymentPanel.js';
+import DiscountModal from './DiscountModal.js';
+import ParkedCartsModal from './ParkedCartsModal.js';
+import { parkedCarts } from './parkedCarts.js';
+import type { ParkedCart } from './parkedCarts.js';
+import { calculateCartTotals, pointsToTaka } from './cartTotals.js';
+import { canApproveDiscount, discountPercentage, formatDiscountLabel } from './discounts.js';
+import type { Discount } from './discounts.js';
+import { evaluatePromotions } from './promotions.js';
+import { createEntryTender, createTender, summarizeTenders, validateTenders } from './tenders.js';
+import type { Tender, TenderMethod } from './tenders.js';
+
+export interface CartItem {
   product: string;
   name: string;
   price: number;
   quantity: number;
   sku?: string;
+  category?: string;
+  taxRate: number;
+  discount?: Discount;
+  cost?: number;
 }
 
 interface ProductsResponse {
@@ -20,6 +44,8 @@ interface ProductsResponse {
   data: {
     products: Product[];
   };
+  // Set when served from the offline catalogue snapshot
+  fromSnapshot?: boolean;
 }
 
 interface InventoryResponse {
@@ -34,38 +60,14 @@ interface InventoryResponse {
       quantity: number;
     }>;
   };
-}
-
-interface TransactionItem {
-  product: string;
-  quantity: number;
-  price: number;
-  discount: number;
-  tax: number;
-  subtotal: number;
-}
-
-interface SaleTransactionData {
-  store: string;
-  items: TransactionItem[];
-  subtotal: number;
-  discount: number;
-  total: number;
-  paymentMethod: 'cash' | 'card' | 'mobile_payment';
-  paymentDetails: {
-    cashAmount: number;
-    cardAmount: number;
-    mobileAmount: number;
-    change: number;
-  };
-  customer?: string;
-  loyaltyPointsRedeemed?: number;
+  fromSnapshot?: boolean;
 }
 
 type SortOption = 'name' | 'price-asc' | 'price-desc' | 'stock';
 
 const POS = () => {
   const { user } = useAuthStore();
+  const { currentShift } = useShiftStore();
   const queryClient = useQueryClient();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -74,10 +76,19 @@ const POS = () => {
   const [selectedBrand, setSelectedBrand] = useState('');
   const [showInStockOnly, setShowInStockOnly] = useState(true);
   const [sortOption, setSortOption] = useState<SortOption>('name');
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card' | 'mobile_payment'>('cash');
+  const [paymentMethod, setPaymentMethod] = useState<TenderMethod>('cash');
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [cartDiscount, setCartDiscount] = useState<Discount | undefined>(undefined);
+  // Product id of the line being discounted, or 'cart' for the whole-cart discount
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  // Promotions the customer or cashier chose not to use on this sale
+  const [declinedPromotions, setDeclinedPromotions] = useState<string[]>([]);
   const [selectedProductIndex, setSelectedProductIndex] = useState(-1);
   const [completedTransaction, setCompletedTransaction] = useState<Transaction | null>(null);
   const [showReceipt, setShowReceipt] = useState(false);
+  const [showVoid, setShowVoid] = useState(false);
+  const [showParkedCarts, setShowParkedCarts] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [customerSearchTerm, setCustomerSearchTerm] = useState('');
   const [loyaltyPointsToRedeem, setLoyaltyPointsToRedeem] = useState(0);
@@ -98,6 +109,10 @@ const POS = () => {
   };
 
   const storeId = user?.store ? getStoreId(user.store) : null;
+  const taxInclusive = typeof user?.store === 'object' ? !!user.store.taxInclusive : false;
+
+  // Background refresh of the offline catalogue and stock levels
+  useCatalogSnapshot(storeId);
 
   // Fetch customers for search (debounced)
   const [debouncedCustomerSearch, setDebouncedCustomerSearch] = useState('');
@@ -114,6 +129,27 @@ const POS = () => {
     { enabled: debouncedCustomerSearch.length >= 2 }
   );
 
+  // Promotions running today for this store - evaluated locally on every cart change
+  const { data: promotionsData } = useQuery(
+    ['promotions-active', storeId],
+    () => promotionService.getActivePromotions(storeId!),
+    {
+      enabled: !!storeId,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      cacheTime: 60 * 60 * 1000, // 1 hour - keeps promotions available through short outages
+    }
+  );
+
+  // Carts on hold at this till - kept in IndexedDB so they survive a reload
+  const { data: heldCarts = [] } = useQuery(
+    ['parked-carts', storeId],
+    () => parkedCarts.list(storeId!),
+    {
+      enabled: !!storeId,
+      refetchInterval: 60 * 1000, // 1 minute - keeps the "parked ... ago" labels current
+    }
+  );
+
   // Fetch loyalty settings
   const { data: loyaltySettings } = useQuery(
     'loyalty-settings',
@@ -145,8 +181,19 @@ const POS = () => {
       if (debouncedSearchTerm) params.search = debouncedSearchTerm;
       if (selectedCategory) params.category = selectedCategory;
       if (selectedBrand) params.brand = selectedBrand;
-      const response = await api.get<ProductsResponse>('/products', { params });
-      return response.data;
+      try {
+        const response = await api.get<ProductsResponse>('/products', { params });
+        return response.data;
+      } catch (error) {
+        if (!storeId || !isNetworkError(error)) throw error;
+        const snapshotProducts = await catalogSnapshot.getProducts(storeId, {
+          search: debouncedSearchTerm,
+          category: selectedCategory,
+          brand: selectedBrand,
+        });
+        if (!snapshotProducts) throw error;
+        return { success: true, data: { products: snapshotProducts }, fromSnapshot: true };
+      }
     },
     { 
       enabled: !!storeId,
@@ -160,8 +207,19 @@ const POS = () => {
     ['inventory', storeId],
     async () => {
       if (!storeId) throw new Error('No store ID');
-      const response = await api.get<InventoryResponse>(`/inventory/store/${storeId}`);
-      return response.data;
+      try {
+        const response = await api.get<InventoryResponse>(`/inventory/store/${storeId}`);
+        return response.data;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const snapshotInventory = await catalogSnapshot.getInventory(storeId);
+        if (!snapshotInventory) throw error;
+        return {
+          success: true,
+          data: { inventory: snapshotInventory as InventoryResponse['data']['inventory'] },
+          fromSnapshot: true,
+        };
+      }
     },
     { 
       enabled: !!storeId,
@@ -183,20 +241,69 @@ const POS = () => {
     ).sort();
   }, [products?.data?.products]);
 
+  // Queue the sale for background sync and build a provisional receipt from the cart
+  const queueOfflineSale = async (
+    transactionData: SaleTransactionData,
+    idempotencyKey: string
+  ): Promise<SaleResponse> => {
+    const storeCode = typeof user?.store === 'object' ? user.store.code : undefined;
+    const offlineTransactionNumber = generateProvisionalTransactionNumber(storeCode);
+    const offlineCreatedAt = new Date().toISOString();
+    const queuedSale: SaleTransactionData = { ...transactionData, offlineTransactionNumber, offlineCreatedAt };
+
+    const transaction: Transaction = {
+      _id: offlineTransactionNumber,
+      transactionNumber: offlineTransactionNumber,
+      store: transactionData.store,
+      type: 'sale',
+      items: transactionData.items.map((item) => {
+        const cartItem = cart.find((c) => c.product === item.product);
+        return {
+          ...item,
+          product: { _id: item.product, name: cartItem?.name || 'Product', sku: cartItem?.sku } as Product,
+        };
+      }),
+      subtotal: transactionData.subtotal,
+      discount: transactionData.discount,
+      tax: transactionData.tax,
+      taxInclusive: transactionData.taxInclusive,
+      total: transactionData.total,
+      paymentMethod: transactionData.paymentMethod,
+      paymentDetails: transactionData.paymentDetails,
+      customer: selectedCustomer || undefined,
+      cashier: user!,
+      shift: transactionData.shift,
+      cartDiscount: transactionData.cartDiscount,
+      appliedPromotions: transactionData.appliedPromotions,
+      status: 'pending',
+      loyaltyPointsRedeemed: transactionData.loyaltyPointsRedeemed,
+      createdAt: offlineCreatedAt,
+    };
+
+    const syncId = await offlineSync.addToSyncQueue('transaction', 'create', queuedSale, idempotencyKey);
+    await offlineSync.storeOffline('transactions', { id: offlineTransactionNumber, syncId, transaction });
+    await catalogSnapshot.decrementStock(transactionData.store, transactionData.items);
+
+    return { success: true, data: { transaction }, offline: true };
+  };
+
   const createSaleMutation = useMutation(
     async (transactionData: SaleTransactionData) => {
-      const response = await api.post<{ 
-        success: boolean; 
-        data: { 
-          transaction: Transaction;
-          loyaltyPoints?: {
-            earned: number;
-            redeemed: number;
-            newBalance?: number;
-          };
-        } 
-      }>('/transactions/sale', transactionData);
-      return response.data;
+      // One key per checkout: if the request timed out after reaching the server,
+      // the queued replay is recognised as the same sale
+      const idempotencyKey = generateIdempotencyKey();
+      if (!offlineSync.isOnline()) {
+        return queueOfflineSale(transactionData, idempotencyKey);
+      }
+      try {
+        return await transactionService.createSale(transactionData, idempotencyKey);
+      } catch (error) {
+        // The connection can drop without the browser noticing - fall back to the queue
+        if (isNetworkError(error)) {
+          return queueOfflineSale(transactionData, idempotencyKey);
+        }
+        throw error;
+      }
     },
     {
       onSuccess: (data) => {
@@ -220,13 +327,21 @@ const POS = () => {
         setSearchTerm('');
         setDebouncedSearchTerm('');
         setLoyaltyPointsToRedeem(0);
+        setTenders([]);
+        setCartDiscount(undefined);
+        setDeclinedPromotions([]);
         // Keep customer selected for next transaction (optional - can clear if needed)
         // setSelectedCustomer(null);
-        queryClient.invalidateQueries('inventory');
-        queryClient.invalidateQueries('sales-report');
-        queryClient.invalidateQueries(['customers-search']);
-        if (selectedCustomer) {
-          queryClient.invalidateQueries(['customer', selectedCustomer._id]);
+        // Offline sales have nothing new on the server yet - only the local stock changed
+        if (data.offline) {
+          queryClient.invalidateQueries(['inventory', storeId]);
+        } else {
+          queryClient.invalidateQueries('inventory');
+          queryClient.invalidateQueries('sales-report');
+          queryClient.invalidateQueries(['customers-search']);
+          if (selectedCustomer) {
+            queryClient.invalidateQueries(['customer', selectedCustomer._id]);
+          }
         }
         if (searchInputRef.current) {
           searchInputRef.current.focus();
@@ -375,6 +490,9 @@ const POS = () => {
           price: product.price,
           quantity: 1,
           sku: product.sku,
+          category: product.category,
+          taxRate: product.taxRate || 0,
+          cost: product.cost,
         },
       ]);
     }
@@ -387,6 +505,65 @@ const POS = () => {
     }
   };
 
+  const defaultHoldName = selectedCustomer?.name || `Hold ${heldCarts.length + 1}`;
+
+  const parkCurrentCart = async (name: string): Promise<boolean> => {
+    if (!storeId || cart.length === 0) return false;
+    try {
+      await parkedCarts.park({
+        name,
+        store: storeId,
+        cart,
+        customer: selectedCustomer,
+        loyaltyPointsToRedeem,
+        cartDiscount,
+        declinedPromotions,
+        parkedBy: user?.name,
+      });
+    } catch (error) {
+      alert('Failed to park cart');
+      return false;
+    }
+    setCart([]);
+    setSelectedCustomer(null);
+    setLoyaltyPointsToRedeem(0);
+    setTenders([]);
+    setCartDiscount(undefined);
+    setDeclinedPromotions([]);
+    setShowParkedCarts(false);
+    queryClient.invalidateQueries(['parked-carts', storeId]);
+    searchInputRef.current?.focus();
+    return true;
+  };
+
+  const recallCart = async (parked: ParkedCart) => {
+    // Whatever is on the till now goes on hold rather than being lost
+    if (cart.length > 0 && !(await parkCurrentCart(defaultHoldName))) return;
+    try {
+      await parkedCarts.remove(parked.id);
+    } catch (error) {
+      alert('Failed to recall cart');
+      return;
+    }
+    setCart(parked.cart);
+    setSelectedCustomer(parked.customer);
+    setLoyaltyPointsToRedeem(parked.loyaltyPointsToRedeem);
+    setTenders([]);
+    setCartDiscount(parked.cartDiscount);
+    setDeclinedPromotions(parked.declinedPromotions);
+    setShowParkedCarts(false);
+    queryClient.invalidateQueries(['parked-carts', storeId]);
+    if (parked.customer) {
+      // Points may have changed while the cart was on hold
+      queryClient.invalidateQueries(['customer', parked.customer._id]);
+    }
+  };
+
+  const discardParkedCart = async (parked: ParkedCart) => {
+    await parkedCarts.remove(parked.id);
+    queryClient.invalidateQueries(['parked-carts', storeId]);
+  };
+
   const removeFromCart = (productId: string) => {
     setCart(cart.filter((item) => item.product !== productId));
   };
@@ -423,6 +600,33 @@ const POS = () => {
     return cart.reduce((total, item) => total + item.price * item.quantity, 0);
   };
 
+  const promotionResult = useMemo(() => {
+    const promotions = (promotionsData?.data?.promotions || []).filter(
+      (promotion) => !declinedPromotions.includes(promotion._id)
+    );
+    return evaluatePromotions(cart, promotions, storeId);
+  }, [cart, promotionsData, declinedPromotions, storeId]);
+
+  const totals = useMemo(() => {
+    const promotedCart = cart.map((item) => ({
+      ...item,
+      promotionDiscount: promotionResult.lines[item.product]?.amount,
+      promotions: promotionResult.lines[item.product]?.promotions,
+    }));
+    return calculateCartTotals(promotedCart, cartDiscount, selectedCustomer ? loyaltyPointsToRedeem : 0, taxInclusive);
+  }, [cart, promotionResult, cartDiscount, selectedCustomer, loyaltyPointsToRedeem, taxInclusive]);
+
+  const applyDiscount = (discount: Discount | undefined) => {
+    if (discountTarget === 'cart') {
+      setCartDiscount(discount);
+    } else {
+      setCart(cart.map((item) => (item.product === discountTarget ? { ...item, discount } : item)));
+    }
+    setDiscountTarget(null);
+  };
+
+  const discountLine = cart.find((item) => item.product === discountTarget);
+
   const handleCheckout = () => {
     if (cart.length === 0) {
       alert('Cart is empty');
@@ -434,51 +638,87 @@ const POS = () => {
       return;
     }
 
+    if (!currentShift) {
+      alert('No open shift. Open a shift before making sales.');
+      return;
+    }
+
     // StoreId is already extracted as string by getStoreId function
     const storeIdString = storeId;
 
-    const items: TransactionItem[] = cart.map((item) => ({
+    const items: SaleItemData[] = cart.map((item, index) => ({
       product: item.product,
       quantity: item.quantity,
       price: item.price,
-      discount: 0,
-      tax: 0,
-      subtotal: item.price * item.quantity,
+      discount: totals.lines[index].discount,
+      tax: totals.lines[index].tax,
+      subtotal: totals.lines[index].net,
+      appliedDiscount: totals.lines[index].appliedDiscount,
+      taxRate: totals.lines[index].taxRate,
+      taxableAmount: totals.lines[index].taxable,
+      promotions: totals.lines[index].promotions.length > 0 ? totals.lines[index].promotions : undefined,
+      promotionDiscount: totals.lines[index].promotionDiscount || undefined,
+      unitCost: item.cost,
     }));
 
-    let subtotal = calculateTotal();
-    let discount = 0;
-    
-    // Calculate points discount if applicable
-    // Business rule: 100 points = 10 BDT discount, minimum 500 BDT purchase required
-    if (selectedCustomer && loyaltyPointsToRedeem > 0) {
-      // Check minimum purchase requirement (500 BDT)
-      if (subtotal < 500) {
-        alert('Minimum purchase of 500 BDT is required to redeem loyalty points');
-        return;
-      }
+    // Business rule: minimum 500 BDT purchase required to redeem loyalty points
+    if (selectedCustomer && loyaltyPointsToRedeem > 0 && totals.subtotal < 500) {
+      alert('Minimum purchase of 500 BDT is required to redeem loyalty points');
+      return;
+    }
 
-      // 100 points = 10 BDT discount (1 point = 0.1 BDT)
-      // Calculate: (points / 100) * 10
-      discount = Math.min((loyaltyPointsToRedeem / 100) * 10, subtotal);
+    // Quantity changes can push an unapproved fixed discount past the cashier's limit
+    const cartDiscountBase = totals.subtotal - totals.promotionDiscounts - totals.lineDiscounts;
+    const exceedsLimit =
+      cart.some((item, index) =>
+        item.discount && !item.discount.overrideToken &&
+        !canApproveDiscount(user?.role, discountPercentage(item.discount, totals.lines[index].afterPromotions))
+      ) ||
+      (!!cartDiscount && !cartDiscount.overrideToken &&
+        !canApproveDiscount(user?.role, discountPercentage(cartDiscount, cartDiscountBase)));
+    if (exceedsLimit) {
+      alert('A discount is now above your limit. Re-apply it to request manager approval.');
+      return;
     }
-    
-    const total = Math.max(0, subtotal - discount);
+
+    const { subtotal, discount, tax, total } = totals;
+
+    // An amount left in the payment field counts as a tender, so cash received and change
+    // are recorded even when Add wasn't pressed. With nothing entered at all, the whole
+    // total goes on the selected method.
+    const entryTender = createEntryTender(paymentMethod, tenderAmount, summarizeTenders(tenders, total).balance);
+    const saleTenders = entryTender
+      ? [...tenders, entryTender]
+      : tenders.length > 0
+        ? tenders
+        : [createTender(paymentMethod, total)];
+    const tenderError = total > 0 ? validateTenders(saleTenders, total) : null;
+    if (tenderError) {
+      alert(tenderError);
+      return;
+    }
+    const payment = summarizeTenders(saleTenders, total);
 
     const transactionData: SaleTransactionData = {
       store: storeIdString,
       items,
       subtotal,
       discount,
+      tax,
+      taxInclusive,
       total,
-      paymentMethod,
-      paymentDetails: {
-        cashAmount: paymentMethod === 'cash' ? total : 0,
-        cardAmount: paymentMethod === 'card' ? total : 0,
-        mobileAmount: paymentMethod === 'mobile_payment' ? total : 0,
-        change: 0,
-      },
+      paymentMethod: payment.paymentMethod,
+      paymentDetails: payment.paymentDetails,
       customer: selectedCustomer?._id,
+      shift: currentShift._id,
+      cartDiscount: totals.appliedCartDiscount,
+      appliedPromotions: promotionResult.applied.length > 0
+        ? promotionResult.applied.map((outcome) => ({
+            promotion: outcome.promotion._id,
+            name: outcome.promotion.name,
+            amount: outcome.amount,
+          }))
+        : undefined,
       loyaltyPointsRedeemed: loyaltyPointsToRedeem > 0 ? loyaltyPointsToRedeem : undefined,
     };
 
@@ -531,6 +771,20 @@ const POS = () => {
     );
   }
 
+  if (!currentShift) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600 mb-4">No shift is open on this register. Open a shift to start selling.</p>
+        <Link
+          to="/shift"
+          className="inline-block px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-semibold"
+        >
+          Open Shift
+        </Link>
+      </div>
+    );
+  }
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       {/* Product Search and List */}
@@ -636,6 +890,12 @@ const POS = () => {
             </div>
           </div>
 
+          {(products?.fromSnapshot || inventory?.fromSnapshot) && (
+            <div className="mt-3 p-2 bg-orange-50 border border-orange-200 rounded text-sm text-orange-800">
+              Offline: showing the saved catalogue. Stock levels include sales waiting to sync.
+            </div>
+          )}
+
           {/* Results count */}
           {filteredProducts.length > 0 && (
             <div className="mt-3 text-sm text-gray-600">
@@ -774,7 +1034,7 @@ const POS = () => {
                   />
                   {loyaltyPointsToRedeem > 0 && (
                     <p className="text-xs text-green-600 mt-1">
-                      Discount: ৳{((loyaltyPointsToRedeem / 100) * 10).toFixed(2)} ({loyaltyPointsToRedeem} points)
+                      Discount: ৳{pointsToTaka(loyaltyPointsToRedeem).toFixed(2)} ({loyaltyPointsToRedeem} points)
                     </p>
                   )}
                   {calculateTotal() < 500 && calculateTotal() > 0 && (
@@ -846,7 +1106,15 @@ const POS = () => {
         </div>
 
         <div className="bg-white p-6 rounded-lg shadow sticky top-24">
-          <h2 className="text-2xl font-mercellus mb-4">Cart ({cart.length})</h2>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-mercellus">Cart ({cart.length})</h2>
+            <button
+              onClick={() => setShowParkedCarts(true)}
+              className="px-3 py-1 text-sm bg-yellow-100 text-yellow-800 rounded-lg hover:bg-yellow-200"
+            >
+              {cart.length > 0 ? 'Park' : 'Held'} ({heldCarts.length})
+            </button>
+          </div>
 
           <div className="space-y-2 mb-4 max-h-96 overflow-y-auto">
             {cart.map((item) => {
@@ -864,6 +1132,22 @@ const POS = () => {
                     <p className="font-medium text-sm truncate">{item.name}</p>
                     <p className="text-xs text-gray-600">৳{item.price.toLocaleString()} x {item.quantity}</p>
                     <p className="text-xs text-gray-500">Subtotal: ৳{(item.price * item.quantity).toLocaleString()}</p>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setDiscountTarget(item.product);
+                      }}
+                      className="text-xs text-blue-600 hover:text-blue-800"
+                    >
+                      {item.discount
+                        ? `Discount ${formatDiscountLabel(item.discount)}: -৳${(totals.lines.find((line) => line.product === item.product)?.appliedDiscount?.amount || 0).toFixed(2)}`
+                        : '+ Discount'}
+                    </button>
+                    {promotionResult.lines[item.product] && (
+                      <p className="text-xs text-purple-600">
+                        Promo: -৳{promotionResult.lines[item.product].amount.toFixed(2)}
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center space-x-2 ml-2">
                     <button
@@ -919,45 +1203,88 @@ const POS = () => {
             <div className="space-y-2 mb-4">
               <div className="flex justify-between">
                 <span className="font-medium">Subtotal:</span>
-                <span className="font-medium">৳{calculateTotal().toLocaleString()}</span>
+                <span className="font-medium">৳{totals.subtotal.toLocaleString()}</span>
               </div>
+              {promotionResult.applied.map((outcome) => (
+                <div key={outcome.promotion._id} className="flex justify-between text-purple-600">
+                  <span>
+                    {outcome.promotion.name}
+                    <button
+                      onClick={() => setDeclinedPromotions([...declinedPromotions, outcome.promotion._id])}
+                      className="ml-2 text-xs text-gray-400 hover:text-red-600"
+                      title="Don't apply this promotion"
+                    >
+                      ×
+                    </button>
+                  </span>
+                  <span>-৳{outcome.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              {declinedPromotions.length > 0 && (
+                <button
+                  onClick={() => setDeclinedPromotions([])}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Restore {declinedPromotions.length} removed promotion(s)
+                </button>
+              )}
+              {promotionResult.suggestions.map((suggestion) => (
+                <p key={suggestion.promotion} className="text-xs text-purple-500">
+                  💡 {suggestion.name}: {suggestion.message}
+                </p>
+              ))}
+              {totals.lineDiscounts > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Item Discounts:</span>
+                  <span>-৳{totals.lineDiscounts.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-green-600">
+                <button
+                  onClick={() => setDiscountTarget('cart')}
+                  disabled={cart.length === 0}
+                  className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  {cartDiscount ? `Cart Discount (${formatDiscountLabel(cartDiscount)}):` : '+ Cart Discount'}
+                </button>
+                {totals.cartDiscount > 0 && <span>-৳{totals.cartDiscount.toFixed(2)}</span>}
+              </div>
+              {totals.tax > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>{taxInclusive ? 'VAT (included):' : 'VAT:'}</span>
+                  <span>{taxInclusive ? '' : '+'}৳{totals.tax.toFixed(2)}</span>
+                </div>
+              )}
               {selectedCustomer && loyaltyPointsToRedeem > 0 && (
                 <div className="flex justify-between text-green-600">
                   <span>Points Discount ({loyaltyPointsToRedeem} pts):</span>
-                  <span>-৳{((loyaltyPointsToRedeem / 100) * 10).toFixed(2)}</span>
+                  <span>-৳{totals.loyaltyDiscount.toFixed(2)}</span>
                 </div>
               )}
               <div className="flex justify-between text-lg font-bold pt-2 border-t">
                 <span>Total:</span>
                 <span className="text-2xl text-blue-600">
-                  ৳{Math.max(0, calculateTotal() - ((loyaltyPointsToRedeem / 100) * 10 || 0)).toLocaleString()}
+                  ৳{totals.total.toLocaleString()}
                 </span>
               </div>
               {selectedCustomer && loyaltySettings?.data?.settings && (
                 <div className="pt-2 border-t text-xs text-gray-500">
                   <p>
-                    Points to earn: {Math.floor((Math.max(0, calculateTotal() - ((loyaltyPointsToRedeem / 100) * 10 || 0)) / 500) * 100)} (100 points per 500 BDT)
+                    Points to earn: {Math.floor(totals.total / 500) * 100} (100 points per 500 BDT)
                   </p>
                 </div>
               )}
             </div>
 
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Payment Method
-              </label>
-              <select
-                value={paymentMethod}
-                onChange={(e: ChangeEvent<HTMLSelectElement>) =>
-                  setPaymentMethod(e.target.value as 'cash' | 'card' | 'mobile_payment')
-                }
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="cash">Cash</option>
-                <option value="card">Card</option>
-                <option value="mobile_payment">Mobile Payment</option>
-              </select>
-            </div>
+            <PaymentPanel
+              total={totals.total}
+              tenders={tenders}
+              onChange={setTenders}
+              method={paymentMethod}
+              onMethodChange={setPaymentMethod}
+              amount={tenderAmount}
+              onAmountChange={setTenderAmount}
+            />
 
             <button
               onClick={handleCheckout}
@@ -981,6 +1308,32 @@ const POS = () => {
         </div>
       </div>
 
+      {discountTarget && (discountTarget === 'cart' || discountLine) && (
+        <DiscountModal
+          title={discountTarget === 'cart' ? 'Cart Discount' : `Discount: ${discountLine?.name}`}
+          baseAmount={
+            discountTarget === 'cart'
+              ? totals.subtotal - totals.promotionDiscounts - totals.lineDiscounts
+              : totals.lines.find((line) => line.product === discountTarget)?.afterPromotions || 0
+          }
+          initial={discountTarget === 'cart' ? cartDiscount : discountLine?.discount}
+          onApply={applyDiscount}
+          onClose={() => setDiscountTarget(null)}
+        />
+      )}
+
+      {showParkedCarts && (
+        <ParkedCartsModal
+          parkedCarts={heldCarts}
+          canPark={cart.length > 0}
+          defaultName={defaultHoldName}
+          onPark={parkCurrentCart}
+          onRecall={recallCart}
+          onDelete={discardParkedCart}
+          onClose={() => setShowParkedCarts(false)}
+        />
+      )}
+
       {/* Receipt Modal */}
       {showReceipt && completedTransaction && (
         <Receipt
@@ -994,6 +1347,21 @@ const POS = () => {
           onPrint={() => {
             window.print();
           }}
+          onVoid={canVoidTransaction(completedTransaction, []) ? () => setShowVoid(true) : undefined}
+        />
+      )}
+
+      {showVoid && completedTransaction && (
+        <VoidTransactionModal
+          transaction={completedTransaction}
+          onVoided={(result) => {
+            if (selectedCustomer && result.loyaltyPoints?.newBalance !== undefined) {
+              setSelectedCustomer({ ...selectedCustomer, loyaltyPoints: result.loyaltyPoints.newBalance });
+            }
+            setCompletedTransaction({ ...completedTransaction, ...result.transaction, items: completedTransaction.items });
+            setShowVoid(false);
+          }}
+          onClose={() => setShowVoid(false)}
         />
       )}
     </div>
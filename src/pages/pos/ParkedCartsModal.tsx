@@ -0,0 +1,103 @@
+import { useState, FormEvent, ChangeEvent } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import type { ParkedCart } from './parkedCarts.js';
+
+interface ParkedCartsModalProps {
+  parkedCarts: ParkedCart[];
+  // Whether there is a cart on the till that can be put on hold
+  canPark: boolean;
+  defaultName: string;
+  onPark: (name: string) => void;
+  onRecall: (parked: ParkedCart) => void;
+  onDelete: (parked: ParkedCart) => void;
+  onClose: () => void;
+}
+
+const ParkedCartsModal = ({
+  parkedCarts,
+  canPark,
+  defaultName,
+  onPark,
+  onRecall,
+  onDelete,
+  onClose,
+}: ParkedCartsModalProps) => {
+  const [name, setName] = useState(defaultName);
+
+  const handlePark = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onPark(name.trim() || defaultName);
+  };
+
+  const cartTotal = (parked: ParkedCart) =>
+    parked.cart.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full m-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-mercellus text-gray-800">Held Carts</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl leading-none">
+            ×
+          </button>
+        </div>
+
+        {canPark && (
+          <form onSubmit={handlePark} className="p-4 border-b flex gap-2">
+            <input
+              type="text"
+              autoFocus
+              placeholder="Name this hold"
+              value={name}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+              Park Cart
+            </button>
+          </form>
+        )}
+
+        <div className="divide-y divide-gray-200">
+          {parkedCarts.map((parked) => (
+            <div key={parked.id} className="p-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{parked.name}</p>
+                <p className="text-xs text-gray-600">
+                  {parked.cart.length} items · ৳{cartTotal(parked).toFixed(2)}
+                  {parked.customer && ` · ${parked.customer.name}`}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Parked {formatDistanceToNow(parked.parkedAt, { addSuffix: true })}
+                  {parked.parkedBy && ` by ${parked.parkedBy}`}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => onRecall(parked)}
+                  className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+                >
+                  Recall
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Discard held cart "${parked.name}"?`)) onDelete(parked);
+                  }}
+                  className="px-3 py-1 text-sm text-red-600 hover:text-red-800"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {parkedCarts.length === 0 && (
+          <p className="text-gray-500 text-center py-8">No carts on hold</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ParkedCartsModal;
@@ -0,0 +1,182 @@
+import { useEffect, ChangeEvent } from 'react';
+import { CASH_DENOMINATIONS, TENDER_LABELS, createTender, roundMoney, summarizeTenders } from './tenders.js';
+import type { Tender, TenderMethod } from './tenders.js';
+
+interface PaymentPanelProps {
+  total: number;
+  tenders: Tender[];
+  onChange: (tenders: Tender[]) => void;
+  // Method used for the next tender, and for the whole total when no tenders are added
+  method: TenderMethod;
+  onMethodChange: (method: TenderMethod) => void;
+  // Amount field, held by the parent so checkout can take an entry that wasn't added
+  amount: string;
+  onAmountChange: (amount: string) => void;
+}
+
+const METHODS: TenderMethod[] = ['cash', 'card', 'mobile_payment'];
+
+const PaymentPanel = ({
+  total,
+  tenders,
+  onChange,
+  method,
+  onMethodChange,
+  amount,
+  onAmountChange: setAmount,
+}: PaymentPanelProps) => {
+  const { paid, balance, paymentDetails } = summarizeTenders(tenders, total);
+  const isCash = method === 'cash';
+  // Cash may exceed the balance - the difference is handed back as change
+  const pendingChange = isCash ? roundMoney(Math.max(0, Number(amount) - balance)) : 0;
+
+  // Default the amount field to whatever is still owed
+  useEffect(() => {
+    setAmount(balance > 0 ? balance.toFixed(2) : '');
+  }, [balance]);
+
+  const handleAdd = () => {
+    const value = Number(amount);
+    if (!(value > 0)) {
+      alert('Enter a payment amount');
+      return;
+    }
+    if (isCash) {
+      onChange([...tenders, createTender('cash', Math.min(value, balance), value)]);
+      return;
+    }
+    if (value > balance) {
+      alert(`Amount exceeds the remaining balance of ৳${balance.toFixed(2)}`);
+      return;
+    }
+    onChange([...tenders, createTender(method, value)]);
+  };
+
+  // Each note tapped adds to what the customer handed over;
+  // the first tap replaces the pre-filled balance
+  const handleAddNote = (note: number) => {
+    const current = amount === balance.toFixed(2) ? 0 : Number(amount) || 0;
+    setAmount(String(current + note));
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(tenders.filter((t) => t.id !== id));
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Payment
+      </label>
+
+      {tenders.length > 0 && (
+        <div className="space-y-1 mb-2">
+          {tenders.map((tender) => (
+            <div key={tender.id} className="flex items-center justify-between text-sm bg-gray-50 px-3 py-1.5 rounded">
+              <span>
+                {TENDER_LABELS[tender.method]}
+                {tender.tendered !== undefined && tender.tendered > tender.amount && (
+                  <span className="text-xs text-gray-500 ml-1">(received ৳{tender.tendered.toFixed(2)})</span>
+                )}
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">৳{tender.amount.toFixed(2)}</span>
+                <button
+                  onClick={() => handleRemove(tender.id)}
+                  className="text-red-600 hover:text-red-800 text-xs"
+                >
+                  ×
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {balance > 0 && (
+        <div className="flex gap-2">
+          <select
+            value={method}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => onMethodChange(e.target.value as TenderMethod)}
+            className="flex-1 px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            {METHODS.map((m) => (
+              <option key={m} value={m}>
+                {TENDER_LABELS[m]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+            className="w-28 px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={total <= 0}
+            className="px-3 py-2 bg-gray-200 rounded-lg hover:bg-gray-300 text-sm disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {balance > 0 && isCash && (
+        <div className="mt-2">
+          <div className="grid grid-cols-4 gap-1">
+            {CASH_DENOMINATIONS.map((note) => (
+              <button
+                key={note}
+                onClick={() => handleAddNote(note)}
+                className="px-2 py-1.5 bg-green-50 border border-green-200 text-green-800 rounded text-sm hover:bg-green-100"
+              >
+                ৳{note}
+              </button>
+            ))}
+            <button
+              onClick={() => setAmount(balance.toFixed(2))}
+              className="col-span-2 px-2 py-1.5 bg-gray-100 border border-gray-200 rounded text-sm hover:bg-gray-200"
+            >
+              Exact
+            </button>
+          </div>
+          {pendingChange > 0 && (
+            <p className="mt-2 text-sm font-semibold text-blue-700">
+              Change due: ৳{pendingChange.toFixed(2)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {tenders.length > 0 && (
+        <div className="mt-2 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Paid:</span>
+            <span>৳{paid.toFixed(2)}</span>
+          </div>
+          <div className={`flex justify-between font-semibold ${balance > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+            <span>Balance:</span>
+            <span>৳{balance.toFixed(2)}</span>
+          </div>
+          {paymentDetails.change > 0 && (
+            <div className="flex justify-between font-semibold text-blue-700">
+              <span>Change:</span>
+              <span>৳{paymentDetails.change.toFixed(2)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {tenders.length === 0 && total > 0 && (
+        <p className="mt-1 text-xs text-gray-500">
+          Add tenders to split the payment, or check out to take the amount entered by the selected method.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PaymentPanel;
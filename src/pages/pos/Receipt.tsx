@@ -1,5 +1,7 @@
 import { useEffect } from 'react';
 import type { Transaction } from '../../types/index.js';
+import { formatDiscountLabel } from './discounts.js';
+import { summarizeVatByRate } from './vat.js';
 
 interface ReceiptProps {
   transaction: Transaction;
@@ -7,9 +9,13 @@ interface ReceiptProps {
   storeCode?: string;
   onClose: () => void;
   onPrint: () => void;
+  // Shown as a Void button when the sale can still be voided
+  onVoid?: () => void;
+  // Marks a copy printed after the fact, e.g. for a customer dispute
+  reprint?: boolean;
 }
 
-const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: ReceiptProps) => {
+const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint, onVoid, reprint = false }: ReceiptProps) => {
   useEffect(() => {
     // Focus on print button when receipt opens
     // Auto-print can be enabled here if needed
@@ -32,6 +38,23 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
     return `৳${amount.toFixed(2)}`;
   };
 
+  // Item `discount` includes the promotion share; show promotions separately
+  const promotionTotal = transaction.items.reduce((sum, item) => sum + (item.promotionDiscount || 0), 0);
+  const lineDiscounts = transaction.items.reduce((sum, item) => sum + (item.discount || 0), 0) - promotionTotal;
+  const cartDiscount = transaction.cartDiscount?.amount || 0;
+  // Whatever is left of the transaction discount came from loyalty redemption
+  const otherDiscount = Math.max(
+    0,
+    Math.round((transaction.discount - promotionTotal - lineDiscounts - cartDiscount) * 100) / 100
+  );
+  const promotionName = (id: string) =>
+    transaction.appliedPromotions?.find((promotion) => promotion.promotion === id)?.name || 'Promotion';
+  const taxInclusive = !!transaction.taxInclusive;
+  const vatByRate = summarizeVatByRate(transaction.items, taxInclusive).filter((entry) => entry.rate > 0);
+  const isReturn = transaction.type === 'return' || transaction.type === 'refund';
+  const originalNumber =
+    typeof transaction.relatedTransaction === 'object' ? transaction.relatedTransaction.transactionNumber : undefined;
+
   return (
     <>
       {/* Modal Overlay - Hidden when printing */}
@@ -41,6 +64,14 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
           <div className="flex justify-between items-center p-4 border-b sticky top-0 bg-white z-10">
             <h2 className="text-xl font-mercellus text-gray-800">Receipt</h2>
             <div className="flex space-x-2">
+              {onVoid && (
+                <button
+                  onClick={onVoid}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  Void
+                </button>
+              )}
               <button
                 onClick={onPrint}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -67,10 +98,34 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
                 <p className="text-sm text-gray-600">Store Code: {storeCode}</p>
               )}
               <p className="text-xs text-gray-500 mt-2">
-                Thank you for your purchase!
+                {isReturn ? 'Refund receipt' : 'Thank you for your purchase!'}
               </p>
             </div>
 
+            {reprint && (
+              <div className="text-center text-sm font-bold border-2 border-dashed border-gray-800 py-1 mb-2">
+                REPRINT - {formatDate(new Date())}
+              </div>
+            )}
+
+            {isReturn && (
+              <div className="text-center text-sm font-bold border-2 border-gray-800 py-1 mb-2">
+                RETURN / REFUND
+              </div>
+            )}
+
+            {transaction.status === 'cancelled' && (
+              <div className="text-center text-sm font-bold border-2 border-red-600 text-red-600 py-1 mb-2">
+                VOIDED{transaction.voidReason ? ` - ${transaction.voidReason}` : ''}
+              </div>
+            )}
+
+            {transaction.status === 'pending' && (
+              <div className="text-center text-xs font-semibold border border-dashed border-gray-400 py-1 mb-2">
+                OFFLINE SALE - PROVISIONAL NUMBER
+              </div>
+            )}
+
             <div className="border-t border-b border-gray-300 py-2 my-4">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Transaction #:</span>
@@ -80,6 +135,18 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
                 <span className="text-gray-600">Date:</span>
                 <span>{formatDate(transaction.createdAt)}</span>
               </div>
+              {isReturn && originalNumber && (
+                <div className="flex justify-between text-sm mt-1">
+                  <span className="text-gray-600">Original Sale #:</span>
+                  <span>{originalNumber}</span>
+                </div>
+              )}
+              {isReturn && transaction.returnReason && (
+                <div className="flex justify-between text-sm mt-1">
+                  <span className="text-gray-600">Reason:</span>
+                  <span className="text-right">{transaction.returnReason}</span>
+                </div>
+              )}
               {transaction.cashier && (
                 <div className="flex justify-between text-sm mt-1">
                   <span className="text-gray-600">Cashier:</span>
@@ -127,6 +194,16 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
                             SKU: {item.product.sku}
                           </div>
                         )}
+                        {item.promotions?.map((id) => (
+                          <div key={id} className="text-xs text-red-600">
+                            {promotionName(id)}
+                          </div>
+                        ))}
+                        {item.discount - (item.promotionDiscount || 0) > 0 && (
+                          <div className="text-xs text-red-600">
+                            Discount{item.appliedDiscount ? ` ${formatDiscountLabel(item.appliedDiscount)}` : ''}: -{formatCurrency(item.discount - (item.promotionDiscount || 0))}
+                          </div>
+                        )}
                       </td>
                       <td className="text-center py-2">{item.quantity}</td>
                       <td className="text-right py-2">{formatCurrency(item.price)}</td>
@@ -145,28 +222,70 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
                 <span>Subtotal:</span>
                 <span>{formatCurrency(transaction.subtotal)}</span>
               </div>
-              {transaction.discount > 0 && (
+              {transaction.appliedPromotions?.map((promotion) => (
+                <div key={promotion.promotion} className="flex justify-between text-sm mb-1 text-red-600">
+                  <span>{promotion.name}:</span>
+                  <span>-{formatCurrency(promotion.amount)}</span>
+                </div>
+              ))}
+              {lineDiscounts > 0 && (
                 <div className="flex justify-between text-sm mb-1 text-red-600">
-                  <span>Discount:</span>
-                  <span>-{formatCurrency(transaction.discount)}</span>
+                  <span>Item Discounts:</span>
+                  <span>-{formatCurrency(lineDiscounts)}</span>
+                </div>
+              )}
+              {transaction.cartDiscount && cartDiscount > 0 && (
+                <div className="flex justify-between text-sm mb-1 text-red-600">
+                  <span>Cart Discount ({formatDiscountLabel(transaction.cartDiscount)}):</span>
+                  <span>-{formatCurrency(cartDiscount)}</span>
+                </div>
+              )}
+              {otherDiscount > 0 && (
+                <div className="flex justify-between text-sm mb-1 text-red-600">
+                  <span>{transaction.loyaltyPointsRedeemed ? 'Points Discount:' : 'Discount:'}</span>
+                  <span>-{formatCurrency(otherDiscount)}</span>
                 </div>
               )}
               {transaction.tax > 0 && (
                 <div className="flex justify-between text-sm mb-1">
-                  <span>Tax:</span>
+                  <span>{taxInclusive ? 'VAT (included):' : 'VAT:'}</span>
                   <span>{formatCurrency(transaction.tax)}</span>
                 </div>
               )}
               <div className="flex justify-between text-lg font-bold mt-2 pt-2 border-t border-gray-300">
-                <span>Total:</span>
+                <span>{isReturn ? 'Total Refunded:' : 'Total:'}</span>
                 <span>{formatCurrency(transaction.total)}</span>
               </div>
             </div>
 
+            {/* VAT Breakdown */}
+            {vatByRate.length > 0 && (
+              <div className="mb-4">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-gray-300">
+                      <th className="text-left py-1">VAT Rate</th>
+                      <th className="text-right py-1">Net</th>
+                      <th className="text-right py-1">VAT</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {vatByRate.map((entry) => (
+                      <tr key={entry.rate}>
+                        <td className="py-1">{entry.rate}%</td>
+                        <td className="text-right py-1">{formatCurrency(entry.net)}</td>
+                        <td className="text-right py-1">{formatCurrency(entry.vat)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {/* Payment Details */}
             <div className="mb-4">
               <div className="flex justify-between text-sm mb-1">
-                <span className="text-gray-600">Payment Method:</span>
+                <span className="text-gray-600">{isReturn ? 'Refunded To:' : 'Payment Method:'}</span>
                 <span className="font-semibold capitalize">
                   {transaction.paymentMethod.replace('_', ' ')}
                 </span>
@@ -175,7 +294,7 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
                 <>
                   {transaction.paymentDetails.cashAmount > 0 && (
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Cash:</span>
+                      <span className="text-gray-600">{isReturn ? 'Cash Refunded:' : 'Cash Tendered:'}</span>
                       <span>{formatCurrency(transaction.paymentDetails.cashAmount)}</span>
                     </div>
                   )}
@@ -191,7 +310,7 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
                       <span>{formatCurrency(transaction.paymentDetails.mobileAmount)}</span>
                     </div>
                   )}
-                  {transaction.paymentDetails.change > 0 && (
+                  {!isReturn && (transaction.paymentDetails.change > 0 || transaction.paymentDetails.cashAmount > 0) && (
                     <div className="flex justify-between text-sm font-semibold mt-1">
                       <span>Change:</span>
                       <span>{formatCurrency(transaction.paymentDetails.change)}</span>
@@ -201,6 +320,14 @@ const Receipt = ({ transaction, storeName, storeCode, onClose, onPrint }: Receip
               )}
             </div>
 
+            {isReturn && !!transaction.loyaltyPointsReversed && (
+              <div className="text-center mb-4">
+                <p className="text-xs font-semibold text-orange-600">
+                  Points Reversed: {transaction.loyaltyPointsReversed}
+                </p>
+              </div>
+            )}
+
             {/* Loyalty Points Information */}
             {(transaction.loyaltyPointsEarned !== undefined && transaction.loyaltyPointsEarned > 0) ||
             (transaction.loyaltyPointsRedeemed !== undefined && transaction.loyaltyPointsRedeemed > 0) ? (
@@ -0,0 +1,117 @@
+import type { AppliedDiscount } from '../../types/index.js';
+import { roundMoney } from './tenders.js';
+import { toAppliedDiscount } from './discounts.js';
+import type { Discount } from './discounts.js';
+import { allocateProportionally, calculateVat } from './vat.js';
+
+export interface CartLine {
+  product: string;
+  price: number;
+  quantity: number;
+  taxRate?: number;
+  discount?: Discount;
+  // Set from the promotion evaluation before totals are worked out
+  promotionDiscount?: number;
+  promotions?: string[];
+}
+
+export interface CartLineTotals {
+  product: string;
+  gross: number;
+  promotionDiscount: number;
+  promotions: string[];
+  // Gross less promotions - the base a manual line discount applies to
+  afterPromotions: number;
+  // Promotions plus the manual line discount
+  discount: number;
+  // After promotions and the line discount
+  net: number;
+  appliedDiscount?: AppliedDiscount;
+  taxRate: number;
+  // Net minus this line's share of the cart discount - the amount VAT is computed on
+  taxable: number;
+  tax: number;
+}
+
+export interface CartTotals {
+  lines: CartLineTotals[];
+  // Before any discount
+  subtotal: number;
+  promotionDiscounts: number;
+  // Manual line discounts only
+  lineDiscounts: number;
+  cartDiscount: number;
+  appliedCartDiscount?: AppliedDiscount;
+  tax: number;
+  loyaltyDiscount: number;
+  // Everything taken off the subtotal - what goes on the transaction's `discount`
+  discount: number;
+  total: number;
+}
+
+// Business rule: 100 points = 10 BDT discount (1 point = 0.1 BDT)
+export const pointsToTaka = (points: number): number => roundMoney((points / 100) * 10);
+
+// Promotions and then manual line discounts come off first, and the cart discount is
+// spread over the lines pro rata, so VAT is charged on what the customer actually pays.
+// Loyalty points settle part of the final amount and do not change the VAT.
+export const calculateCartTotals = (
+  cart: CartLine[],
+  cartDiscount?: Discount,
+  loyaltyPoints = 0,
+  taxInclusive = false
+): CartTotals => {
+  const discounted = cart.map((item) => {
+    const gross = roundMoney(item.price * item.quantity);
+    const promotionDiscount = Math.min(item.promotionDiscount || 0, gross);
+    const afterPromotions = roundMoney(gross - promotionDiscount);
+    const appliedDiscount = toAppliedDiscount(item.discount, afterPromotions);
+    const discount = roundMoney(promotionDiscount + (appliedDiscount?.amount || 0));
+    return {
+      product: item.product,
+      gross,
+      promotionDiscount,
+      promotions: item.promotions || [],
+      afterPromotions,
+      discount,
+      net: roundMoney(gross - discount),
+      appliedDiscount,
+      taxRate: item.taxRate || 0,
+    };
+  });
+
+  const subtotal = roundMoney(discounted.reduce((sum, line) => sum + line.gross, 0));
+  const promotionDiscounts = roundMoney(discounted.reduce((sum, line) => sum + line.promotionDiscount, 0));
+  const allLineDiscounts = roundMoney(discounted.reduce((sum, line) => sum + line.discount, 0));
+  const lineDiscounts = roundMoney(allLineDiscounts - promotionDiscounts);
+  const afterLineDiscounts = roundMoney(subtotal - allLineDiscounts);
+
+  const appliedCartDiscount = toAppliedDiscount(cartDiscount, afterLineDiscounts);
+  const cartDiscountAmount = appliedCartDiscount?.amount || 0;
+  const cartShares = allocateProportionally(cartDiscountAmount, discounted.map((line) => line.net));
+
+  const lines: CartLineTotals[] = discounted.map((line, index) => {
+    const taxable = roundMoney(line.net - cartShares[index]);
+    return { ...line, taxable, tax: calculateVat(taxable, line.taxRate, taxInclusive) };
+  });
+
+  const tax = roundMoney(lines.reduce((sum, line) => sum + line.tax, 0));
+  const afterCartDiscount = roundMoney(afterLineDiscounts - cartDiscountAmount);
+  const payable = taxInclusive ? afterCartDiscount : roundMoney(afterCartDiscount + tax);
+
+  const loyaltyDiscount = Math.min(pointsToTaka(loyaltyPoints), payable);
+  const discount = roundMoney(allLineDiscounts + cartDiscountAmount + loyaltyDiscount);
+
+  return {
+    lines,
+    subtotal,
+    promotionDiscounts,
+    lineDiscounts,
+    cartDiscount: cartDiscountAmount,
+    appliedCartDiscount,
+    tax,
+    loyaltyDiscount,
+    discount,
+    total: Math.max(0, roundMoney(payable - loyaltyDiscount)),
+  };
+};
@@ -0,0 +1,55 @@
+import type { AppliedDiscount, User } from '../../types/index.js';
+import { roundMoney } from './tenders.js';
+
+export interface Discount {
+  type: AppliedDiscount['type'];
+  value: number;
+  // Manager override for a discount above the cashier's limit, checked by the server
+  overrideToken?: string;
+}
+
+// Largest discount (as % of the discounted amount) each role may give without approval
+export const DISCOUNT_APPROVAL_THRESHOLDS: Record<User['role'], number> = {
+  staff: 5,
+  cashier: 10,
+  manager: 30,
+  admin: 100,
+};
+
+// Taka amount a discount takes off `baseAmount`, never more than the amount itself
+export const resolveDiscount = (discount: Discount | undefined, baseAmount: number): number => {
+  if (!discount || !(discount.value > 0) || baseAmount <= 0) return 0;
+  const amount = discount.type === 'percentage'
+    ? (baseAmount * Math.min(discount.value, 100)) / 100
+    : discount.value;
+  return roundMoney(Math.min(amount, baseAmount));
+};
+
+export const discountPercentage = (discount: Discount, baseAmount: number): number => {
+  if (baseAmount <= 0) return 0;
+  return (resolveDiscount(discount, baseAmount) / baseAmount) * 100;
+};
+
+export const canApproveDiscount = (role: User['role'] | undefined, percentage: number): boolean => {
+  return !!role && percentage <= DISCOUNT_APPROVAL_THRESHOLDS[role];
+};
+
+// Returns an error message, or null when the discount can be applied to `baseAmount`
+export const validateDiscount = (discount: Discount, baseAmount: number): string | null => {
+  if (!(discount.value > 0)) return 'Discount must be greater than 0';
+  if (discount.type === 'percentage' && discount.value > 100) return 'Percentage cannot exceed 100%';
+  if (discount.type === 'fixed' && discount.value > baseAmount) {
+    return `Discount cannot exceed ৳${baseAmount.toFixed(2)}`;
+  }
+  return null;
+};
+
+export const toAppliedDiscount = (discount: Discount | undefined, baseAmount: number): AppliedDiscount | undefined => {
+  const amount = resolveDiscount(discount, baseAmount);
+  if (!discount || amount === 0) return undefined;
+  return { type: discount.type, value: discount.value, amount, overrideToken: discount.overrideToken };
+};
+
+export const formatDiscountLabel = (discount: Pick<AppliedDiscount, 'type' | 'value'>): string => {
+  return discount.type === 'percentage' ? `${discount.value}%` : `৳${discount.value.toFixed(2)}`;
+};
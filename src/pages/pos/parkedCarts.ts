@@ -0,0 +1,39 @@
+import { offlineSync, generateIdempotencyKey } from '../../services/offlineSync.js';
+import type { Customer } from '../../types/index.js';
+import type { Discount } from './discounts.js';
+import type { CartItem } from './POS';
+
+// A cart put on hold so the cashier can serve someone else; kept in IndexedDB
+// so it survives a reload
+export interface ParkedCart {
+  id: string;
+  name: string;
+  store: string;
+  cart: CartItem[];
+  customer: Customer | null;
+  loyaltyPointsToRedeem: number;
+  cartDiscount?: Discount;
+  declinedPromotions: string[];
+  parkedAt: number;
+  parkedBy?: string;
+}
+
+const STORE_NAME = 'parkedCarts';
+
+export const parkedCarts = {
+  park: async (parked: Omit<ParkedCart, 'id' | 'parkedAt'>): Promise<ParkedCart> => {
+    const record: ParkedCart = { ...parked, id: generateIdempotencyKey(), parkedAt: Date.now() };
+    await offlineSync.storeOffline(STORE_NAME, record);
+    return record;
+  },
+
+  // Oldest first - the customer who has been waiting longest is at the top
+  list: async (storeId: string): Promise<ParkedCart[]> => {
+    const records: ParkedCart[] = (await offlineSync.getOffline(STORE_NAME)) || [];
+    return records.filter((record) => record.store === storeId).sort((a, b) => a.parkedAt - b.parkedAt);
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await offlineSync.deleteOffline(STORE_NAME, id);
+  },
+};
@@ -0,0 +1,233 @@
+import type { Promotion } from '../../types/index.js';
+import { roundMoney } from './tenders.js';
+import { allocateProportionally } from './vat.js';
+
+// Pure promotion evaluation: no API calls or React state, so the cart can run it on every change
+
+export interface PromotionCartLine {
+  product: string;
+  category?: string;
+  price: number;
+  quantity: number;
+}
+
+export interface PromotionOutcome {
+  promotion: Promotion;
+  amount: number;
+  // Product id -> taka taken off that line
+  lines: Record<string, number>;
+}
+
+export interface PromotionSuggestion {
+  promotion: string;
+  name: string;
+  message: string;
+}
+
+export interface LinePromotionDiscount {
+  amount: number;
+  promotions: string[];
+}
+
+export interface PromotionEvaluation {
+  applied: PromotionOutcome[];
+  suggestions: PromotionSuggestion[];
+  lines: Record<string, LinePromotionDiscount>;
+  total: number;
+}
+
+const refId = (ref: { _id: string } | string): string => (typeof ref === 'string' ? ref : ref._id);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const isPromotionActive = (promotion: Promotion, storeId: string | null, now: Date): boolean => {
+  if (!promotion.isActive) return false;
+  if (promotion.stores.length > 0 && !promotion.stores.some((store) => refId(store) === storeId)) return false;
+
+  const start = new Date(promotion.startDate);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(promotion.endDate);
+  end.setHours(23, 59, 59, 999);
+  if (now < start || now > end) return false;
+
+  if (promotion.type === 'time_window') {
+    if (promotion.daysOfWeek?.length && !promotion.daysOfWeek.includes(now.getDay())) return false;
+    const current = now.getHours() * 60 + now.getMinutes();
+    if (promotion.startTime && current < toMinutes(promotion.startTime)) return false;
+    if (promotion.endTime && current >= toMinutes(promotion.endTime)) return false;
+  }
+  return true;
+};
+
+// Lines a promotion targets: its product list, else its category, else the whole cart
+const qualifyingLines = (promotion: Promotion, cart: PromotionCartLine[]): PromotionCartLine[] => {
+  const productIds = (promotion.products || []).map(refId);
+  if (productIds.length > 0) return cart.filter((line) => productIds.includes(line.product));
+  if (promotion.category) return cart.filter((line) => line.category === promotion.category);
+  return cart;
+};
+
+const percentOffLines = (lines: PromotionCartLine[], percent: number): Record<string, number> => {
+  const result: Record<string, number> = {};
+  lines.forEach((line) => {
+    result[line.product] = roundMoney((line.price * line.quantity * Math.min(percent, 100)) / 100);
+  });
+  return result;
+};
+
+const allocateAcross = (lines: PromotionCartLine[], amount: number): Record<string, number> => {
+  const shares = allocateProportionally(amount, lines.map((line) => line.price * line.quantity));
+  const result: Record<string, number> = {};
+  lines.forEach((line, index) => {
+    result[line.product] = shares[index];
+  });
+  return result;
+};
+
+type Evaluator = (
+  promotion: Promotion,
+  cart: PromotionCartLine[]
+) => { lines?: Record<string, number>; suggestion?: string };
+
+const evaluators: Record<Promotion['type'], Evaluator> = {
+  // Buy X get Y: in every group of X + Y qualifying units the cheapest Y are discounted
+  // (free unless percentOff says otherwise)
+  buy_x_get_y: (promotion, cart) => {
+    const buy = promotion.buyQuantity || 0;
+    const get = promotion.getQuantity || 0;
+    if (buy <= 0 || get <= 0) return {};
+
+    const lines = qualifyingLines(promotion, cart);
+    const units = lines
+      .flatMap((line) => Array.from({ length: line.quantity }, () => line))
+      .sort((a, b) => a.price - b.price);
+    const freeUnits = Math.floor(units.length / (buy + get)) * get;
+    const remainder = units.length % (buy + get);
+    const suggestion = remainder >= buy
+      ? `Add ${buy + get - remainder} more qualifying item(s) to get ${get} discounted`
+      : undefined;
+    if (freeUnits === 0) return { suggestion };
+
+    const percent = promotion.percentOff ?? 100;
+    const result: Record<string, number> = {};
+    units.slice(0, freeUnits).forEach((line) => {
+      result[line.product] = roundMoney((result[line.product] || 0) + (line.price * percent) / 100);
+    });
+    return { lines: result, suggestion };
+  },
+
+  // Bundle: one of each listed product sells together for bundlePrice
+  bundle: (promotion, cart) => {
+    const productIds = (promotion.products || []).map(refId);
+    if (productIds.length === 0 || promotion.bundlePrice === undefined) return {};
+
+    const components = productIds.map((id) => cart.find((line) => line.product === id));
+    const present = components.filter((line): line is PromotionCartLine => !!line);
+    if (present.length < productIds.length) {
+      return present.length > 0
+        ? { suggestion: `Add ${productIds.length - present.length} more item(s) to complete the bundle` }
+        : {};
+    }
+
+    const bundles = Math.min(...present.map((line) => line.quantity));
+    const regularPrice = present.reduce((sum, line) => sum + line.price, 0);
+    const savings = roundMoney((regularPrice - promotion.bundlePrice) * bundles);
+    if (savings <= 0) return {};
+
+    const shares = allocateProportionally(savings, present.map((line) => line.price));
+    const result: Record<string, number> = {};
+    present.forEach((line, index) => {
+      result[line.product] = shares[index];
+    });
+    return { lines: result };
+  },
+
+  category_percent: (promotion, cart) => {
+    if (!promotion.category || !(promotion.percentOff && promotion.percentOff > 0)) return {};
+    const lines = cart.filter((line) => line.category === promotion.category);
+    return lines.length > 0 ? { lines: percentOffLines(lines, promotion.percentOff) } : {};
+  },
+
+  // The day/time window is checked in isPromotionActive
+  time_window: (promotion, cart) => {
+    if (!(promotion.percentOff && promotion.percentOff > 0)) return {};
+    const lines = qualifyingLines(promotion, cart);
+    return lines.length > 0 ? { lines: percentOffLines(lines, promotion.percentOff) } : {};
+  },
+
+  min_spend: (promotion, cart) => {
+    const minSpend = promotion.minSpend || 0;
+    const subtotal = roundMoney(cart.reduce((sum, line) => sum + line.price * line.quantity, 0));
+    if (subtotal === 0) return {};
+    if (subtotal < minSpend) {
+      return { suggestion: `Spend ৳${(minSpend - subtotal).toFixed(2)} more to qualify` };
+    }
+    const amount = promotion.percentOff
+      ? roundMoney((subtotal * Math.min(promotion.percentOff, 100)) / 100)
+      : Math.min(promotion.amountOff || 0, subtotal);
+    return amount > 0 ? { lines: allocateAcross(cart, amount) } : {};
+  },
+};
+
+// Adds outcomes line by line, never taking a line below zero
+const combine = (outcomes: PromotionOutcome[], cart: PromotionCartLine[]) => {
+  const lines: Record<string, LinePromotionDiscount> = {};
+  const applied: PromotionOutcome[] = [];
+
+  outcomes.forEach((outcome) => {
+    const capped: Record<string, number> = {};
+    Object.entries(outcome.lines).forEach(([product, amount]) => {
+      const cartLine = cart.find((line) => line.product === product);
+      const gross = cartLine ? roundMoney(cartLine.price * cartLine.quantity) : 0;
+      const already = lines[product]?.amount || 0;
+      const take = roundMoney(Math.min(amount, gross - already));
+      if (take <= 0) return;
+      capped[product] = take;
+      lines[product] = {
+        amount: roundMoney(already + take),
+        promotions: [...(lines[product]?.promotions || []), outcome.promotion._id],
+      };
+    });
+    const amount = roundMoney(Object.values(capped).reduce((sum, value) => sum + value, 0));
+    if (amount > 0) applied.push({ promotion: outcome.promotion, amount, lines: capped });
+  });
+
+  return { applied, lines, total: roundMoney(applied.reduce((sum, outcome) => sum + outcome.amount, 0)) };
+};
+
+// Picks the better of: every stackable promotion together, or the single best
+// non-stackable one. Promotions that nearly qualify come back as suggestions.
+export const evaluatePromotions = (
+  cart: PromotionCartLine[],
+  promotions: Promotion[],
+  storeId: string | null,
+  now: Date = new Date()
+): PromotionEvaluation => {
+  const outcomes: PromotionOutcome[] = [];
+  const suggestions: PromotionSuggestion[] = [];
+
+  promotions
+    .filter((promotion) => isPromotionActive(promotion, storeId, now))
+    .forEach((promotion) => {
+      const { lines, suggestion } = evaluators[promotion.type](promotion, cart);
+      const amount = roundMoney(Object.values(lines || {}).reduce((sum, value) => sum + value, 0));
+      if (lines && amount > 0) {
+        outcomes.push({ promotion, amount, lines });
+      }
+      if (suggestion) {
+        suggestions.push({ promotion: promotion._id, name: promotion.name, message: suggestion });
+      }
+    });
+
+  const stacked = combine(outcomes.filter((outcome) => outcome.promotion.stackable), cart);
+  const bestSingle = outcomes
+    .filter((outcome) => !outcome.promotion.stackable)
+    .sort((a, b) => b.amount - a.amount)[0];
+  const single = bestSingle ? combine([bestSingle], cart) : null;
+
+  const best = single && single.total > stacked.total ? single : stacked;
+  return { ...best, suggestions };
+};
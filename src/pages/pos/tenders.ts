@@ -0,0 +1,81 @@
+import type { Transaction } from '../../types/index.js';
+
+export type TenderMethod = 'cash' | 'card' | 'mobile_payment';
+
+export interface Tender {
+  id: string;
+  method: TenderMethod;
+  // Portion of the sale total settled by this tender
+  amount: number;
+  // Cash actually handed over; anything above `amount` is given back as change
+  tendered?: number;
+}
+
+export interface TenderSummary {
+  paid: number;
+  balance: number;
+  paymentMethod: Transaction['paymentMethod'];
+  paymentDetails: Transaction['paymentDetails'];
+}
+
+// BDT notes offered as quick buttons on the cash tender step
+export const CASH_DENOMINATIONS = [10, 20, 50, 100, 500, 1000];
+
+export const TENDER_LABELS: Record<TenderMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  mobile_payment: 'Mobile (bKash/Nagad)',
+};
+
+// Money is tracked in taka with paisa precision - round every intermediate sum
+export const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const sumByMethod = (tenders: Tender[], method: TenderMethod): number =>
+  roundMoney(tenders.filter((t) => t.method === method).reduce((sum, t) => sum + t.amount, 0));
+
+export const summarizeTenders = (tenders: Tender[], total: number): TenderSummary => {
+  const paid = roundMoney(tenders.reduce((sum, t) => sum + t.amount, 0));
+  const methods = Array.from(new Set(tenders.map((t) => t.method)));
+  const cashTenders = tenders.filter((t) => t.method === 'cash');
+
+  return {
+    paid,
+    balance: roundMoney(total - paid),
+    paymentMethod: methods.length === 1 ? methods[0] : 'mixed',
+    paymentDetails: {
+      cashAmount: roundMoney(cashTenders.reduce((sum, t) => sum + (t.tendered ?? t.amount), 0)),
+      cardAmount: sumByMethod(tenders, 'card'),
+      mobileAmount: sumByMethod(tenders, 'mobile_payment'),
+      change: roundMoney(cashTenders.reduce((sum, t) => sum + Math.max(0, (t.tendered ?? t.amount) - t.amount), 0)),
+    },
+  };
+};
+
+// Returns an error message, or null when the tenders settle the total exactly
+export const validateTenders = (tenders: Tender[], total: number): string | null => {
+  if (tenders.length === 0) return 'Add at least one payment';
+  if (tenders.some((t) => !(t.amount > 0))) return 'Payment amounts must be greater than 0';
+  if (tenders.some((t) => t.tendered !== undefined && t.tendered < t.amount)) {
+    return 'Cash received is less than the amount applied';
+  }
+
+  const { balance } = summarizeTenders(tenders, total);
+  if (balance > 0) return `Balance of ৳${balance.toFixed(2)} is still due`;
+  if (balance < 0) return `Payments exceed the total by ৳${Math.abs(balance).toFixed(2)}`;
+  return null;
+};
+
+export const createTender = (method: TenderMethod, amount: number, tendered?: number): Tender => ({
+  id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  method,
+  amount: roundMoney(amount),
+  tendered: method === 'cash' ? roundMoney(tendered ?? amount) : undefined,
+});
+
+// Tender for an amount typed into the payment field but not yet added.
+// Cash above the balance is kept as received so the change is recorded.
+export const createEntryTender = (method: TenderMethod, entered: string, balance: number): Tender | null => {
+  const value = Number(entered);
+  if (!(value > 0) || !(balance > 0)) return null;
+  return method === 'cash' ? createTender('cash', Math.min(value, balance), value) : createTender(method, value);
+};
@@ -0,0 +1,49 @@
+import type { TransactionItem } from '../../types/index.js';
+import { roundMoney } from './tenders.js';
+
+export interface VatRateSummary {
+  rate: number;
+  // Amount excluding VAT
+  net: number;
+  vat: number;
+}
+
+// VAT on a line amount. Inclusive prices already contain the VAT, so it is
+// extracted (amount × rate / (100 + rate)); exclusive prices get it added on top.
+export const calculateVat = (amount: number, rate: number, taxInclusive: boolean): number => {
+  if (!(rate > 0) || amount <= 0) return 0;
+  return roundMoney(taxInclusive ? (amount * rate) / (100 + rate) : (amount * rate) / 100);
+};
+
+// Splits `total` across `weights` proportionally; the last share absorbs the rounding
+// so the parts always add back up to the total exactly
+export const allocateProportionally = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0 || weightSum <= 0) return weights.map(() => 0);
+
+  let allocated = 0;
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) return roundMoney(total - allocated);
+    const share = roundMoney((total * weight) / weightSum);
+    allocated = roundMoney(allocated + share);
+    return share;
+  });
+};
+
+// VAT grouped by rate for the receipt. `taxableAmount` of each item is its
+// subtotal after line and cart discounts (VAT included when prices are inclusive).
+export const summarizeVatByRate = (
+  items: Pick<TransactionItem, 'tax' | 'taxRate' | 'taxableAmount' | 'subtotal'>[],
+  taxInclusive: boolean
+): VatRateSummary[] => {
+  const byRate = new Map<number, VatRateSummary>();
+  items.forEach((item) => {
+    const rate = item.taxRate || 0;
+    const taxable = item.taxableAmount ?? item.subtotal;
+    const entry = byRate.get(rate) || { rate, net: 0, vat: 0 };
+    entry.vat = roundMoney(entry.vat + item.tax);
+    entry.net = roundMoney(entry.net + (taxInclusive ? taxable - item.tax : taxable));
+    byRate.set(rate, entry);
+  });
+  return Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+};
@@ -2,6 +2,7 @@ import { useState, useEffect, FormEvent, ChangeEvent } from 'react';
 import { useQuery } from 'react-query';
 import { useAuthStore } from '../../store/authStore.js';
 import api from '../../services/api.js';
+import { purchasingService } from '../../services/purchasingService.js';
 import type { Product, Store } from '../../types/index.js';
 
 interface ProductFormData {
@@ -17,6 +18,7 @@ interface ProductFormData {
   unit: 'pcs' | 'kg' | 'gm' | 'L' | 'mL' | 'box' | 'pack';
   taxRate: number;
   image?: string;
+  supplier?: string;
   isActive: boolean;
 }
 
@@ -61,11 +63,13 @@ const ProductForm = ({ product, onSave, onCancel }: ProductFormProps) => {
     unit: 'pcs',
     taxRate: '0',
     image: '',
+    supplier: '',
     isActive: true
   });
 
   const { user } = useAuthStore();
   const isAdmin = user?.role === 'admin';
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
   const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
 
   const { data: storesData } = useQuery<StoresResponse>(
@@ -97,6 +101,11 @@ const ProductForm = ({ product, onSave, onCancel }: ProductFormProps) => {
     }
   );
 
+  const { data: suppliersData } = useQuery('suppliers', () => purchasingService.getSuppliers(), {
+    enabled: canManage,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
   useEffect(() => {
     if (product) {
       const storeValue = typeof product.store === 'object' ? product.store._id : product.store || '';
@@ -113,6 +122,7 @@ const ProductForm = ({ product, onSave, onCancel }: ProductFormProps) => {
         unit: product.unit || 'pcs',
         taxRate: String(product.taxRate || 0),
         image: product.image || '',
+        supplier: typeof product.supplier === 'object' ? product.supplier._id : product.supplier || '',
         isActive: product.isActive !== undefined ? product.isActive : true
       });
     }
@@ -133,7 +143,8 @@ const ProductForm = ({ product, onSave, onCancel }: ProductFormProps) => {
       ...formData,
       price: parseFloat(formData.price) || 0,
       cost: parseFloat(formData.cost) || 0,
-      taxRate: parseFloat(formData.taxRate) || 0
+      taxRate: parseFloat(formData.taxRate) || 0,
+      supplier: formData.supplier || undefined
     };
     onSave(submitData);
   };
@@ -251,6 +262,29 @@ const ProductForm = ({ product, onSave, onCancel }: ProductFormProps) => {
         </datalist>
       </div>
 
+      {canManage && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Preferred Supplier
+          </label>
+          <select
+            name="supplier"
+            value={formData.supplier || ''}
+            onChange={handleChange}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">None</option>
+            {suppliersData?.data?.suppliers
+              ?.filter((supplier) => supplier.isActive || supplier._id === formData.supplier)
+              .map((supplier) => (
+                <option key={supplier._id} value={supplier._id}>
+                  {supplier.name}
+                </option>
+              ))}
+          </select>
+        </div>
+      )}
+
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Description
@@ -1,8 +1,10 @@
 import { useState, ChangeEvent, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link } from 'react-router-dom';
 import api from '../../services/api.js';
 import { useAuthStore } from '../../store/authStore.js';
 import ProductForm from './ProductForm';
+import { stockCardPath } from '../inventory/movements.js';
 import type { Product } from '../../types/index.js';
 
 interface ProductsResponse {
@@ -198,6 +200,12 @@ const Products = () => {
               <tr key={product._id} className="hover:bg-gray-50">
                 <td className="px-6 py-4">
                   <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                  <Link
+                    to={stockCardPath(product._id, typeof product.store === 'object' ? product.store._id : product.store)}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Stock card
+                  </Link>
                   {product.description && (
                     <div className="text-xs text-gray-500 mt-1 truncate max-w-xs">
                       {product.description}
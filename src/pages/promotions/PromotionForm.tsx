@@ -0,0 +1,456 @@
+import { useState, useEffect, FormEvent, ChangeEvent } from 'react';
+import { useQuery } from 'react-query';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../store/authStore.js';
+import api from '../../services/api.js';
+import type { PromotionData } from '../../services/promotionService.js';
+import type { Product, Promotion, PromotionType, Store } from '../../types/index.js';
+
+interface PromotionFormProps {
+  promotion: Promotion | null;
+  onSave: (data: PromotionData) => void;
+  onCancel: () => void;
+}
+
+interface StoresResponse {
+  success: boolean;
+  data: {
+    stores: Store[];
+  };
+}
+
+interface ProductsResponse {
+  success: boolean;
+  data: {
+    products: Product[];
+  };
+}
+
+interface CategoriesResponse {
+  success: boolean;
+  data: {
+    categories: string[];
+  };
+}
+
+// Numeric fields are kept as strings while editing
+interface PromotionFormState {
+  name: string;
+  description: string;
+  type: PromotionType;
+  stores: string[];
+  startDate: string;
+  endDate: string;
+  isActive: boolean;
+  stackable: boolean;
+  products: string[];
+  category: string;
+  buyQuantity: string;
+  getQuantity: string;
+  bundlePrice: string;
+  percentOff: string;
+  amountOff: string;
+  minSpend: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+}
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: 'Buy X Get Y',
+  bundle: 'Bundle Price',
+  category_percent: 'Category % Off',
+  time_window: 'Happy Hour / Time Window',
+  min_spend: 'Minimum Spend',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const refId = (ref: { _id: string } | string): string => (typeof ref === 'string' ? ref : ref._id);
+
+const PromotionForm = ({ promotion, onSave, onCancel }: PromotionFormProps) => {
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const [formData, setFormData] = useState<PromotionFormState>({
+    name: '',
+    description: '',
+    type: 'category_percent',
+    stores: !isAdmin && storeId ? [storeId] : [],
+    startDate: today,
+    endDate: today,
+    isActive: true,
+    stackable: false,
+    products: [],
+    category: '',
+    buyQuantity: '1',
+    getQuantity: '1',
+    bundlePrice: '',
+    percentOff: '',
+    amountOff: '',
+    minSpend: '',
+    daysOfWeek: [],
+    startTime: '',
+    endTime: '',
+  });
+  const [productSearch, setProductSearch] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: storesData } = useQuery<StoresResponse>(
+    'stores',
+    async () => {
+      const response = await api.get<StoresResponse>('/stores');
+      return response.data;
+    },
+    { enabled: isAdmin }
+  );
+
+  const { data: productsData } = useQuery<ProductsResponse>(
+    ['products', storeId],
+    async () => {
+      const params: Record<string, string | boolean> = { isActive: true };
+      if (storeId && !isAdmin) params.store = storeId;
+      const response = await api.get<ProductsResponse>('/products', { params });
+      return response.data;
+    },
+    { staleTime: 3 * 60 * 1000 } // 3 minutes
+  );
+
+  const { data: categoriesData } = useQuery<CategoriesResponse>(
+    ['categories', storeId],
+    async () => {
+      const params: Record<string, string> = {};
+      if (storeId && !isAdmin) params.store = storeId;
+      const response = await api.get<CategoriesResponse>('/products/categories', { params });
+      return response.data;
+    }
+  );
+
+  useEffect(() => {
+    if (promotion) {
+      setFormData({
+        name: promotion.name,
+        description: promotion.description || '',
+        type: promotion.type,
+        stores: promotion.stores.map(refId),
+        startDate: format(new Date(promotion.startDate), 'yyyy-MM-dd'),
+        endDate: format(new Date(promotion.endDate), 'yyyy-MM-dd'),
+        isActive: promotion.isActive,
+        stackable: promotion.stackable,
+        products: (promotion.products || []).map(refId),
+        category: promotion.category || '',
+        buyQuantity: String(promotion.buyQuantity ?? 1),
+        getQuantity: String(promotion.getQuantity ?? 1),
+        bundlePrice: promotion.bundlePrice !== undefined ? String(promotion.bundlePrice) : '',
+        percentOff: promotion.percentOff !== undefined ? String(promotion.percentOff) : '',
+        amountOff: promotion.amountOff !== undefined ? String(promotion.amountOff) : '',
+        minSpend: promotion.minSpend !== undefined ? String(promotion.minSpend) : '',
+        daysOfWeek: promotion.daysOfWeek || [],
+        startTime: promotion.startTime || '',
+        endTime: promotion.endTime || '',
+      });
+    }
+  }, [promotion]);
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    const checked = (e.target as HTMLInputElement).checked;
+    setFormData({
+      ...formData,
+      [name]: type === 'checkbox' ? checked : value
+    } as PromotionFormState);
+  };
+
+  const toggleInList = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+  const optionalNumber = (value: string): number | undefined => (value === '' ? undefined : parseFloat(value));
+
+  const validate = (): string | null => {
+    const percentOff = optionalNumber(formData.percentOff);
+    if (formData.endDate < formData.startDate) return 'End date must be on or after the start date';
+    if (percentOff !== undefined && (percentOff <= 0 || percentOff > 100)) return 'Percent off must be between 0 and 100';
+    switch (formData.type) {
+      case 'buy_x_get_y':
+        if (!(parseInt(formData.buyQuantity) > 0) || !(parseInt(formData.getQuantity) > 0)) {
+          return 'Buy and get quantities must be at least 1';
+        }
+        return null;
+      case 'bundle':
+        if (formData.products.length < 2) return 'A bundle needs at least two products';
+        if (optionalNumber(formData.bundlePrice) === undefined) return 'Enter the bundle price';
+        return null;
+      case 'category_percent':
+        if (!formData.category) return 'Choose a category';
+        if (percentOff === undefined) return 'Enter the percent off';
+        return null;
+      case 'time_window':
+        if (percentOff === undefined) return 'Enter the percent off';
+        if (!formData.startTime || !formData.endTime) return 'Enter the start and end time';
+        return null;
+      case 'min_spend':
+        if (!(optionalNumber(formData.minSpend)! > 0)) return 'Enter the minimum spend';
+        if (percentOff === undefined && optionalNumber(formData.amountOff) === undefined) {
+          return 'Enter a percent or amount off';
+        }
+        return null;
+    }
+  };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const usesProducts = ['buy_x_get_y', 'bundle', 'time_window'].includes(formData.type);
+    const usesCategory = ['buy_x_get_y', 'category_percent', 'time_window'].includes(formData.type);
+    onSave({
+      name: formData.name,
+      description: formData.description || undefined,
+      type: formData.type,
+      stores: formData.stores,
+      startDate: formData.startDate,
+      endDate: formData.endDate,
+      isActive: formData.isActive,
+      stackable: formData.stackable,
+      products: usesProducts ? formData.products : undefined,
+      category: usesCategory && formData.category ? formData.category : undefined,
+      buyQuantity: formData.type === 'buy_x_get_y' ? parseInt(formData.buyQuantity) : undefined,
+      getQuantity: formData.type === 'buy_x_get_y' ? parseInt(formData.getQuantity) : undefined,
+      bundlePrice: formData.type === 'bundle' ? optionalNumber(formData.bundlePrice) : undefined,
+      percentOff: formData.type === 'bundle' ? undefined : optionalNumber(formData.percentOff),
+      amountOff: formData.type === 'min_spend' ? optionalNumber(formData.amountOff) : undefined,
+      minSpend: formData.type === 'min_spend' ? optionalNumber(formData.minSpend) : undefined,
+      daysOfWeek: formData.type === 'time_window' ? formData.daysOfWeek : undefined,
+      startTime: formData.type === 'time_window' ? formData.startTime : undefined,
+      endTime: formData.type === 'time_window' ? formData.endTime : undefined,
+    });
+  };
+
+  const products = productsData?.data?.products || [];
+  const matchingProducts = productSearch
+    ? products.filter((product) =>
+        product.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+        product.sku.toLowerCase().includes(productSearch.toLowerCase())
+      )
+    : products;
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500';
+  const labelClass = 'block text-sm font-medium text-gray-700 mb-2';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>
+            Name <span className="text-red-500">*</span>
+          </label>
+          <input type="text" name="name" value={formData.name} onChange={handleChange} required className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Type</label>
+          <select name="type" value={formData.type} onChange={handleChange} className={inputClass}>
+            {Object.entries(PROMOTION_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Description</label>
+        <textarea name="description" value={formData.description} onChange={handleChange} rows={2} className={inputClass} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Start Date</label>
+          <input type="date" name="startDate" value={formData.startDate} onChange={handleChange} required className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>End Date</label>
+          <input type="date" name="endDate" value={formData.endDate} onChange={handleChange} required className={inputClass} />
+        </div>
+      </div>
+
+      {isAdmin && (
+        <div>
+          <label className={labelClass}>Stores (none selected = all stores)</label>
+          <div className="flex flex-wrap gap-3">
+            {storesData?.data?.stores?.map((store) => (
+              <label key={store._id} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.stores.includes(store._id)}
+                  onChange={() => setFormData({ ...formData, stores: toggleInList(formData.stores, store._id) })}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                {store.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Type-specific rules */}
+      <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+        {formData.type === 'buy_x_get_y' && (
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Buy Quantity</label>
+              <input type="number" min="1" name="buyQuantity" value={formData.buyQuantity} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Get Quantity</label>
+              <input type="number" min="1" name="getQuantity" value={formData.getQuantity} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>% Off Get Items (blank = free)</label>
+              <input type="number" min="0" max="100" name="percentOff" value={formData.percentOff} onChange={handleChange} className={inputClass} />
+            </div>
+          </div>
+        )}
+
+        {formData.type === 'bundle' && (
+          <div>
+            <label className={labelClass}>Bundle Price (৳)</label>
+            <input type="number" min="0" step="0.01" name="bundlePrice" value={formData.bundlePrice} onChange={handleChange} className={inputClass} />
+          </div>
+        )}
+
+        {(formData.type === 'category_percent' || formData.type === 'time_window') && (
+          <div>
+            <label className={labelClass}>Percent Off</label>
+            <input type="number" min="0" max="100" step="0.01" name="percentOff" value={formData.percentOff} onChange={handleChange} className={inputClass} />
+          </div>
+        )}
+
+        {formData.type === 'time_window' && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>From</label>
+                <input type="time" name="startTime" value={formData.startTime} onChange={handleChange} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Until</label>
+                <input type="time" name="endTime" value={formData.endTime} onChange={handleChange} className={inputClass} />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Days (none selected = every day)</label>
+              <div className="flex gap-2">
+                {WEEKDAYS.map((day, index) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, daysOfWeek: toggleInList(formData.daysOfWeek, index) })}
+                    className={`px-3 py-1 rounded text-sm ${
+                      formData.daysOfWeek.includes(index) ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {day}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {formData.type === 'min_spend' && (
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Minimum Spend (৳)</label>
+              <input type="number" min="0" step="0.01" name="minSpend" value={formData.minSpend} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Percent Off</label>
+              <input type="number" min="0" max="100" step="0.01" name="percentOff" value={formData.percentOff} onChange={handleChange} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>or Amount Off (৳)</label>
+              <input type="number" min="0" step="0.01" name="amountOff" value={formData.amountOff} onChange={handleChange} className={inputClass} />
+            </div>
+          </div>
+        )}
+
+        {['buy_x_get_y', 'category_percent', 'time_window'].includes(formData.type) && (
+          <div>
+            <label className={labelClass}>
+              Category{formData.type !== 'category_percent' && ' (used when no products are selected)'}
+            </label>
+            <select name="category" value={formData.category} onChange={handleChange} className={inputClass}>
+              <option value="">{formData.type === 'category_percent' ? 'Select category' : 'Any category'}</option>
+              {categoriesData?.data?.categories?.map((category) => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {['buy_x_get_y', 'bundle', 'time_window'].includes(formData.type) && (
+          <div>
+            <label className={labelClass}>
+              Products ({formData.products.length} selected)
+            </label>
+            <input
+              type="text"
+              placeholder="Search products..."
+              value={productSearch}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setProductSearch(e.target.value)}
+              className={`${inputClass} mb-2`}
+            />
+            <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg bg-white divide-y">
+              {matchingProducts.map((product) => (
+                <label key={product._id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.products.includes(product._id)}
+                    onChange={() => setFormData({ ...formData, products: toggleInList(formData.products, product._id) })}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span className="flex-1">{product.name}</span>
+                  <span className="text-gray-500">{product.sku}</span>
+                  <span className="text-gray-700">৳{product.price.toLocaleString()}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-6">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" name="isActive" checked={formData.isActive} onChange={handleChange} className="h-4 w-4 text-blue-600 border-gray-300 rounded" />
+          Active
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" name="stackable" checked={formData.stackable} onChange={handleChange} className="h-4 w-4 text-blue-600 border-gray-300 rounded" />
+          Can combine with other promotions
+        </label>
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <button type="submit" className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          {promotion ? 'Update Promotion' : 'Create Promotion'}
+        </button>
+        <button type="button" onClick={onCancel} className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PromotionForm;
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { useAuthStore } from '../../store/authStore.js';
+import { promotionService } from '../../services/promotionService.js';
+import type { PromotionData } from '../../services/promotionService.js';
+import type { Promotion } from '../../types/index.js';
+import PromotionForm, { PROMOTION_TYPE_LABELS } from './PromotionForm';
+
+const Promotions = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const [showForm, setShowForm] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [error, setError] = useState('');
+
+  const isAdmin = user?.role === 'admin';
+  const canManage = isAdmin || user?.role === 'manager';
+  const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+
+  const { data, isLoading } = useQuery(
+    ['promotions', storeId],
+    () => promotionService.getPromotions(!isAdmin && storeId ? { store: storeId } : undefined),
+    {
+      enabled: canManage,
+      staleTime: 2 * 60 * 1000, // 2 minutes
+    }
+  );
+
+  const handleSuccess = () => {
+    queryClient.invalidateQueries('promotions');
+    queryClient.invalidateQueries('promotions-active');
+    setShowForm(false);
+    setEditingPromotion(null);
+    setError('');
+  };
+
+  const handleError = (err: any) => {
+    setError(err.response?.data?.message || 'Failed to save promotion');
+  };
+
+  const createMutation = useMutation(
+    (promotionData: PromotionData) => promotionService.createPromotion(promotionData),
+    { onSuccess: handleSuccess, onError: handleError }
+  );
+
+  const updateMutation = useMutation(
+    ({ id, promotionData }: { id: string; promotionData: PromotionData }) =>
+      promotionService.updatePromotion(id, promotionData),
+    { onSuccess: handleSuccess, onError: handleError }
+  );
+
+  const deleteMutation = useMutation(
+    (id: string) => promotionService.deletePromotion(id),
+    { onSuccess: handleSuccess, onError: handleError }
+  );
+
+  const handleSave = (promotionData: PromotionData) => {
+    if (editingPromotion) {
+      updateMutation.mutate({ id: editingPromotion._id, promotionData });
+    } else {
+      createMutation.mutate(promotionData);
+    }
+  };
+
+  const handleDelete = (promotion: Promotion) => {
+    if (window.confirm(`Delete promotion "${promotion.name}"?`)) {
+      deleteMutation.mutate(promotion._id);
+    }
+  };
+
+  const describeRule = (promotion: Promotion): string => {
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${
+          promotion.percentOff ? `${promotion.percentOff}% off` : 'free'
+        }`;
+      case 'bundle':
+        return `${promotion.products?.length || 0} items for ৳${promotion.bundlePrice?.toLocaleString()}`;
+      case 'category_percent':
+        return `${promotion.percentOff}% off ${promotion.category}`;
+      case 'time_window':
+        return `${promotion.percentOff}% off, ${promotion.startTime}-${promotion.endTime}`;
+      case 'min_spend':
+        return `Spend ৳${promotion.minSpend?.toLocaleString()}, get ${
+          promotion.percentOff ? `${promotion.percentOff}%` : `৳${promotion.amountOff?.toLocaleString()}`
+        } off`;
+    }
+  };
+
+  const getStatus = (promotion: Promotion): { label: string; className: string } => {
+    const now = new Date();
+    const end = new Date(promotion.endDate);
+    end.setHours(23, 59, 59, 999);
+    if (!promotion.isActive) return { label: 'Inactive', className: 'bg-gray-100 text-gray-800' };
+    if (end < now) return { label: 'Expired', className: 'bg-red-100 text-red-800' };
+    if (new Date(promotion.startDate) > now) return { label: 'Scheduled', className: 'bg-yellow-100 text-yellow-800' };
+    return { label: 'Running', className: 'bg-green-100 text-green-800' };
+  };
+
+  if (!canManage) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can manage promotions.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-mercellus">Promotions</h1>
+        <button
+          onClick={() => {
+            setEditingPromotion(null);
+            setShowForm(!showForm);
+          }}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          {showForm ? 'Cancel' : '+ Add Promotion'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="bg-white p-6 rounded-lg shadow mb-6">
+          <h2 className="text-xl font-mercellus mb-4">
+            {editingPromotion ? 'Edit Promotion' : 'Create New Promotion'}
+          </h2>
+          <PromotionForm
+            promotion={editingPromotion}
+            onSave={handleSave}
+            onCancel={() => {
+              setShowForm(false);
+              setEditingPromotion(null);
+            }}
+          />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dates</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stores</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {data?.data?.promotions?.map((promotion) => {
+              const status = getStatus(promotion);
+              return (
+                <tr key={promotion._id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{promotion.name}</div>
+                    {promotion.stackable && <div className="text-xs text-purple-600">Stackable</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {PROMOTION_TYPE_LABELS[promotion.type]}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{describeRule(promotion)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(promotion.startDate).toLocaleDateString()} - {new Date(promotion.endDate).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {promotion.stores.length === 0
+                      ? 'All stores'
+                      : promotion.stores.map((store) => (typeof store === 'object' ? store.name : store)).join(', ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                    <button
+                      onClick={() => {
+                        setEditingPromotion(promotion);
+                        setShowForm(true);
+                      }}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(promotion)} className="text-red-600 hover:text-red-900">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {data?.data?.promotions?.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-600">No promotions yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Promotions;
@@ -0,0 +1,418 @@
+import { useState, useRef, useEffect, ChangeEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../store/authStore.js';
+import { purchasingService } from '../../services/purchasingService.js';
+import { generateIdempotencyKey } from '../../services/offlineSync.js';
+import {
+  isOpenPurchaseOrder,
+  isOverdue,
+  orderTotal,
+  outstandingQuantity,
+  PO_STATUS_BADGES,
+  PO_STATUS_LABELS,
+  productIdOf,
+  productNameOf,
+  supplierNameOf,
+} from './purchaseOrders.js';
+import type { PurchaseOrderStatus } from '../../types/index.js';
+
+interface ReceiveLineState {
+  quantity: number;
+  unitCost: number;
+}
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date?: string) => (date ? format(new Date(date), 'dd MMM yyyy') : '-');
+
+const nameOf = (value: unknown): string | undefined =>
+  value && typeof value === 'object' && 'name' in value ? (value as { name?: string }).name : undefined;
+
+const PurchaseOrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const [receiving, setReceiving] = useState<Record<string, ReceiveLineState>>({});
+  const [reference, setReference] = useState('');
+  const [receiptNotes, setReceiptNotes] = useState('');
+  const [error, setError] = useState('');
+  const idempotencyKeyRef = useRef(generateIdempotencyKey());
+
+  // A changed receipt is a new attempt - only an identical resubmit may reuse the key
+  useEffect(() => {
+    idempotencyKeyRef.current = generateIdempotencyKey();
+  }, [receiving, reference, receiptNotes]);
+
+  const { data, isLoading } = useQuery(['purchase-order', id], () => purchasingService.getPurchaseOrder(id!), {
+    enabled: !!id && canManage,
+  });
+  const order = data?.data?.purchaseOrder;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries(['purchase-order', id]);
+    queryClient.invalidateQueries('purchase-orders');
+  };
+
+  const statusMutation = useMutation(
+    (status: Extract<PurchaseOrderStatus, 'ordered' | 'closed' | 'cancelled'>) =>
+      purchasingService.updatePurchaseOrderStatus(id!, status),
+    {
+      onSuccess: invalidate,
+      onError: (err: any) => setError(err.response?.data?.message || 'Failed to update purchase order'),
+    }
+  );
+
+  const receiveMutation = useMutation(
+    () => {
+      const lines = Object.entries(receiving)
+        .filter(([, line]) => line.quantity > 0)
+        .map(([product, line]) => ({ product, quantity: line.quantity, unitCost: line.unitCost }));
+      return purchasingService.receivePurchaseOrder(
+        id!,
+        { reference: reference.trim(), lines, notes: receiptNotes.trim() || undefined },
+        idempotencyKeyRef.current
+      );
+    },
+    {
+      onSuccess: () => {
+        setReceiving({});
+        setReference('');
+        setReceiptNotes('');
+        setError('');
+        invalidate();
+        queryClient.invalidateQueries('inventory');
+        queryClient.invalidateQueries('products');
+      },
+      onError: (err: any) => setError(err.response?.data?.message || 'Failed to receive stock'),
+    }
+  );
+
+  if (!canManage) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can manage purchase orders.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!order) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600 mb-4">Purchase order not found</p>
+        <Link to="/purchase-orders" className="text-blue-600 hover:text-blue-800">
+          ← Back to Purchase Orders
+        </Link>
+      </div>
+    );
+  }
+
+  const canReceive = isOpenPurchaseOrder(order);
+  const receiveLine = (productId: string, fallbackCost: number): ReceiveLineState =>
+    receiving[productId] || { quantity: 0, unitCost: fallbackCost };
+
+  const updateReceiveLine = (productId: string, fallbackCost: number, changes: Partial<ReceiveLineState>) => {
+    setReceiving({ ...receiving, [productId]: { ...receiveLine(productId, fallbackCost), ...changes } });
+  };
+
+  const receiveAllOutstanding = () => {
+    const all: Record<string, ReceiveLineState> = {};
+    order.lines.forEach((line) => {
+      const productId = productIdOf(line.product);
+      all[productId] = { quantity: outstandingQuantity(line), unitCost: receiveLine(productId, line.unitCost).unitCost };
+    });
+    setReceiving(all);
+  };
+
+  const handleReceive = () => {
+    setError('');
+    const entries = Object.values(receiving).filter((line) => line.quantity > 0);
+    if (entries.length === 0) {
+      setError('Enter the quantity received for at least one line');
+      return;
+    }
+    if (!reference.trim()) {
+      setError('Enter the supplier invoice or delivery challan number');
+      return;
+    }
+    const over = order.lines.find((line) => receiveLine(productIdOf(line.product), line.unitCost).quantity > outstandingQuantity(line));
+    if (over) {
+      setError(`More ${productNameOf(over.product)} than is outstanding on this order`);
+      return;
+    }
+    receiveMutation.mutate();
+  };
+
+  const receivingTotal = orderTotal(Object.values(receiving));
+
+  return (
+    <div>
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-mercellus">{order.poNumber}</h1>
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${PO_STATUS_BADGES[order.status]}`}>
+              {PO_STATUS_LABELS[order.status]}
+            </span>
+            {isOverdue(order) && (
+              <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                Overdue
+              </span>
+            )}
+          </div>
+          <Link to="/purchase-orders" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to Purchase Orders
+          </Link>
+        </div>
+        <div className="flex gap-2">
+          {order.status === 'draft' && (
+            <>
+              <Link
+                to={`/purchase-orders/${order._id}/edit`}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Edit
+              </Link>
+              <button
+                onClick={() => statusMutation.mutate('ordered')}
+                disabled={statusMutation.isLoading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Place Order
+              </button>
+            </>
+          )}
+          {order.status === 'partially_received' && (
+            <button
+              onClick={() => {
+                if (window.confirm('Close this order? The outstanding quantities will no longer be expected.')) {
+                  statusMutation.mutate('closed');
+                }
+              }}
+              disabled={statusMutation.isLoading}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+            >
+              Close Short
+            </button>
+          )}
+          {(order.status === 'draft' || order.status === 'ordered') && (
+            <button
+              onClick={() => {
+                if (window.confirm(`Cancel ${order.poNumber}?`)) statusMutation.mutate('cancelled');
+              }}
+              disabled={statusMutation.isLoading}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              Cancel Order
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-3">Supplier</h2>
+          <p className="text-gray-900">{supplierNameOf(order.supplier)}</p>
+          {typeof order.supplier === 'object' && (
+            <>
+              {order.supplier.phone && <p className="text-sm text-gray-600">{order.supplier.phone}</p>}
+              {order.supplier.paymentTerms && <p className="text-sm text-gray-600">Terms: {order.supplier.paymentTerms}</p>}
+            </>
+          )}
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-3">Delivery</h2>
+          <p className="text-sm text-gray-600">Store: {nameOf(order.store) || '-'}</p>
+          <p className="text-sm text-gray-600">Expected: {formatDate(order.expectedDate)}</p>
+          <p className="text-sm text-gray-600">Ordered: {formatDate(order.orderedAt)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-3">Order</h2>
+          <p className="text-sm text-gray-600">Created by: {nameOf(order.createdBy) || '-'}</p>
+          <p className="text-sm text-gray-600">Created: {formatDate(order.createdAt)}</p>
+          <p className="text-xl font-bold mt-2">{formatCurrency(orderTotal(order.lines))}</p>
+        </div>
+      </div>
+
+      {/* Lines and receiving */}
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-mercellus">Lines</h2>
+          {canReceive && (
+            <button onClick={receiveAllOutstanding} className="text-sm text-blue-600 hover:text-blue-800">
+              Receive all outstanding
+            </button>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ordered</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost</th>
+                {canReceive && (
+                  <>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Receive Now
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Invoiced Cost
+                    </th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {order.lines.map((line) => {
+                const productId = productIdOf(line.product);
+                const outstanding = outstandingQuantity(line);
+                const entry = receiveLine(productId, line.unitCost);
+                const costChanged = entry.quantity > 0 && entry.unitCost !== line.unitCost;
+                return (
+                  <tr key={productId}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{productNameOf(line.product)}</div>
+                      {typeof line.product === 'object' && (
+                        <div className="text-sm text-gray-500">{line.product.sku}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.quantity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.receivedQuantity || 0}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${outstanding > 0 ? 'font-medium text-gray-900' : 'text-gray-400'}`}>
+                      {outstanding}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(line.unitCost)}</td>
+                    {canReceive && (
+                      <>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <input
+                            type="number"
+                            value={entry.quantity || ''}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                              updateReceiveLine(productId, line.unitCost, { quantity: Number(e.target.value) })
+                            }
+                            min="0"
+                            max={outstanding}
+                            disabled={outstanding === 0}
+                            className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                          />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <input
+                            type="number"
+                            value={entry.unitCost}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                              updateReceiveLine(productId, line.unitCost, { unitCost: Number(e.target.value) })
+                            }
+                            min="0"
+                            step="0.01"
+                            disabled={outstanding === 0}
+                            className={`w-28 px-3 py-1 border rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 ${
+                              costChanged ? 'border-yellow-500 bg-yellow-50' : 'border-gray-300'
+                            }`}
+                          />
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {canReceive && (
+          <div className="mt-6 border-t pt-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Invoice / Challan No. <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setReference(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <input
+                type="text"
+                value={receiptNotes}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setReceiptNotes(e.target.value)}
+                placeholder="e.g. 2 cartons damaged"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex items-center justify-end gap-4">
+              <span className="text-sm text-gray-700">{formatCurrency(receivingTotal)}</span>
+              <button
+                onClick={handleReceive}
+                disabled={receiveMutation.isLoading}
+                className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                {receiveMutation.isLoading ? 'Receiving...' : 'Receive Stock'}
+              </button>
+            </div>
+            <p className="md:col-span-3 text-xs text-gray-500">
+              Received quantities are added to the store's inventory and each product's cost is updated to the invoiced cost.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Receipts */}
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h2 className="text-2xl font-mercellus mb-4">Receipts</h2>
+        {order.receipts.length === 0 ? (
+          <p className="text-gray-600">Nothing received yet</p>
+        ) : (
+          <div className="space-y-4">
+            {order.receipts.map((receipt, index) => (
+              <div key={receipt._id || index} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between mb-2">
+                  <div>
+                    <p className="font-medium text-gray-900">{receipt.reference}</p>
+                    {receipt.notes && <p className="text-sm text-gray-600">{receipt.notes}</p>}
+                  </div>
+                  <div className="text-right text-sm text-gray-600">
+                    <p>{format(new Date(receipt.receivedAt), 'dd MMM yyyy HH:mm')}</p>
+                    {nameOf(receipt.receivedBy) && <p>by {nameOf(receipt.receivedBy)}</p>}
+                  </div>
+                </div>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {receipt.lines.map((line) => (
+                    <li key={productIdOf(line.product)} className="flex justify-between">
+                      <span>
+                        {productNameOf(line.product)} × {line.quantity}
+                      </span>
+                      <span>{formatCurrency(line.quantity * line.unitCost)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrderDetail;
@@ -0,0 +1,362 @@
+import { useState, useEffect, FormEvent, ChangeEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { addDays, format } from 'date-fns';
+import api from '../../services/api.js';
+import { useAuthStore } from '../../store/authStore.js';
+import { purchasingService } from '../../services/purchasingService.js';
+import { orderTotal, productIdOf } from './purchaseOrders.js';
+import type { PurchaseOrderData } from '../../services/purchasingService.js';
+import type { Product, Store } from '../../types/index.js';
+
+interface ProductsResponse {
+  success: boolean;
+  data: {
+    products: Product[];
+  };
+}
+
+interface StoresResponse {
+  success: boolean;
+  data: {
+    stores: Store[];
+  };
+}
+
+interface LineState {
+  product: string;
+  quantity: number;
+  unitCost: number;
+}
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500';
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Create a purchase order, or edit one that is still a draft
+const PurchaseOrderForm = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const userStoreId = typeof user?.store === 'object' ? user.store._id : user?.store || '';
+
+  const [supplier, setSupplier] = useState(searchParams.get('supplier') || '');
+  const [store, setStore] = useState(userStoreId);
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineState[]>([{ product: '', quantity: 0, unitCost: 0 }]);
+  const [error, setError] = useState('');
+
+  const { data: existingData, isLoading: loadingExisting } = useQuery(
+    ['purchase-order', id],
+    () => purchasingService.getPurchaseOrder(id!),
+    { enabled: !!id }
+  );
+  const existing = existingData?.data?.purchaseOrder;
+
+  useEffect(() => {
+    if (!existing) return;
+    setSupplier(typeof existing.supplier === 'object' ? existing.supplier._id : existing.supplier);
+    setStore(typeof existing.store === 'object' ? existing.store._id : existing.store);
+    setExpectedDate(existing.expectedDate ? format(new Date(existing.expectedDate), 'yyyy-MM-dd') : '');
+    setNotes(existing.notes || '');
+    setLines(existing.lines.map((line) => ({
+      product: productIdOf(line.product),
+      quantity: line.quantity,
+      unitCost: line.unitCost,
+    })));
+  }, [existing]);
+
+  const { data: suppliersData } = useQuery('suppliers', () => purchasingService.getSuppliers(), {
+    enabled: canManage,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const { data: storesData } = useQuery<StoresResponse>(
+    'stores',
+    async () => {
+      const response = await api.get<StoresResponse>('/stores');
+      return response.data;
+    },
+    { enabled: isAdmin, staleTime: 10 * 60 * 1000 } // 10 minutes
+  );
+
+  const { data: productsData } = useQuery<ProductsResponse>(
+    ['products', store],
+    async () => {
+      const response = await api.get<ProductsResponse>('/products', { params: { isActive: true, store } });
+      return response.data;
+    },
+    { enabled: !!store, staleTime: 3 * 60 * 1000 } // 3 minutes
+  );
+  const products = productsData?.data?.products || [];
+
+  // Default the delivery date from the supplier's usual lead time
+  useEffect(() => {
+    if (id || expectedDate) return;
+    const leadTime = suppliersData?.data?.suppliers?.find((s) => s._id === supplier)?.leadTimeDays;
+    if (leadTime !== undefined) {
+      setExpectedDate(format(addDays(new Date(), leadTime), 'yyyy-MM-dd'));
+    }
+  }, [supplier, suppliersData, id, expectedDate]);
+
+  const saveMutation = useMutation(
+    (orderData: PurchaseOrderData) =>
+      id ? purchasingService.updatePurchaseOrder(id, orderData) : purchasingService.createPurchaseOrder(orderData),
+    {
+      onSuccess: (data) => {
+        queryClient.invalidateQueries('purchase-orders');
+        queryClient.invalidateQueries(['purchase-order', data.data.purchaseOrder._id]);
+        navigate(`/purchase-orders/${data.data.purchaseOrder._id}`);
+      },
+      onError: (err: any) => {
+        setError(err.response?.data?.message || 'Failed to save purchase order');
+      },
+    }
+  );
+
+  const handleLineChange = (index: number, changes: Partial<LineState>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleProductChange = (index: number, productId: string) => {
+    // Start from the product's current cost; the supplier's quote can be typed over it
+    const product = products.find((p) => p._id === productId);
+    handleLineChange(index, { product: productId, unitCost: product?.cost || 0 });
+  };
+
+  const submit = (status: PurchaseOrderData['status']) => {
+    setError('');
+    const validLines = lines.filter((line) => line.product && line.quantity > 0);
+    if (!supplier) {
+      setError('Choose a supplier');
+      return;
+    }
+    if (!store) {
+      setError('Choose the store receiving the goods');
+      return;
+    }
+    if (validLines.length === 0) {
+      setError('Add at least one product with a quantity');
+      return;
+    }
+    const productIds = validLines.map((line) => line.product);
+    if (new Set(productIds).size !== productIds.length) {
+      setError('Each product can only appear once - combine the quantities');
+      return;
+    }
+    saveMutation.mutate({
+      supplier,
+      store,
+      lines: validLines,
+      expectedDate: expectedDate || undefined,
+      notes: notes.trim() || undefined,
+      status,
+    });
+  };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    submit('ordered');
+  };
+
+  if (!canManage) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can manage purchase orders.</p>
+      </div>
+    );
+  }
+
+  if (id && loadingExisting) {
+    return <div>Loading...</div>;
+  }
+
+  if (existing && existing.status !== 'draft') {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600 mb-4">Only draft purchase orders can be edited.</p>
+        <Link to={`/purchase-orders/${existing._id}`} className="text-blue-600 hover:text-blue-800">
+          ← Back to {existing.poNumber}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-mercellus">{existing ? `Edit ${existing.poNumber}` : 'New Purchase Order'}</h1>
+        <Link to="/purchase-orders" className="text-blue-600 hover:text-blue-800">
+          ← Back to Purchase Orders
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Supplier <span className="text-red-500">*</span>
+            </label>
+            <select
+              value={supplier}
+              onChange={(e: ChangeEvent<HTMLSelectElement>) => setSupplier(e.target.value)}
+              required
+              className={inputClass}
+            >
+              <option value="">Select Supplier</option>
+              {suppliersData?.data?.suppliers
+                ?.filter((s) => s.isActive || s._id === supplier)
+                .map((s) => (
+                  <option key={s._id} value={s._id}>
+                    {s.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          {isAdmin && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Deliver To <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={store}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => {
+                  setStore(e.target.value);
+                  setLines([{ product: '', quantity: 0, unitCost: 0 }]);
+                }}
+                required
+                className={inputClass}
+              >
+                <option value="">Select Store</option>
+                {storesData?.data?.stores?.map((s) => (
+                  <option key={s._id} value={s._id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Expected Delivery</label>
+            <input
+              type="date"
+              value={expectedDate}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setExpectedDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-12 gap-4 items-end border-b pb-4">
+              <div className="col-span-5">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Product</label>
+                <select
+                  value={line.product}
+                  onChange={(e: ChangeEvent<HTMLSelectElement>) => handleProductChange(index, e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Select Product</option>
+                  {products.map((product) => (
+                    <option key={product._id} value={product._id}>
+                      {product.name} ({product.sku})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
+                <input
+                  type="number"
+                  value={line.quantity || ''}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => handleLineChange(index, { quantity: Number(e.target.value) })}
+                  min="1"
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Unit Cost (৳)</label>
+                <input
+                  type="number"
+                  value={line.unitCost || ''}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => handleLineChange(index, { unitCost: Number(e.target.value) })}
+                  min="0"
+                  step="0.01"
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2 text-sm text-gray-700 pb-2">
+                {formatCurrency(line.quantity * line.unitCost)}
+              </div>
+              <div className="col-span-1">
+                {lines.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                    className="px-3 py-2 text-red-600 hover:text-red-800"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center">
+          <button
+            type="button"
+            onClick={() => setLines([...lines, { product: '', quantity: 0, unitCost: 0 }])}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+          >
+            + Add Line
+          </button>
+          <p className="text-lg font-semibold">Total: {formatCurrency(orderTotal(lines))}</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+          <textarea
+            value={notes}
+            onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex justify-end gap-4">
+          <button
+            type="button"
+            onClick={() => submit('draft')}
+            disabled={saveMutation.isLoading}
+            className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 disabled:opacity-50"
+          >
+            Save Draft
+          </button>
+          <button
+            type="submit"
+            disabled={saveMutation.isLoading}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saveMutation.isLoading ? 'Saving...' : 'Place Order'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PurchaseOrderForm;
@@ -0,0 +1,193 @@
+import { ChangeEvent } from 'react';
+import { useQuery } from 'react-query';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../store/authStore.js';
+import { purchasingService } from '../../services/purchasingService.js';
+import {
+  isOverdue,
+  OPEN_PO_STATUSES,
+  orderTotal,
+  PO_STATUS_BADGES,
+  PO_STATUS_LABELS,
+  supplierNameOf,
+} from './purchaseOrders.js';
+import type { PurchaseOrderStatus } from '../../types/index.js';
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// 'open' is the default view: everything still waiting on the supplier
+const STATUS_FILTERS: Array<{ value: string; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'all', label: 'All' },
+  ...(Object.keys(PO_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => ({
+    value: status,
+    label: PO_STATUS_LABELS[status],
+  })),
+];
+
+const PurchaseOrders = () => {
+  const { user } = useAuthStore();
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const isAdmin = user?.role === 'admin';
+  const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const statusFilter = searchParams.get('status') || 'open';
+  const supplierFilter = searchParams.get('supplier') || '';
+
+  const { data: suppliersData } = useQuery('suppliers', () => purchasingService.getSuppliers(), {
+    enabled: canManage,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const { data, isLoading } = useQuery(
+    ['purchase-orders', storeId, statusFilter, supplierFilter],
+    () => purchasingService.getPurchaseOrders({
+      store: isAdmin ? undefined : storeId || undefined,
+      supplier: supplierFilter || undefined,
+      status: statusFilter === 'open' ? OPEN_PO_STATUSES.join(',') : statusFilter === 'all' ? undefined : statusFilter,
+    }),
+    { enabled: canManage, keepPreviousData: true }
+  );
+
+  const updateFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    setSearchParams(next);
+  };
+
+  if (!canManage) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can manage purchase orders.</p>
+      </div>
+    );
+  }
+
+  const orders = data?.data?.purchaseOrders || [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-mercellus">Purchase Orders</h1>
+        <div className="flex gap-2">
+          <Link
+            to="/suppliers"
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            Suppliers
+          </Link>
+          <Link
+            to="/reorder"
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            Reorder Suggestions
+          </Link>
+          <Link to="/purchase-orders/new" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+            + New Purchase Order
+          </Link>
+        </div>
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow mb-6 flex flex-wrap gap-4">
+        <select
+          value={statusFilter}
+          onChange={(e: ChangeEvent<HTMLSelectElement>) => updateFilter('status', e.target.value === 'open' ? '' : e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+        >
+          {STATUS_FILTERS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={supplierFilter}
+          onChange={(e: ChangeEvent<HTMLSelectElement>) => updateFilter('supplier', e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+        >
+          <option value="">All suppliers</option>
+          {suppliersData?.data?.suppliers?.map((supplier) => (
+            <option key={supplier._id} value={supplier._id}>
+              {supplier.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PO #</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+              {isAdmin && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+              )}
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {orders.map((order) => {
+              const ordered = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+              const received = order.lines.reduce((sum, line) => sum + (line.receivedQuantity || 0), 0);
+              const overdue = isOverdue(order);
+              return (
+                <tr key={order._id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <Link to={`/purchase-orders/${order._id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                      {order.poNumber}
+                    </Link>
+                    {order.createdAt && (
+                      <div className="text-gray-500">{format(new Date(order.createdAt), 'dd MMM yyyy')}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{supplierNameOf(order.supplier)}</td>
+                  {isAdmin && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {typeof order.store === 'object' ? order.store.name : '-'}
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${PO_STATUS_BADGES[order.status]}`}>
+                      {PO_STATUS_LABELS[order.status]}
+                    </span>
+                    {overdue && (
+                      <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                        Overdue
+                      </span>
+                    )}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${overdue ? 'text-red-600' : 'text-gray-900'}`}>
+                    {order.expectedDate ? format(new Date(order.expectedDate), 'dd MMM yyyy') : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {received} / {ordered}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {formatCurrency(orderTotal(order.lines))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {!isLoading && orders.length === 0 && (
+          <div className="p-8 text-center">
+            <p className="text-gray-600">No purchase orders found</p>
+          </div>
+        )}
+        {isLoading && <div className="p-8 text-center text-gray-600">Loading...</div>}
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseOrders;
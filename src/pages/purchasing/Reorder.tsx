@@ -0,0 +1,504 @@
+import { useState, useMemo, ChangeEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link, useNavigate } from 'react-router-dom';
+import { addDays, format, subDays } from 'date-fns';
+import api from '../../services/api.js';
+import { fetchAllPages } from '../../services/pagination.js';
+import { useAuthStore } from '../../store/authStore.js';
+import { purchasingService } from '../../services/purchasingService.js';
+import { reportService } from '../../services/reportService.js';
+import { OPEN_PO_STATUSES, orderTotal } from './purchaseOrders.js';
+import {
+  buildReorderSuggestions,
+  COVER_DAYS,
+  draftsBySupplier,
+  UNASSIGNED_SUPPLIER,
+  VELOCITY_DAYS,
+} from './reorder.js';
+import type { ReorderGroup, ReorderLine } from './reorder.js';
+import type { Inventory, Product, Store } from '../../types/index.js';
+
+interface LowStockResponse {
+  success: boolean;
+  data: {
+    lowStockItems: Array<Inventory & { product: Product | string }>;
+  };
+}
+
+interface ProductsResponse {
+  success: boolean;
+  data: {
+    products: Product[];
+    pagination?: {
+      pages: number;
+      total: number;
+    };
+  };
+}
+
+interface StoresResponse {
+  success: boolean;
+  data: {
+    stores: Store[];
+  };
+}
+
+interface LineEdit {
+  quantity: number;
+  unitCost: number;
+}
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const Reorder = () => {
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === 'admin';
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const userStoreId = typeof user?.store === 'object' ? user.store._id : user?.store || '';
+
+  const [store, setStore] = useState(userStoreId);
+  const [edits, setEdits] = useState<Record<string, LineEdit>>({});
+  // Supplier picked for the products that have no preferred supplier
+  const [unassignedSupplier, setUnassignedSupplier] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: storesData } = useQuery<StoresResponse>(
+    'stores',
+    async () => {
+      const response = await api.get<StoresResponse>('/stores');
+      return response.data;
+    },
+    { enabled: isAdmin, staleTime: 10 * 60 * 1000 } // 10 minutes
+  );
+
+  const { data: suppliersData } = useQuery('suppliers', () => purchasingService.getSuppliers(), {
+    enabled: canManage,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const { data: lowStockData, isLoading: loadingLowStock } = useQuery<LowStockResponse>(
+    ['inventory', store, 'low-stock'],
+    async () => {
+      const response = await api.get<LowStockResponse>(`/inventory/store/${store}/low-stock`);
+      return response.data;
+    },
+    { enabled: canManage && !!store }
+  );
+
+  // Every page - a low-stock product missing from here would lose its cost and supplier
+  const { data: products, isLoading: loadingProducts } = useQuery<Product[]>(
+    ['products', store, 'all'],
+    () =>
+      fetchAllPages(async (page, limit) => {
+        const response = await api.get<ProductsResponse>('/products', { params: { isActive: true, store, page, limit } });
+        return {
+          rows: response.data.data.products || [],
+          pages: response.data.data.pagination?.pages || 1,
+          total: response.data.data.pagination?.total,
+        };
+      }),
+    { enabled: canManage && !!store, staleTime: 3 * 60 * 1000 } // 3 minutes
+  );
+
+  const { data: salesData, isLoading: loadingSales } = useQuery(
+    ['sales-report', 'velocity', store],
+    () => {
+      const today = new Date();
+      return reportService.getTopProducts({
+        store,
+        startDate: format(subDays(today, VELOCITY_DAYS - 1), 'yyyy-MM-dd'),
+        endDate: format(today, 'yyyy-MM-dd'),
+        limit: 1000,
+        sortBy: 'quantity',
+      });
+    },
+    { enabled: canManage && !!store, staleTime: 30 * 60 * 1000 } // 30 minutes
+  );
+
+  // Drafts count too - an unsent draft is stock that is about to be ordered
+  const { data: ordersData } = useQuery(
+    ['purchase-orders', store, 'incoming'],
+    () => purchasingService.getPurchaseOrders({ store, status: ['draft', ...OPEN_PO_STATUSES].join(',') }),
+    { enabled: canManage && !!store }
+  );
+
+  const suppliers = suppliersData?.data?.suppliers || [];
+
+  const groups = useMemo(
+    () =>
+      buildReorderSuggestions({
+        lowStock: lowStockData?.data?.lowStockItems || [],
+        products: products || [],
+        sales: salesData?.data?.topProducts || [],
+        orders: ordersData?.data?.purchaseOrders || [],
+        suppliers: suppliersData?.data?.suppliers || [],
+      }),
+    [lowStockData, products, salesData, ordersData, suppliersData]
+  );
+
+  const existingDrafts = useMemo(
+    () => draftsBySupplier(ordersData?.data?.purchaseOrders || []),
+    [ordersData]
+  );
+
+  const lineValues = (line: ReorderLine): LineEdit =>
+    edits[line.product._id] || { quantity: line.suggested, unitCost: line.unitCost };
+
+  const updateLine = (line: ReorderLine, changes: Partial<LineEdit>) => {
+    setEdits({ ...edits, [line.product._id]: { ...lineValues(line), ...changes } });
+  };
+
+  const orderLines = (group: ReorderGroup) =>
+    group.lines
+      .map((line) => ({ product: line.product._id, ...lineValues(line) }))
+      .filter((line) => line.quantity > 0);
+
+  const supplierFor = (group: ReorderGroup) =>
+    group.supplierId === UNASSIGNED_SUPPLIER ? unassignedSupplier : group.supplierId;
+
+  const createMutation = useMutation(
+    async (toCreate: ReorderGroup[]) => {
+      const created = [];
+      // One at a time so a failure part way through leaves a clear record of what was created
+      for (const group of toCreate) {
+        const supplierId = supplierFor(group);
+        const leadTime = suppliers.find((s) => s._id === supplierId)?.leadTimeDays ?? group.leadTimeDays;
+        const response = await purchasingService.createPurchaseOrder({
+          supplier: supplierId,
+          store,
+          lines: orderLines(group),
+          expectedDate: format(addDays(new Date(), leadTime), 'yyyy-MM-dd'),
+          notes: 'Created from reorder suggestions',
+          status: 'draft',
+        });
+        created.push(response.data.purchaseOrder);
+      }
+      return created;
+    },
+    {
+      onSuccess: (created) => {
+        queryClient.invalidateQueries('purchase-orders');
+        navigate(created.length === 1 ? `/purchase-orders/${created[0]._id}` : '/purchase-orders?status=draft');
+      },
+      onError: (err: any) => {
+        queryClient.invalidateQueries('purchase-orders');
+        setError(err.response?.data?.message || 'Failed to create purchase orders');
+      },
+    }
+  );
+
+  const createOrders = (toCreate: ReorderGroup[]) => {
+    setError('');
+    const ready = toCreate.filter((group) => orderLines(group).length > 0);
+    if (ready.length === 0) {
+      setError('Nothing to order - every quantity is zero');
+      return;
+    }
+    if (ready.some((group) => !supplierFor(group))) {
+      setError('Choose a supplier for the products without a preferred supplier');
+      return;
+    }
+    const duplicates = ready.flatMap((group) => existingDrafts.get(supplierFor(group)) || []);
+    if (
+      duplicates.length > 0 &&
+      !window.confirm(
+        `Draft ${duplicates.map((order) => order.poNumber).join(', ')} already covers ${
+          duplicates.length === 1 ? 'this supplier' : 'these suppliers'
+        }. Create another draft anyway?`
+      )
+    ) {
+      return;
+    }
+    createMutation.mutate(ready);
+  };
+
+  if (!canManage) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can create reorders.</p>
+      </div>
+    );
+  }
+
+  const storeName =
+    storesData?.data?.stores?.find((s) => s._id === store)?.name ||
+    (typeof user?.store === 'object' ? user.store.name : '');
+  const isLoading = loadingLowStock || loadingProducts || loadingSales;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6 print:hidden">
+        <div>
+          <h1 className="text-3xl font-mercellus">Reorder Suggestions</h1>
+          <p className="text-sm text-gray-600">
+            Low-stock items, sized from the last {VELOCITY_DAYS} days of sales to cover the supplier's lead time plus{' '}
+            {COVER_DAYS} days, less anything already on order or on a draft PO.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link
+            to="/purchase-orders"
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            Purchase Orders
+          </Link>
+          <button
+            onClick={() => window.print()}
+            disabled={groups.length === 0}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Print Order Sheet
+          </button>
+          <button
+            onClick={() => createOrders(groups)}
+            disabled={groups.length === 0 || createMutation.isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {createMutation.isLoading ? 'Creating...' : 'Create All Draft POs'}
+          </button>
+        </div>
+      </div>
+
+      {isAdmin && (
+        <div className="bg-white p-4 rounded-lg shadow mb-6 print:hidden">
+          <select
+            value={store}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => {
+              setStore(e.target.value);
+              setEdits({});
+            }}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            <option value="">Select Store</option>
+            {storesData?.data?.stores?.map((s) => (
+              <option key={s._id} value={s._id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded print:hidden">
+          {error}
+        </div>
+      )}
+
+      {!store ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center text-gray-600">Select a store to see suggestions</div>
+      ) : isLoading ? (
+        <div>Loading...</div>
+      ) : groups.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg shadow text-center text-gray-600">
+          Nothing is below its reorder point
+        </div>
+      ) : (
+        <div className="space-y-6 print:hidden">
+          {groups.map((group) => {
+            const lines = orderLines(group);
+            return (
+              <div key={group.supplierId || 'unassigned'} className="bg-white p-6 rounded-lg shadow">
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    {group.supplier ? (
+                      <>
+                        <h2 className="text-2xl font-mercellus">{group.supplier.name}</h2>
+                        <p className="text-sm text-gray-600">
+                          {group.leadTimeDays} day lead time
+                          {group.supplier.phone && ` · ${group.supplier.phone}`}
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <h2 className="text-2xl font-mercellus">No Preferred Supplier</h2>
+                        <select
+                          value={unassignedSupplier}
+                          onChange={(e: ChangeEvent<HTMLSelectElement>) => setUnassignedSupplier(e.target.value)}
+                          className="mt-2 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+                        >
+                          <option value="">Order from...</option>
+                          {suppliers
+                            .filter((s) => s.isActive)
+                            .map((s) => (
+                              <option key={s._id} value={s._id}>
+                                {s.name}
+                              </option>
+                            ))}
+                        </select>
+                      </>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="text-lg font-semibold">{formatCurrency(orderTotal(lines))}</span>
+                    <button
+                      onClick={() => createOrders([group])}
+                      disabled={lines.length === 0 || createMutation.isLoading}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Create Draft PO
+                    </button>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Available</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reorder Point</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">On Order</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sold / Day</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order Qty</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Unit Cost</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {group.lines.map((line) => {
+                        const values = lineValues(line);
+                        const edited = values.quantity !== line.suggested;
+                        return (
+                          <tr key={line.product._id} className={values.quantity === 0 ? 'opacity-50' : ''}>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm font-medium text-gray-900">{line.product.name}</div>
+                              <div className="text-sm text-gray-500">{line.product.sku}</div>
+                            </td>
+                            <td className={`px-6 py-4 whitespace-nowrap text-sm ${line.available <= 0 ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                              {line.available}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.reorderPoint}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {line.incoming || '-'}
+                              {line.inDraft > 0 && <div className="text-xs text-gray-500">+{line.inDraft} in draft</div>}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.dailySales.toFixed(1)}</td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <input
+                                type="number"
+                                value={values.quantity}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateLine(line, { quantity: Number(e.target.value) })}
+                                min="0"
+                                className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                              />
+                              {edited && (
+                                <div className="text-xs text-gray-500 mt-1">Suggested {line.suggested}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <input
+                                type="number"
+                                value={values.unitCost}
+                                onChange={(e: ChangeEvent<HTMLInputElement>) => updateLine(line, { unitCost: Number(e.target.value) })}
+                                min="0"
+                                step="0.01"
+                                className="w-28 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                              />
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {formatCurrency(values.quantity * values.unitCost)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Printable order sheet, one section per supplier */}
+      <div id="reorder-sheet" className="hidden print:block">
+        {groups.map((group) => {
+          const supplierId = supplierFor(group);
+          const supplier = group.supplier || suppliers.find((s) => s._id === supplierId);
+          const lines = group.lines.filter((line) => lineValues(line).quantity > 0);
+          if (lines.length === 0) return null;
+          return (
+            <div key={group.supplierId || 'unassigned'} className="sheet-section">
+              <h1 className="text-xl font-bold">Order Sheet - {supplier?.name || 'Supplier to be confirmed'}</h1>
+              <p className="text-sm">
+                {storeName && `${storeName} · `}
+                {format(new Date(), 'dd MMM yyyy')}
+                {supplier?.phone && ` · ${supplier.phone}`}
+              </p>
+              <table className="w-full mt-3 text-sm">
+                <thead>
+                  <tr className="border-b border-black">
+                    <th className="text-left py-1">Product</th>
+                    <th className="text-left py-1">SKU</th>
+                    <th className="text-right py-1">Qty</th>
+                    <th className="text-right py-1">Unit Cost</th>
+                    <th className="text-right py-1">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => {
+                    const values = lineValues(line);
+                    return (
+                      <tr key={line.product._id} className="border-b border-gray-300">
+                        <td className="py-1">{line.product.name}</td>
+                        <td className="py-1">{line.product.sku}</td>
+                        <td className="text-right py-1">{values.quantity}</td>
+                        <td className="text-right py-1">{formatCurrency(values.unitCost)}</td>
+                        <td className="text-right py-1">{formatCurrency(values.quantity * values.unitCost)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot>
+                  <tr>
+                    <td colSpan={4} className="text-right py-1 font-semibold">Total</td>
+                    <td className="text-right py-1 font-semibold">
+                      {formatCurrency(orderTotal(lines.map((line) => lineValues(line))))}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Print Styles */}
+      <style>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 12mm;
+          }
+
+          body * {
+            visibility: hidden;
+          }
+
+          #reorder-sheet,
+          #reorder-sheet * {
+            visibility: visible;
+          }
+
+          #reorder-sheet {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 100%;
+            background: white;
+          }
+
+          #reorder-sheet .sheet-section + .sheet-section {
+            page-break-before: always;
+          }
+        }
+      `}</style>
+    </div>
+  );
+};
+
+export default Reorder;
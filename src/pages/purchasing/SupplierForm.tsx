@@ -0,0 +1,150 @@
+import { useState, FormEvent, ChangeEvent } from 'react';
+import type { Supplier } from '../../types/index.js';
+import type { SupplierData } from '../../services/purchasingService.js';
+
+interface SupplierFormProps {
+  supplier: Supplier | null;
+  onSave: (data: SupplierData) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+}
+
+// Type for form state (allows empty strings for input fields)
+interface SupplierFormState {
+  name: string;
+  code: string;
+  contactPerson: string;
+  phone: string;
+  email: string;
+  address: string;
+  paymentTerms: string;
+  leadTimeDays: string;
+  notes: string;
+  isActive: boolean;
+}
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500';
+
+const SupplierForm = ({ supplier, onSave, onCancel, isSaving }: SupplierFormProps) => {
+  const [formData, setFormData] = useState<SupplierFormState>({
+    name: supplier?.name || '',
+    code: supplier?.code || '',
+    contactPerson: supplier?.contactPerson || '',
+    phone: supplier?.phone || '',
+    email: supplier?.email || '',
+    address: supplier?.address || '',
+    paymentTerms: supplier?.paymentTerms || '',
+    leadTimeDays: supplier?.leadTimeDays !== undefined ? String(supplier.leadTimeDays) : '',
+    notes: supplier?.notes || '',
+    isActive: supplier?.isActive ?? true,
+  });
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setFormData({
+      ...formData,
+      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value,
+    });
+  };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onSave({
+      name: formData.name.trim(),
+      code: formData.code.trim() || undefined,
+      contactPerson: formData.contactPerson.trim() || undefined,
+      phone: formData.phone.trim(),
+      email: formData.email.trim() || undefined,
+      address: formData.address.trim() || undefined,
+      paymentTerms: formData.paymentTerms.trim() || undefined,
+      leadTimeDays: formData.leadTimeDays ? Number(formData.leadTimeDays) : undefined,
+      notes: formData.notes.trim() || undefined,
+      isActive: formData.isActive,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Name <span className="text-red-500">*</span>
+          </label>
+          <input name="name" value={formData.name} onChange={handleChange} required className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Code</label>
+          <input name="code" value={formData.code} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Contact Person</label>
+          <input name="contactPerson" value={formData.contactPerson} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Phone <span className="text-red-500">*</span>
+          </label>
+          <input name="phone" value={formData.phone} onChange={handleChange} required className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+          <input type="email" name="email" value={formData.email} onChange={handleChange} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Payment Terms</label>
+          <input
+            name="paymentTerms"
+            value={formData.paymentTerms}
+            onChange={handleChange}
+            placeholder="e.g. Net 30"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Lead Time (days)</label>
+          <input
+            type="number"
+            name="leadTimeDays"
+            value={formData.leadTimeDays}
+            onChange={handleChange}
+            min="0"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+          <input name="address" value={formData.address} onChange={handleChange} className={inputClass} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+        <textarea name="notes" value={formData.notes} onChange={handleChange} rows={2} className={inputClass} />
+      </div>
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input type="checkbox" name="isActive" checked={formData.isActive} onChange={handleChange} className="mr-2" />
+        Active
+      </label>
+
+      <div className="flex gap-4">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save Supplier'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default SupplierForm;
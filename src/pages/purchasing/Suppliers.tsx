@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link } from 'react-router-dom';
+import { useAuthStore } from '../../store/authStore.js';
+import { purchasingService } from '../../services/purchasingService.js';
+import SupplierForm from './SupplierForm';
+import { OPEN_PO_STATUSES } from './purchaseOrders.js';
+import type { SupplierData } from '../../services/purchasingService.js';
+import type { Supplier } from '../../types/index.js';
+
+const Suppliers = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [error, setError] = useState('');
+
+  const { data, isLoading } = useQuery('suppliers', () => purchasingService.getSuppliers(), {
+    enabled: canManage,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  const { data: openOrdersData } = useQuery(
+    ['purchase-orders', storeId, 'open'],
+    () => purchasingService.getPurchaseOrders({
+      store: user?.role === 'admin' ? undefined : storeId || undefined,
+      status: OPEN_PO_STATUSES.join(','),
+    }),
+    { enabled: canManage }
+  );
+
+  const openOrdersBySupplier = new Map<string, number>();
+  openOrdersData?.data?.purchaseOrders?.forEach((order) => {
+    const supplierId = typeof order.supplier === 'object' ? order.supplier._id : order.supplier;
+    openOrdersBySupplier.set(supplierId, (openOrdersBySupplier.get(supplierId) || 0) + 1);
+  });
+
+  const saveMutation = useMutation(
+    (supplierData: SupplierData) =>
+      editingSupplier
+        ? purchasingService.updateSupplier(editingSupplier._id, supplierData)
+        : purchasingService.createSupplier(supplierData),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('suppliers');
+        setShowForm(false);
+        setEditingSupplier(null);
+        setError('');
+      },
+      onError: (err: any) => {
+        setError(err.response?.data?.message || 'Failed to save supplier');
+      },
+    }
+  );
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setShowForm(true);
+  };
+
+  const handleCancel = () => {
+    setShowForm(false);
+    setEditingSupplier(null);
+    setError('');
+  };
+
+  if (!canManage) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can manage suppliers.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  const suppliers = data?.data?.suppliers || [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-mercellus">Suppliers</h1>
+        <div className="flex gap-2">
+          <Link
+            to="/purchase-orders"
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            Purchase Orders
+          </Link>
+          <button
+            onClick={() => (showForm ? handleCancel() : setShowForm(true))}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            {showForm ? 'Cancel' : '+ Add Supplier'}
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="bg-white p-6 rounded-lg shadow mb-6">
+          <h2 className="text-xl font-mercellus mb-4">{editingSupplier ? 'Edit Supplier' : 'New Supplier'}</h2>
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+          <SupplierForm
+            key={editingSupplier?._id || 'new'}
+            supplier={editingSupplier}
+            onSave={(supplierData) => saveMutation.mutate(supplierData)}
+            onCancel={handleCancel}
+            isSaving={saveMutation.isLoading}
+          />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Terms</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Open POs</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {suppliers.map((supplier) => (
+              <tr key={supplier._id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">{supplier.name}</div>
+                  {supplier.code && <div className="text-sm text-gray-500">{supplier.code}</div>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {supplier.contactPerson && <div>{supplier.contactPerson}</div>}
+                  <div className="text-gray-500">{supplier.phone}</div>
+                  {supplier.email && <div className="text-gray-500">{supplier.email}</div>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {supplier.paymentTerms || '-'}
+                  {supplier.leadTimeDays !== undefined && (
+                    <div className="text-gray-500">{supplier.leadTimeDays} day lead time</div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  {openOrdersBySupplier.get(supplier._id) ? (
+                    <Link
+                      to={`/purchase-orders?supplier=${supplier._id}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {openOrdersBySupplier.get(supplier._id)} open
+                    </Link>
+                  ) : (
+                    <span className="text-gray-500">None</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-3 py-1 rounded-full text-xs ${
+                      supplier.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                    }`}
+                  >
+                    {supplier.isActive ? 'Active' : 'Inactive'}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm space-x-3">
+                  <button onClick={() => handleEdit(supplier)} className="text-blue-600 hover:text-blue-800">
+                    Edit
+                  </button>
+                  {supplier.isActive && (
+                    <Link
+                      to={`/purchase-orders/new?supplier=${supplier._id}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      New PO
+                    </Link>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {suppliers.length === 0 && (
+          <div className="p-8 text-center">
+            <p className="text-gray-600">No suppliers yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Suppliers;
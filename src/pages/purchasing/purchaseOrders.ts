@@ -0,0 +1,45 @@
+import { endOfDay, isBefore } from 'date-fns';
+import type { Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '../../types/index.js';
+import { roundMoney } from '../pos/tenders.js';
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  closed: 'Closed',
+  cancelled: 'Cancelled',
+};
+
+export const PO_STATUS_BADGES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+// Orders still waiting on goods from the supplier
+export const OPEN_PO_STATUSES: PurchaseOrderStatus[] = ['ordered', 'partially_received'];
+
+export const isOpenPurchaseOrder = (order: Pick<PurchaseOrder, 'status'>): boolean =>
+  OPEN_PO_STATUSES.includes(order.status);
+
+export const isOverdue = (order: Pick<PurchaseOrder, 'status' | 'expectedDate'>, now = new Date()): boolean =>
+  isOpenPurchaseOrder(order) && !!order.expectedDate && isBefore(endOfDay(new Date(order.expectedDate)), now);
+
+export const outstandingQuantity = (line: PurchaseOrderLine): number =>
+  Math.max(0, line.quantity - (line.receivedQuantity || 0));
+
+export const orderTotal = (lines: Array<Pick<PurchaseOrderLine, 'quantity' | 'unitCost'>>): number =>
+  roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+
+export const productIdOf = (product: Product | string): string =>
+  typeof product === 'object' ? product._id : product;
+
+export const productNameOf = (product: Product | string): string =>
+  typeof product === 'object' ? product.name : 'Product';
+
+export const supplierNameOf = (supplier: Supplier | string): string =>
+  typeof supplier === 'object' ? supplier.name : 'Supplier';
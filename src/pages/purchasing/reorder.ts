@@ -0,0 +1,148 @@
+import type { Inventory, Product, PurchaseOrder, Supplier } from '../../types/index.js';
+import type { TopProduct } from '../../services/reportService.js';
+import { outstandingQuantity, productIdOf } from './purchaseOrders.js';
+
+// Sales window used to work out how fast each product sells
+export const VELOCITY_DAYS = 28;
+// Stock the order should cover beyond the supplier's lead time
+export const COVER_DAYS = 14;
+// Used when a supplier has no lead time on file
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+export const UNASSIGNED_SUPPLIER = '';
+
+export interface ReorderLine {
+  product: Product;
+  available: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  incoming: number;
+  // On draft POs that haven't been sent yet
+  inDraft: number;
+  // Units sold per day over the velocity window
+  dailySales: number;
+  suggested: number;
+  unitCost: number;
+}
+
+export interface ReorderGroup {
+  // UNASSIGNED_SUPPLIER for products with no preferred supplier
+  supplierId: string;
+  supplier?: Supplier;
+  leadTimeDays: number;
+  lines: ReorderLine[];
+}
+
+interface ReorderInput {
+  lowStock: Array<Inventory & { product: Product | string }>;
+  products: Product[];
+  sales: TopProduct[];
+  // Drafts and orders still awaiting delivery
+  orders: PurchaseOrder[];
+  suppliers: Supplier[];
+}
+
+const supplierIdOf = (product: Product): string =>
+  typeof product.supplier === 'object' ? product.supplier._id : product.supplier || UNASSIGNED_SUPPLIER;
+
+// Quantities already on order and not yet received, per product
+export const incomingByProduct = (orders: PurchaseOrder[]): Map<string, number> => {
+  const incoming = new Map<string, number>();
+  orders.forEach((order) => {
+    order.lines.forEach((line) => {
+      const productId = productIdOf(line.product);
+      incoming.set(productId, (incoming.get(productId) || 0) + outstandingQuantity(line));
+    });
+  });
+  return incoming;
+};
+
+// Draft POs per supplier, so a second draft for the same supplier can be caught
+export const draftsBySupplier = (orders: PurchaseOrder[]): Map<string, PurchaseOrder[]> => {
+  const drafts = new Map<string, PurchaseOrder[]>();
+  orders
+    .filter((order) => order.status === 'draft')
+    .forEach((order) => {
+      const supplierId = typeof order.supplier === 'object' ? order.supplier._id : order.supplier;
+      drafts.set(supplierId, [...(drafts.get(supplierId) || []), order]);
+    });
+  return drafts;
+};
+
+/**
+ * Order enough to get back up to the reorder point plus the larger of reorderQuantity and
+ * COVER_DAYS of sales, after allowing for what will sell during the lead time and what is
+ * already on its way or waiting on a draft.
+ */
+export const suggestQuantity = (
+  line: Pick<ReorderLine, 'available' | 'reorderPoint' | 'reorderQuantity' | 'incoming' | 'inDraft' | 'dailySales'>,
+  leadTimeDays: number
+): number => {
+  const orderUpTo = line.reorderPoint + Math.max(line.reorderQuantity, line.dailySales * COVER_DAYS);
+  const leadTimeDemand = line.dailySales * leadTimeDays;
+  return Math.max(0, Math.ceil(orderUpTo + leadTimeDemand - line.available - line.incoming - line.inDraft));
+};
+
+export const buildReorderSuggestions = ({
+  lowStock,
+  products,
+  sales,
+  orders,
+  suppliers,
+}: ReorderInput): ReorderGroup[] => {
+  const productsById = new Map(products.map((product) => [product._id, product]));
+  const suppliersById = new Map(suppliers.map((supplier) => [supplier._id, supplier]));
+  const soldByProduct = new Map(sales.map((row) => [row.product._id, row.quantity]));
+  const incoming = incomingByProduct(orders.filter((order) => order.status !== 'draft'));
+  const inDraft = incomingByProduct(orders.filter((order) => order.status === 'draft'));
+  const groups = new Map<string, ReorderGroup>();
+
+  lowStock.forEach((item) => {
+    const productId = productIdOf(item.product);
+    // The low-stock list only carries name and SKU, the product list has cost and supplier
+    const product = productsById.get(productId) || (typeof item.product === 'object' ? item.product : undefined);
+    if (!product || product.isActive === false) return;
+
+    const supplierId = supplierIdOf(product);
+    const supplier = suppliersById.get(supplierId);
+    let group = groups.get(supplierId);
+    if (!group) {
+      group = {
+        supplierId,
+        supplier,
+        leadTimeDays: supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS,
+        lines: [],
+      };
+      groups.set(supplierId, group);
+    }
+
+    const line = {
+      available: item.availableQuantity ?? item.quantity - (item.reservedQuantity || 0),
+      reorderPoint: item.reorderPoint,
+      reorderQuantity: item.reorderQuantity,
+      incoming: incoming.get(productId) || 0,
+      inDraft: inDraft.get(productId) || 0,
+      dailySales: (soldByProduct.get(productId) || 0) / VELOCITY_DAYS,
+    };
+    group.lines.push({
+      ...line,
+      product,
+      suggested: suggestQuantity(line, group.leadTimeDays),
+      unitCost: product.cost || 0,
+    });
+  });
+
+  // Suppliers by name with unassigned products last; lines with the least cover first
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      lines: group.lines.sort(
+        (a, b) => a.available + a.incoming + a.inDraft - (b.available + b.incoming + b.inDraft)
+      ),
+    }))
+    .sort((a, b) => {
+      if (!a.supplier) return 1;
+      if (!b.supplier) return -1;
+      return a.supplier.name.localeCompare(b.supplier.name);
+    });
+};
@@ -0,0 +1,186 @@
+import { useState, useMemo } from 'react';
+import { useQuery } from 'react-query';
+import { Link } from 'react-router-dom';
+import { useAuthStore } from '../../store/authStore.js';
+import { authService } from '../../services/authService.js';
+import { useRangeTransactions } from '../../hooks/useRangeTransactions.js';
+import ReportFilterBar from './ReportFilterBar';
+import { defaultReportFilters, formatRange, resolveRange, todayKey, toReportParams } from './reportRanges.js';
+import { buildCashierReport, hasHighDiscountRate } from './cashierPerformance.js';
+import { filtersToSearchParams } from '../transactions/transactionFilters.js';
+import type { ReportFilterState } from './reportRanges.js';
+import type { CashierStats } from './cashierPerformance.js';
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const HEADERS = [
+  'Cashier',
+  'Sales',
+  'Revenue',
+  'Avg Basket',
+  'Items / Sale',
+  'Voids',
+  'Returns',
+  'Discounts',
+  'Loyalty Redemptions',
+];
+
+const StatsCells = ({ stats, flagged }: { stats: CashierStats; flagged: boolean }) => (
+  <>
+    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{stats.salesCount}</td>
+    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatCurrency(stats.revenue)}</td>
+    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(stats.averageBasket)}</td>
+    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{stats.itemsPerTransaction.toFixed(1)}</td>
+    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+      {stats.voidCount}
+      {stats.voidCount > 0 && <div className="text-gray-500">{formatCurrency(stats.voidValue)}</div>}
+    </td>
+    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+      {stats.returnsProcessed}
+      {stats.returnsProcessed > 0 && <div className="text-gray-500">{formatCurrency(stats.refundValue)}</div>}
+    </td>
+    <td className={`px-6 py-4 whitespace-nowrap text-sm ${flagged ? 'text-red-700 font-semibold' : 'text-gray-900'}`}>
+      {formatCurrency(stats.discountValue)}
+      <div className={flagged ? 'text-red-600' : 'text-gray-500'}>
+        {stats.discountCount} sale(s), {stats.discountRate.toFixed(1)}%
+      </div>
+    </td>
+    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+      {stats.loyaltyRedemptions}
+      {stats.pointsRedeemed > 0 && <div className="text-gray-500">{stats.pointsRedeemed} pts</div>}
+    </td>
+  </>
+);
+
+const CashierReport = () => {
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const canView = user?.role === 'admin' || user?.role === 'manager';
+  const userStoreId = typeof user?.store === 'object' ? user.store._id : user?.store || '';
+
+  const [filters, setFilters] = useState<ReportFilterState>(defaultReportFilters);
+
+  const store = isAdmin ? filters.store : userStoreId;
+  const today = todayKey();
+  const range = useMemo(() => resolveRange(filters), [filters, today]);
+  const params = toReportParams(range, store);
+
+  const { data: transactions, isLoading, error, progress } = useRangeTransactions(params, canView);
+
+  // Names for cashiers the server returns as bare ids
+  const { data: usersData } = useQuery(
+    ['users', store],
+    () => authService.getUsers(store ? { store } : undefined),
+    {
+      enabled: canView,
+      staleTime: 10 * 60 * 1000, // 10 minutes
+    }
+  );
+
+  const report = useMemo(
+    () => buildCashierReport(transactions || [], usersData?.data?.users),
+    [transactions, usersData?.data?.users]
+  );
+
+  if (!canView) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can view cashier performance.</p>
+      </div>
+    );
+  }
+
+  const flaggedCount = report.cashiers.filter((stats) => hasHighDiscountRate(stats, report.totals.discountRate)).length;
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-6">
+        <div>
+          <h1 className="text-3xl font-mercellus">Cashier Performance</h1>
+          <Link to="/reports" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to Reports
+          </Link>
+        </div>
+        <p className="text-sm text-gray-600">{formatRange(range)}</p>
+      </div>
+
+      <ReportFilterBar filters={filters} onChange={setFilters} showStorePicker={isAdmin} showGroupBy={false} />
+
+      {error ? (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          {(error as any).response?.data?.message || 'Failed to load transactions'}
+        </div>
+      ) : null}
+
+      {flaggedCount > 0 && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded mb-6 text-sm">
+          {flaggedCount} cashier(s) gave discounts at more than twice the team rate of{' '}
+          {report.totals.discountRate.toFixed(1)}%. Their rows are highlighted below.
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-600">
+            Loading transactions...
+            {progress && ` ${progress.fetched}${progress.total !== undefined ? ` of ${progress.total}` : ''}`}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {HEADERS.map((header) => (
+                    <th
+                      key={header}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {report.cashiers.map((stats) => {
+                  const flagged = hasHighDiscountRate(stats, report.totals.discountRate);
+                  return (
+                    <tr key={stats.cashierId} className={flagged ? 'bg-red-50' : undefined}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Link
+                          to={`/transactions?${new URLSearchParams(
+                            filtersToSearchParams({ cashier: stats.cashierId, startDate: params.startDate, endDate: params.endDate })
+                          )}`}
+                          className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                        >
+                          {stats.name}
+                        </Link>
+                      </td>
+                      <StatsCells stats={stats} flagged={flagged} />
+                    </tr>
+                  );
+                })}
+              </tbody>
+              {report.cashiers.length > 1 && (
+                <tfoot className="bg-gray-50 font-semibold">
+                  <tr>
+                    <td className="px-6 py-3 text-sm text-gray-900">Total</td>
+                    <StatsCells stats={report.totals} flagged={false} />
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+
+            {report.cashiers.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-gray-600">No data available</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CashierReport;
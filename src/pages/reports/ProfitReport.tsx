@@ -0,0 +1,256 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../store/authStore.js';
+import { useRangeTransactions } from '../../hooks/useRangeTransactions.js';
+import ReportFilterBar from './ReportFilterBar';
+import { defaultReportFilters, formatRange, resolveRange, todayKey, toReportParams } from './reportRanges.js';
+import { buildProfitReport, PROFIT_DIMENSION_LABELS } from './profitability.js';
+import type { ReportFilterState } from './reportRanges.js';
+import type { ProfitDimension } from './profitability.js';
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatMargin = (margin?: number) => (margin === undefined ? '-' : `${margin.toFixed(1)}%`);
+
+const ProfitReport = () => {
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const canView = user?.role === 'admin' || user?.role === 'manager';
+  const userStoreId = typeof user?.store === 'object' ? user.store._id : user?.store || '';
+
+  const [filters, setFilters] = useState<ReportFilterState>(defaultReportFilters);
+  const [dimension, setDimension] = useState<ProfitDimension>('product');
+
+  const store = isAdmin ? filters.store : userStoreId;
+  const today = todayKey();
+  const range = useMemo(() => resolveRange(filters), [filters, today]);
+  const params = toReportParams(range, store);
+
+  // Margins are worked out line by line, so every transaction in the range is needed
+  const { data: transactions, isLoading, error, progress } = useRangeTransactions(params, canView);
+
+  const report = useMemo(
+    () => buildProfitReport(transactions || [], dimension, filters.groupBy),
+    [transactions, dimension, filters.groupBy]
+  );
+
+  if (!canView) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can view profitability.</p>
+      </div>
+    );
+  }
+
+  const summaryCards = [
+    { label: 'Revenue', value: formatCurrency(report.totals.revenue) },
+    { label: 'Cost of Goods Sold', value: formatCurrency(report.totals.cogs) },
+    { label: 'Gross Profit', value: formatCurrency(report.totals.grossProfit), negative: report.totals.grossProfit < 0 },
+    { label: 'Gross Margin', value: formatMargin(report.totals.margin), negative: (report.totals.margin ?? 0) < 0 },
+  ];
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-6">
+        <div>
+          <h1 className="text-3xl font-mercellus">Profitability</h1>
+          <Link to="/reports" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to Reports
+          </Link>
+        </div>
+        <p className="text-sm text-gray-600">{formatRange(range)}</p>
+      </div>
+
+      <ReportFilterBar
+        filters={filters}
+        onChange={setFilters}
+        showStorePicker={isAdmin}
+        showGroupBy={dimension === 'period'}
+      />
+
+      {error ? (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+          {(error as any).response?.data?.message || 'Failed to load transactions'}
+        </div>
+      ) : null}
+
+      {report.missingCostLines > 0 && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded mb-6 text-sm">
+          {report.missingCostLines} line(s) have no cost on record and are counted at zero cost.
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {summaryCards.map((card) => (
+            <div key={card.label}>
+              <p className="text-sm text-gray-600">{card.label}</p>
+              <p className={`text-2xl font-bold ${card.negative ? 'text-red-600' : ''}`}>{card.value}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-4">
+          Revenue is net of discounts, loyalty redemptions, VAT and returns. Returned goods that were restocked
+          have their cost reversed; written-off returns stay in COGS.
+        </p>
+      </div>
+
+      {/* Breakdown */}
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-mercellus">Breakdown</h2>
+          <div className="flex rounded-lg overflow-hidden border border-gray-300">
+            {(Object.keys(PROFIT_DIMENSION_LABELS) as ProfitDimension[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setDimension(option)}
+                className={`px-3 py-1.5 text-sm ${
+                  dimension === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {PROFIT_DIMENSION_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-600">
+            Loading transactions...
+            {progress && ` ${progress.fetched}${progress.total !== undefined ? ` of ${progress.total}` : ''}`}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {PROFIT_DIMENSION_LABELS[dimension]}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Qty
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Revenue
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    COGS
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Gross Profit
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Margin
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {report.rows.map((row) => (
+                  <tr key={row.key} className={row.belowCostQuantity > 0 ? 'bg-red-50' : undefined}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{row.label}</div>
+                      {row.sublabel && <div className="text-sm text-gray-500">{row.sublabel}</div>}
+                      {row.belowCostQuantity > 0 && (
+                        <span className="inline-block mt-1 px-2 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                          {row.belowCostQuantity} sold below cost
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.quantity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(row.revenue)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(row.cogs)}</td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${
+                        row.grossProfit < 0 ? 'text-red-600' : 'text-gray-900'
+                      }`}
+                    >
+                      {formatCurrency(row.grossProfit)}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm ${
+                        (row.margin ?? 0) < 0 ? 'text-red-600' : 'text-gray-900'
+                      }`}
+                    >
+                      {formatMargin(row.margin)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {report.rows.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-gray-600">No data available</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Sold below cost */}
+      {report.belowCost.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-2xl font-mercellus mb-1">Sold Below Cost</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Lines where the net price after discounts was lower than the product's cost.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Transaction
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Product
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Qty
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Net Unit Price
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Unit Cost
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Loss
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {report.belowCost.map((line, index) => (
+                  <tr key={`${line.transactionId}-${index}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link to={`/transactions/${line.transactionId}`} className="text-blue-600 hover:text-blue-800">
+                        {line.transactionNumber}
+                      </Link>
+                      {line.date && (
+                        <div className="text-gray-500">{format(new Date(line.date), 'dd MMM yyyy HH:mm')}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{line.product}</div>
+                      {line.sku && <div className="text-sm text-gray-500">{line.sku}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.quantity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(line.unitRevenue)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(line.unitCost)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-red-600">
+                      {formatCurrency(line.loss)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfitReport;
@@ -0,0 +1,126 @@
+import { ChangeEvent } from 'react';
+import { useQuery } from 'react-query';
+import api from '../../services/api.js';
+import { DATE_PRESET_LABELS, GROUP_BY_LABELS } from './reportRanges.js';
+import type { DatePreset, ReportFilterState } from './reportRanges.js';
+import type { ReportGroupBy } from '../../services/reportService.js';
+import type { Store } from '../../types/index.js';
+
+interface StoresResponse {
+  success: boolean;
+  data: {
+    stores: Store[];
+  };
+}
+
+interface ReportFilterBarProps {
+  filters: ReportFilterState;
+  onChange: (filters: ReportFilterState) => void;
+  // Only admins report across stores; everyone else is fixed to their own
+  showStorePicker: boolean;
+  showGroupBy?: boolean;
+}
+
+const selectClass = 'px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm bg-white';
+
+const ReportFilterBar = ({ filters, onChange, showStorePicker, showGroupBy = true }: ReportFilterBarProps) => {
+  const { data: storesData } = useQuery<StoresResponse>(
+    'stores',
+    async () => {
+      const response = await api.get<StoresResponse>('/stores');
+      return response.data;
+    },
+    {
+      enabled: showStorePicker,
+      staleTime: 10 * 60 * 1000, // 10 minutes - stores don't change often
+    }
+  );
+
+  const update = (changes: Partial<ReportFilterState>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow mb-6 flex flex-wrap items-end gap-4">
+      <div>
+        <span className="block text-xs font-medium text-gray-500 mb-1">Period</span>
+        <div className="flex rounded-lg overflow-hidden border border-gray-300">
+          {(Object.keys(DATE_PRESET_LABELS) as DatePreset[]).map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              onClick={() => update({ preset })}
+              className={`px-3 py-1.5 text-sm ${
+                filters.preset === preset ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {DATE_PRESET_LABELS[preset]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {filters.preset === 'custom' && (
+        <>
+          <label className="text-xs font-medium text-gray-500">
+            <span className="block mb-1">From</span>
+            <input
+              type="date"
+              value={filters.customStart}
+              max={filters.customEnd}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => update({ customStart: e.target.value })}
+              className={selectClass}
+            />
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            <span className="block mb-1">To</span>
+            <input
+              type="date"
+              value={filters.customEnd}
+              min={filters.customStart}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => update({ customEnd: e.target.value })}
+              className={selectClass}
+            />
+          </label>
+        </>
+      )}
+
+      {showStorePicker && (
+        <label className="text-xs font-medium text-gray-500">
+          <span className="block mb-1">Store</span>
+          <select
+            value={filters.store || 'all'}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+              update({ store: e.target.value === 'all' ? '' : e.target.value })
+            }
+            className={selectClass}
+          >
+            <option value="all">All Stores (Combined)</option>
+            {storesData?.data?.stores?.map((store) => (
+              <option key={store._id} value={store._id}>
+                {store.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {showGroupBy && (
+        <label className="text-xs font-medium text-gray-500">
+          <span className="block mb-1">Group By</span>
+          <select
+            value={filters.groupBy}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ groupBy: e.target.value as ReportGroupBy })}
+            className={selectClass}
+          >
+            {(Object.keys(GROUP_BY_LABELS) as ReportGroupBy[]).map((groupBy) => (
+              <option key={groupBy} value={groupBy}>
+                {GROUP_BY_LABELS[groupBy]}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ReportFilterBar;
@@ -1,74 +1,289 @@
+import { useState, useMemo } from 'react';
 import { useQuery } from 'react-query';
-import api from '../../services/api.js';
-import type { Product } from '../../types/index.js';
-
-interface SalesReportResponse {
-  success: boolean;
-  data: {
-    summary: {
-      totalSales: number;
-      totalTransactions: number;
-      totalItems?: number;
-      averageTransaction?: number;
-    };
-  };
-}
-
-interface TopProductsResponse {
-  success: boolean;
-  data: {
-    topProducts: Array<{
-      product: Product;
-      quantity: number;
-      revenue: number;
-    }>;
-  };
-}
+import { Link } from 'react-router-dom';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { useAuthStore } from '../../store/authStore.js';
+import { reportService } from '../../services/reportService.js';
+import ReportFilterBar from './ReportFilterBar';
+import {
+  defaultReportFilters,
+  formatPeriodLabel,
+  formatRange,
+  percentChange,
+  periodOffset,
+  previousRange,
+  resolveRange,
+  todayKey,
+  toReportParams,
+} from './reportRanges.js';
+import type { ReportFilterState } from './reportRanges.js';
+import type { SalesReportResponse, TopProductsResponse } from '../../services/reportService.js';
+
+type TopProductSort = 'quantity' | 'revenue';
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ChangeBadge = ({ current, previous }: { current: number; previous: number }) => {
+  const change = percentChange(current, previous);
+  if (change === undefined) {
+    return <p className="text-xs text-gray-400 mt-1">No previous data</p>;
+  }
+  const up = change >= 0;
+  return (
+    <p className={`text-xs mt-1 ${up ? 'text-green-600' : 'text-red-600'}`}>
+      {up ? '▲' : '▼'} {Math.abs(change).toFixed(1)}% vs previous period
+    </p>
+  );
+};
 
 const Reports = () => {
-  const { data: salesData } = useQuery<SalesReportResponse>('sales-report', async () => {
-    const response = await api.get<SalesReportResponse>('/reports/sales?groupBy=day');
-    return response.data;
-  });
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const canViewDetail = user?.role === 'admin' || user?.role === 'manager';
+  const userStoreId = typeof user?.store === 'object' ? user.store._id : user?.store || '';
+
+  const [filters, setFilters] = useState<ReportFilterState>(defaultReportFilters);
+  const [productSort, setProductSort] = useState<TopProductSort>('revenue');
+
+  const store = isAdmin ? filters.store : userStoreId;
+  const today = todayKey();
+  const range = useMemo(() => resolveRange(filters), [filters, today]);
+  const previous = useMemo(() => previousRange(filters, range), [filters, range]);
+  const params = toReportParams(range, store);
+  const previousParams = toReportParams(previous, store);
+
+  const { data: salesData, isLoading } = useQuery<SalesReportResponse>(
+    ['sales-report', params, filters.groupBy],
+    () => reportService.getSalesReport({ ...params, groupBy: filters.groupBy }),
+    {
+      keepPreviousData: true,
+      staleTime: 2 * 60 * 1000, // 2 minutes
+    }
+  );
+
+  const { data: previousSalesData } = useQuery<SalesReportResponse>(
+    ['sales-report', previousParams, filters.groupBy],
+    () => reportService.getSalesReport({ ...previousParams, groupBy: filters.groupBy }),
+    {
+      keepPreviousData: true,
+      staleTime: 5 * 60 * 1000, // 5 minutes - past periods rarely change
+    }
+  );
+
+  const { data: topProducts } = useQuery<TopProductsResponse>(
+    ['top-products', params, productSort],
+    () => reportService.getTopProducts({ ...params, limit: 10, sortBy: productSort }),
+    {
+      keepPreviousData: true,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    }
+  );
+
+  const summary = salesData?.data?.summary;
+  const previousSummary = previousSalesData?.data?.summary;
+
+  // Previous period is lined up by offset from its start, so day 3 this month sits next to
+  // day 3 last month even when either period has days without sales
+  const chartData = useMemo(() => {
+    const current = salesData?.data?.grouped || [];
+    const prior = new Map<number, number>();
+    (previousSalesData?.data?.grouped || []).forEach((period) => {
+      const offset = periodOffset(period.date, filters.groupBy, previous.start);
+      if (offset !== undefined) prior.set(offset, period.sales);
+    });
+    return current.map((period) => {
+      const offset = periodOffset(period.date, filters.groupBy, range.start);
+      return {
+        label: formatPeriodLabel(period.date, filters.groupBy),
+        sales: period.sales,
+        previousSales: (offset !== undefined ? prior.get(offset) : undefined) ?? 0,
+      };
+    });
+  }, [salesData?.data?.grouped, previousSalesData?.data?.grouped, filters.groupBy, range.start, previous.start]);
 
-  const { data: topProducts } = useQuery<TopProductsResponse>('top-products', async () => {
-    const response = await api.get<TopProductsResponse>('/reports/top-products?limit=10');
-    return response.data;
-  });
+  // Already ranked by the server on productSort
+  const sortedProducts = topProducts?.data?.topProducts || [];
+
+  const summaryCards = [
+    { label: 'Total Sales', current: summary?.totalSales || 0, previous: previousSummary?.totalSales || 0, money: true },
+    {
+      label: 'Total Transactions',
+      current: summary?.totalTransactions || 0,
+      previous: previousSummary?.totalTransactions || 0,
+      money: false,
+    },
+    { label: 'Total Items Sold', current: summary?.totalItems || 0, previous: previousSummary?.totalItems || 0, money: false },
+    {
+      label: 'Average Transaction',
+      current: summary?.averageTransaction || 0,
+      previous: previousSummary?.averageTransaction || 0,
+      money: true,
+    },
+    { label: 'VAT Collected', current: summary?.totalTax || 0, previous: previousSummary?.totalTax || 0, money: true },
+  ];
+
+  const sortHeaderClass = (column: TopProductSort) =>
+    `px-6 py-3 text-left text-xs font-medium uppercase tracking-wider cursor-pointer select-none ${
+      productSort === column ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700'
+    }`;
 
   return (
     <div>
-      <h1 className="text-3xl font-mercellus mb-6">Reports</h1>
+      <div className="flex justify-between items-baseline mb-6">
+        <h1 className="text-3xl font-mercellus">Reports</h1>
+        <div className="flex items-baseline gap-4">
+          <p className="text-sm text-gray-600">
+            {formatRange(range)} <span className="text-gray-400">vs {formatRange(previous)}</span>
+          </p>
+          {canViewDetail && (
+            <>
+              <Link to="/reports/profit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+                Profitability
+              </Link>
+              <Link to="/reports/cashiers" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+                Cashiers
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+
+      <ReportFilterBar filters={filters} onChange={setFilters} showStorePicker={isAdmin} />
 
       {/* Sales Summary */}
       <div className="bg-white p-6 rounded-lg shadow mb-6">
         <h2 className="text-2xl font-mercellus mb-4">Sales Report</h2>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          <div>
-            <p className="text-sm text-gray-600">Total Sales</p>
-            <p className="text-2xl font-bold">
-              ৳{salesData?.data?.summary?.totalSales?.toLocaleString() || '0'}
-            </p>
-          </div>
-          <div>
-            <p className="text-sm text-gray-600">Total Transactions</p>
-            <p className="text-2xl font-bold">
-              {salesData?.data?.summary?.totalTransactions || '0'}
-            </p>
-          </div>
-          <div>
-            <p className="text-sm text-gray-600">Total Items Sold</p>
-            <p className="text-2xl font-bold">
-              {salesData?.data?.summary?.totalItems || '0'}
-            </p>
-          </div>
-          <div>
-            <p className="text-sm text-gray-600">Average Transaction</p>
-            <p className="text-2xl font-bold">
-              ৳{salesData?.data?.summary?.averageTransaction?.toLocaleString() || '0'}
-            </p>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          {summaryCards.map((card) => (
+            <div key={card.label}>
+              <p className="text-sm text-gray-600">{card.label}</p>
+              <p className="text-2xl font-bold">
+                {card.money ? formatCurrency(card.current) : card.current.toLocaleString()}
+              </p>
+              <ChangeBadge current={card.current} previous={card.previous} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Sales Trend */}
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <h2 className="text-2xl font-mercellus mb-4">Sales Trend</h2>
+        {chartData.length > 0 ? (
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={chartData}>
+              <defs>
+                <linearGradient id="colorReportSales" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#3B82F6" stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor="#3B82F6" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+              <XAxis dataKey="label" stroke="#6B7280" fontSize={12} />
+              <YAxis
+                stroke="#6B7280"
+                fontSize={12}
+                tickFormatter={(value) => `৳${(value / 1000).toFixed(0)}k`}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1F2937',
+                  border: 'none',
+                  borderRadius: '8px',
+                  color: '#fff'
+                }}
+                formatter={(value: number) => formatCurrency(value)}
+              />
+              <Legend />
+              <Area
+                type="monotone"
+                dataKey="sales"
+                name="This period"
+                stroke="#3B82F6"
+                fillOpacity={1}
+                fill="url(#colorReportSales)"
+              />
+              <Line
+                type="monotone"
+                dataKey="previousSales"
+                name="Previous period"
+                stroke="#9CA3AF"
+                strokeDasharray="5 5"
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-[300px] flex items-center justify-center text-gray-500">
+            <p>{isLoading ? 'Loading...' : 'No sales data available'}</p>
           </div>
+        )}
+      </div>
+
+      {/* Sales and VAT by Period */}
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <h2 className="text-2xl font-mercellus mb-4">Sales by Period</h2>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Period
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Transactions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Sales
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  VAT
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {salesData?.data?.grouped?.map((period) => (
+                <tr key={period.date}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatPeriodLabel(period.date, filters.groupBy)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{period.transactions}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(period.sales)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {formatCurrency(period.tax || 0)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            {summary?.totalTax !== undefined && (
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={3} className="px-6 py-3 text-sm font-semibold text-gray-900">Total</td>
+                  <td className="px-6 py-3 text-sm font-bold text-gray-900">
+                    {formatCurrency(summary.totalTax)}
+                  </td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
         </div>
+
+        {!salesData?.data?.grouped?.length && (
+          <div className="text-center py-8">
+            <p className="text-gray-600">No data available</p>
+          </div>
+        )}
       </div>
 
       {/* Top Products */}
@@ -81,16 +296,16 @@ const Reports = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Product
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Quantity Sold
+                <th className={sortHeaderClass('quantity')} onClick={() => setProductSort('quantity')}>
+                  Quantity Sold {productSort === 'quantity' && '▼'}
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Revenue
+                <th className={sortHeaderClass('revenue')} onClick={() => setProductSort('revenue')}>
+                  Revenue {productSort === 'revenue' && '▼'}
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {topProducts?.data?.topProducts?.map((item, index) => (
+              {sortedProducts.map((item, index) => (
                 <tr key={item.product._id}>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
@@ -105,7 +320,7 @@ const Reports = () => {
                     <div className="text-sm text-gray-900">{item.quantity}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">৳{item.revenue.toLocaleString()}</div>
+                    <div className="text-sm font-medium text-gray-900">{formatCurrency(item.revenue)}</div>
                   </td>
                 </tr>
               ))}
@@ -113,7 +328,7 @@ const Reports = () => {
           </table>
         </div>
 
-        {topProducts?.data?.topProducts?.length === 0 && (
+        {sortedProducts.length === 0 && (
           <div className="text-center py-8">
             <p className="text-gray-600">No data available</p>
           </div>
@@ -124,4 +339,3 @@ const Reports = () => {
 };
 
 export default Reports;
-
@@ -0,0 +1,133 @@
+import type { Transaction } from '../../types/index.js';
+import type { User } from '../../services/authService.js';
+import { roundMoney } from '../pos/tenders.js';
+
+export interface CashierStats {
+  cashierId: string;
+  name: string;
+  salesCount: number;
+  // Sales totals as paid, VAT included
+  revenue: number;
+  averageBasket: number;
+  itemsSold: number;
+  itemsPerTransaction: number;
+  // Sales this user voided, whoever rang them up
+  voidCount: number;
+  voidValue: number;
+  returnsProcessed: number;
+  refundValue: number;
+  // Manual line and cart discounts only - promotions apply themselves
+  discountCount: number;
+  discountValue: number;
+  // Discounts as a percentage of sales before discounts
+  discountRate: number;
+  loyaltyRedemptions: number;
+  pointsRedeemed: number;
+}
+
+export interface CashierReport {
+  cashiers: CashierStats[];
+  // Everyone combined; its discount rate is what each cashier is compared against
+  totals: CashierStats;
+}
+
+// A cashier is flagged when their discount rate is well above the team's
+const HIGH_DISCOUNT_FACTOR = 2;
+
+const emptyStats = (cashierId: string, name: string): CashierStats => ({
+  cashierId,
+  name,
+  salesCount: 0,
+  revenue: 0,
+  averageBasket: 0,
+  itemsSold: 0,
+  itemsPerTransaction: 0,
+  voidCount: 0,
+  voidValue: 0,
+  returnsProcessed: 0,
+  refundValue: 0,
+  discountCount: 0,
+  discountValue: 0,
+  discountRate: 0,
+  loyaltyRedemptions: 0,
+  pointsRedeemed: 0,
+});
+
+// Voids are credited to whoever voided the sale; everything else to the cashier who rang it up
+const cashierOf = (transaction: Transaction, names: Map<string, string>): { id: string; name: string } => {
+  const isVoid = transaction.type === 'sale' && transaction.status === 'cancelled';
+  const cashier = (isVoid && transaction.voidedBy) || transaction.cashier;
+  if (typeof cashier === 'object' && cashier) {
+    const id = cashier._id || cashier.id || cashier.name;
+    return { id, name: cashier.name };
+  }
+  return { id: cashier || 'unknown', name: (cashier && names.get(cashier)) || 'Unknown cashier' };
+};
+
+const manualDiscountOf = (transaction: Transaction): number =>
+  roundMoney(
+    transaction.items.reduce((sum, item) => sum + (item.appliedDiscount?.amount || 0), 0) +
+      (transaction.cartDiscount?.amount || 0)
+  );
+
+const finalize = (stats: CashierStats): CashierStats => ({
+  ...stats,
+  averageBasket: stats.salesCount > 0 ? roundMoney(stats.revenue / stats.salesCount) : 0,
+  itemsPerTransaction: stats.salesCount > 0 ? stats.itemsSold / stats.salesCount : 0,
+  discountRate: stats.revenue + stats.discountValue > 0
+    ? (stats.discountValue / (stats.revenue + stats.discountValue)) * 100
+    : 0,
+});
+
+export const buildCashierReport = (transactions: Transaction[], users: User[] = []): CashierReport => {
+  const names = new Map<string, string>();
+  users.forEach((user) => {
+    const id = user._id || user.id;
+    if (id) names.set(id, user.name);
+  });
+
+  const byCashier = new Map<string, CashierStats>();
+  const totals = emptyStats('all', 'All cashiers');
+
+  const add = (stats: CashierStats, transaction: Transaction) => {
+    const isReturn = transaction.type === 'return' || transaction.type === 'refund';
+    if (transaction.type === 'sale' && transaction.status === 'cancelled') {
+      stats.voidCount += 1;
+      stats.voidValue = roundMoney(stats.voidValue + transaction.total);
+    } else if (transaction.type === 'sale') {
+      const discount = manualDiscountOf(transaction);
+      stats.salesCount += 1;
+      stats.revenue = roundMoney(stats.revenue + transaction.total);
+      stats.itemsSold += transaction.items.reduce((sum, item) => sum + item.quantity, 0);
+      if (discount > 0) {
+        stats.discountCount += 1;
+        stats.discountValue = roundMoney(stats.discountValue + discount);
+      }
+      if (transaction.loyaltyPointsRedeemed) {
+        stats.loyaltyRedemptions += 1;
+        stats.pointsRedeemed += transaction.loyaltyPointsRedeemed;
+      }
+    } else if (isReturn && transaction.status !== 'cancelled') {
+      stats.returnsProcessed += 1;
+      stats.refundValue = roundMoney(stats.refundValue + transaction.total);
+    }
+  };
+
+  transactions.forEach((transaction) => {
+    const { id, name } = cashierOf(transaction, names);
+    const stats = byCashier.get(id) || emptyStats(id, name);
+    add(stats, transaction);
+    add(totals, transaction);
+    byCashier.set(id, stats);
+  });
+
+  return {
+    cashiers: Array.from(byCashier.values())
+      .map(finalize)
+      .sort((a, b) => b.revenue - a.revenue),
+    totals: finalize(totals),
+  };
+};
+
+export const hasHighDiscountRate = (stats: CashierStats, averageDiscountRate: number): boolean =>
+  averageDiscountRate > 0 && stats.discountRate > averageDiscountRate * HIGH_DISCOUNT_FACTOR;
@@ -0,0 +1,224 @@
+import { parseISO, isValid, startOfDay, startOfHour, startOfMonth, startOfWeek } from 'date-fns';
+import type { Product, Transaction } from '../../types/index.js';
+import type { ReportGroupBy } from '../../services/reportService.js';
+import { roundMoney } from '../pos/tenders.js';
+import { paidPerLine } from '../returns/returnCalc.js';
+import { formatPeriodLabel } from './reportRanges.js';
+
+export type ProfitDimension = 'product' | 'category' | 'brand' | 'store' | 'period';
+
+export const PROFIT_DIMENSION_LABELS: Record<ProfitDimension, string> = {
+  product: 'Product',
+  category: 'Category',
+  brand: 'Brand',
+  store: 'Store',
+  period: 'Period',
+};
+
+export interface ProfitTotals {
+  quantity: number;
+  // Net of discounts, loyalty redemption and VAT, less returns
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  // Percentage of revenue; undefined when there was no revenue
+  margin?: number;
+}
+
+export interface ProfitRow extends ProfitTotals {
+  key: string;
+  label: string;
+  sublabel?: string;
+  // Units sold for less than they cost
+  belowCostQuantity: number;
+}
+
+export interface BelowCostLine {
+  transactionId: string;
+  transactionNumber: string;
+  date?: string;
+  product: string;
+  sku?: string;
+  quantity: number;
+  unitRevenue: number;
+  unitCost: number;
+  loss: number;
+}
+
+export interface ProfitReport {
+  totals: ProfitTotals;
+  rows: ProfitRow[];
+  belowCost: BelowCostLine[];
+  // Lines with no cost on record, counted as zero cost
+  missingCostLines: number;
+}
+
+interface LineFact {
+  transaction: Transaction;
+  product?: Product;
+  productId: string;
+  quantity: number;
+  revenue: number;
+  cogs: number;
+  belowCostQuantity: number;
+}
+
+const marginOf = (revenue: number, grossProfit: number): number | undefined =>
+  revenue > 0 ? (grossProfit / revenue) * 100 : undefined;
+
+const periodStart = (date: Date, groupBy: ReportGroupBy): Date => {
+  switch (groupBy) {
+    case 'hour':
+      return startOfHour(date);
+    case 'day':
+      return startOfDay(date);
+    case 'week':
+      return startOfWeek(date, { weekStartsOn: 6 });
+    case 'month':
+      return startOfMonth(date);
+  }
+};
+
+const storeOf = (transaction: Transaction): { id: string; name: string } =>
+  typeof transaction.store === 'object'
+    ? { id: transaction.store._id, name: transaction.store.name }
+    : { id: transaction.store, name: 'Store' };
+
+const dimensionKey = (
+  fact: LineFact,
+  dimension: ProfitDimension,
+  groupBy: ReportGroupBy
+): { key: string; label: string; sublabel?: string } => {
+  switch (dimension) {
+    case 'product':
+      return { key: fact.productId, label: fact.product?.name || 'Product', sublabel: fact.product?.sku };
+    case 'category': {
+      const category = fact.product?.category || 'Uncategorised';
+      return { key: category, label: category };
+    }
+    case 'brand': {
+      const brand = fact.product?.brand || 'No brand';
+      return { key: brand, label: brand };
+    }
+    case 'store': {
+      const store = storeOf(fact.transaction);
+      return { key: store.id, label: store.name };
+    }
+    case 'period': {
+      const date = parseISO(fact.transaction.createdAt || '');
+      if (!isValid(date)) return { key: 'unknown', label: 'Unknown date' };
+      const key = periodStart(date, groupBy).toISOString();
+      return { key, label: formatPeriodLabel(key, groupBy) };
+    }
+  }
+};
+
+// Sales add revenue and cost; returns take back the revenue refunded and, for goods that went
+// back on the shelf, their cost. Written-off returns keep their cost as a loss.
+export const buildProfitReport = (
+  transactions: Transaction[],
+  dimension: ProfitDimension,
+  groupBy: ReportGroupBy
+): ProfitReport => {
+  const facts: LineFact[] = [];
+  const belowCost: BelowCostLine[] = [];
+  let missingCostLines = 0;
+
+  transactions
+    .filter((t) => t.status !== 'cancelled' && (t.type === 'sale' || t.type === 'return' || t.type === 'refund'))
+    .forEach((transaction) => {
+      const isSale = transaction.type === 'sale';
+      const paid = isSale ? paidPerLine(transaction) : [];
+
+      transaction.items.forEach((item, index) => {
+        const product = typeof item.product === 'object' ? item.product : undefined;
+        const productId = typeof item.product === 'object' ? item.product._id : item.product;
+        const unitCost = item.unitCost ?? product?.cost;
+        if (unitCost === undefined) missingCostLines += 1;
+        const cost = roundMoney((unitCost || 0) * item.quantity);
+
+        if (isSale) {
+          const revenue = roundMoney(paid[index] - item.tax);
+          const unitRevenue = item.quantity > 0 ? revenue / item.quantity : 0;
+          const soldBelowCost = unitCost !== undefined && unitRevenue < unitCost;
+          if (soldBelowCost) {
+            belowCost.push({
+              transactionId: transaction._id,
+              transactionNumber: transaction.transactionNumber,
+              date: transaction.createdAt,
+              product: product?.name || 'Product',
+              sku: product?.sku,
+              quantity: item.quantity,
+              unitRevenue: roundMoney(unitRevenue),
+              unitCost,
+              loss: roundMoney(cost - revenue),
+            });
+          }
+          facts.push({
+            transaction,
+            product,
+            productId,
+            quantity: item.quantity,
+            revenue,
+            cogs: cost,
+            belowCostQuantity: soldBelowCost ? item.quantity : 0,
+          });
+        } else {
+          // Return lines carry the refund with VAT in `subtotal`
+          facts.push({
+            transaction,
+            product,
+            productId,
+            quantity: -item.quantity,
+            revenue: -roundMoney(item.subtotal - item.tax),
+            cogs: item.disposition === 'write_off' ? 0 : -cost,
+            belowCostQuantity: 0,
+          });
+        }
+      });
+    });
+
+  const rows = new Map<string, ProfitRow>();
+  facts.forEach((fact) => {
+    const { key, label, sublabel } = dimensionKey(fact, dimension, groupBy);
+    const row = rows.get(key) || {
+      key,
+      label,
+      sublabel,
+      quantity: 0,
+      revenue: 0,
+      cogs: 0,
+      grossProfit: 0,
+      belowCostQuantity: 0,
+    };
+    row.quantity += fact.quantity;
+    row.revenue = roundMoney(row.revenue + fact.revenue);
+    row.cogs = roundMoney(row.cogs + fact.cogs);
+    row.belowCostQuantity += fact.belowCostQuantity;
+    rows.set(key, row);
+  });
+
+  const rowList = Array.from(rows.values()).map((row) => {
+    const grossProfit = roundMoney(row.revenue - row.cogs);
+    return { ...row, grossProfit, margin: marginOf(row.revenue, grossProfit) };
+  });
+  // Periods read best in date order, everything else by what earned the most
+  rowList.sort((a, b) => (dimension === 'period' ? a.key.localeCompare(b.key) : b.revenue - a.revenue));
+
+  const revenue = roundMoney(facts.reduce((sum, fact) => sum + fact.revenue, 0));
+  const cogs = roundMoney(facts.reduce((sum, fact) => sum + fact.cogs, 0));
+  const grossProfit = roundMoney(revenue - cogs);
+
+  return {
+    totals: {
+      quantity: facts.reduce((sum, fact) => sum + fact.quantity, 0),
+      revenue,
+      cogs,
+      grossProfit,
+      margin: marginOf(revenue, grossProfit),
+    },
+    rows: rowList,
+    belowCost: belowCost.sort((a, b) => b.loss - a.loss),
+    missingCostLines,
+  };
+};
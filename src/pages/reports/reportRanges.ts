@@ -0,0 +1,138 @@
+import {
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInHours,
+  endOfDay,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+  subMonths,
+  subWeeks,
+} from 'date-fns';
+import type { ReportGroupBy, ReportParams } from '../../services/reportService.js';
+
+export type DatePreset = 'today' | 'week' | 'mtd' | 'custom';
+
+export interface ReportFilterState {
+  preset: DatePreset;
+  // yyyy-MM-dd, only used for the custom preset
+  customStart: string;
+  customEnd: string;
+  // Admins can pick a store; empty means all stores
+  store: string;
+  groupBy: ReportGroupBy;
+}
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+  today: 'Today',
+  week: 'This Week',
+  mtd: 'Month to Date',
+  custom: 'Custom Range',
+};
+
+export const GROUP_BY_LABELS: Record<ReportGroupBy, string> = {
+  hour: 'Hourly',
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+export const defaultReportFilters = (): ReportFilterState => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  return { preset: 'mtd', customStart: today, customEnd: today, store: '', groupBy: 'day' };
+};
+
+// Changes at midnight; pages memoise their range on it so 'Today' doesn't go stale
+export const todayKey = (): string => format(new Date(), 'yyyy-MM-dd');
+
+export const resolveRange = (filters: ReportFilterState, now = new Date()): DateRange => {
+  switch (filters.preset) {
+    case 'today':
+      return { start: startOfDay(now), end: endOfDay(now) };
+    case 'week':
+      return { start: startOfWeek(now, { weekStartsOn: 6 }), end: endOfDay(now) }; // week starts Saturday in Bangladesh
+    case 'mtd':
+      return { start: startOfMonth(now), end: endOfDay(now) };
+    case 'custom': {
+      const start = parseISO(filters.customStart);
+      const end = parseISO(filters.customEnd);
+      return {
+        start: startOfDay(isValid(start) ? start : now),
+        end: endOfDay(isValid(end) ? end : now),
+      };
+    }
+  }
+};
+
+// The period just before, of the same length - yesterday, last week so far, last month to the same day
+export const previousRange = (filters: ReportFilterState, range: DateRange): DateRange => {
+  switch (filters.preset) {
+    case 'today':
+      return { start: subDays(range.start, 1), end: subDays(range.end, 1) };
+    case 'week':
+      return { start: subWeeks(range.start, 1), end: subWeeks(range.end, 1) };
+    case 'mtd':
+      return { start: subMonths(range.start, 1), end: subMonths(range.end, 1) };
+    case 'custom': {
+      const days = differenceInCalendarDays(range.end, range.start) + 1;
+      return { start: subDays(range.start, days), end: subDays(range.end, days) };
+    }
+  }
+};
+
+// Position of a report bucket from the start of its range (hours, days, weeks or months in),
+// so the same bucket of two periods can be matched even when one has gaps
+export const periodOffset = (date: string, groupBy: ReportGroupBy, rangeStart: Date): number | undefined => {
+  const parsed = parseISO(date);
+  if (!isValid(parsed)) return undefined;
+  switch (groupBy) {
+    case 'hour':
+      return differenceInHours(parsed, rangeStart);
+    case 'day':
+      return differenceInCalendarDays(parsed, rangeStart);
+    case 'week':
+      return Math.floor(differenceInCalendarDays(parsed, rangeStart) / 7);
+    case 'month':
+      return differenceInCalendarMonths(parsed, rangeStart);
+  }
+};
+
+export const toReportParams = (range: DateRange, store?: string): ReportParams => ({
+  startDate: format(range.start, 'yyyy-MM-dd'),
+  endDate: format(range.end, 'yyyy-MM-dd'),
+  store: store || undefined,
+});
+
+export const formatRange = (range: DateRange): string => {
+  const start = format(range.start, 'dd MMM yyyy');
+  const end = format(range.end, 'dd MMM yyyy');
+  return start === end ? start : `${start} - ${end}`;
+};
+
+export const formatPeriodLabel = (date: string, groupBy: ReportGroupBy): string => {
+  const parsed = parseISO(date);
+  if (!isValid(parsed)) return date;
+  switch (groupBy) {
+    case 'hour':
+      return format(parsed, 'dd MMM HH:00');
+    case 'day':
+      return format(parsed, 'dd MMM');
+    case 'week':
+      return `Week of ${format(parsed, 'dd MMM')}`;
+    case 'month':
+      return format(parsed, 'MMM yyyy');
+  }
+};
+
+// Percentage change from the previous period; undefined when there is nothing to compare against
+export const percentChange = (current: number, previous: number): number | undefined =>
+  previous === 0 ? undefined : ((current - previous) / previous) * 100;
@@ -0,0 +1,405 @@
+import { useState, useMemo, useRef, FormEvent, ChangeEvent, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { useSearchParams, Link } from 'react-router-dom';
+import { useAuthStore } from '../../store/authStore.js';
+import { useShiftStore } from '../../store/shiftStore.js';
+import { transactionService } from '../../services/transactionService.js';
+import { generateIdempotencyKey } from '../../services/offlineSync.js';
+import type { Product, Transaction } from '../../types/index.js';
+import Receipt from '../pos/Receipt.js';
+import {
+  allocateRefundToTenders,
+  buildReturnLines,
+  calculateReturnTotals,
+  loyaltyPointsToReverse,
+} from './returnCalc.js';
+import type { Disposition, ReturnSelection } from './returnCalc.js';
+
+const RETURN_REASONS = ['Defective / damaged', 'Wrong item', 'Customer changed mind', 'Expired', 'Other'];
+
+const Returns = () => {
+  const { user } = useAuthStore();
+  const { currentShift } = useShiftStore();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+
+  const transactionNumber = searchParams.get('number') || '';
+  const [lookupInput, setLookupInput] = useState(transactionNumber);
+  const [selections, setSelections] = useState<Record<string, ReturnSelection>>({});
+  const [reason, setReason] = useState(RETURN_REASONS[0]);
+  const [reasonNotes, setReasonNotes] = useState('');
+  const [error, setError] = useState('');
+  const [returnReceipt, setReturnReceipt] = useState<Transaction | null>(null);
+  const lookupInputRef = useRef<HTMLInputElement>(null);
+  // One key per return attempt so a double-click or retry can't refund twice
+  const idempotencyKeyRef = useRef(generateIdempotencyKey());
+
+  useEffect(() => {
+    setLookupInput(transactionNumber);
+    setSelections({});
+    setError('');
+  }, [transactionNumber]);
+
+  // A changed return is a new attempt - only an identical resubmit may reuse the key
+  useEffect(() => {
+    idempotencyKeyRef.current = generateIdempotencyKey();
+  }, [transactionNumber, selections, reason, reasonNotes]);
+
+  const { data: originalData, isLoading: isLookingUp, error: lookupError } = useQuery(
+    ['transaction-lookup', transactionNumber],
+    () => transactionService.getTransactionByNumber(transactionNumber),
+    { enabled: !!transactionNumber, retry: false }
+  );
+  const original = originalData?.data?.transaction;
+
+  const { data: relatedData } = useQuery(
+    ['related-transactions', original?._id],
+    () => transactionService.getRelatedTransactions(original!._id),
+    { enabled: !!original }
+  );
+  const priorReturns = relatedData?.data?.transactions || [];
+
+  const lines = useMemo(
+    () => (original ? buildReturnLines(original, priorReturns) : []),
+    [original, priorReturns]
+  );
+
+  const totals = useMemo(
+    () => calculateReturnTotals(lines, selections, !!original?.taxInclusive),
+    [lines, selections, original?.taxInclusive]
+  );
+
+  const isFinalReturn = lines.length > 0 && lines.every(
+    (line) => (selections[line.product]?.quantity || 0) === line.returnable
+  );
+  const refund = original ? allocateRefundToTenders(original, priorReturns, totals.total) : null;
+  const pointsReversed = original ? loyaltyPointsToReverse(original, priorReturns, totals.total, isFinalReturn) : 0;
+
+  const lookupProblem = !original
+    ? null
+    : original.type !== 'sale'
+    ? 'Only sales can be returned'
+    : original.status === 'cancelled'
+    ? 'This sale was voided'
+    : original.status === 'pending'
+    ? 'This sale has not synced yet - try again once it is online'
+    : lines.every((line) => line.returnable === 0)
+    ? 'Every item on this sale has already been returned'
+    : null;
+
+  const createReturnMutation = useMutation(
+    () => {
+      const customer = original!.customer;
+      return transactionService.createReturn({
+        relatedTransaction: original!._id,
+        store: storeId!,
+        shift: currentShift?._id,
+        items: totals.items,
+        subtotal: totals.subtotal,
+        discount: totals.discount,
+        tax: totals.tax,
+        total: totals.total,
+        paymentMethod: refund!.paymentMethod,
+        paymentDetails: refund!.paymentDetails,
+        customer: typeof customer === 'object' && customer && '_id' in customer ? customer._id : typeof customer === 'string' ? customer : undefined,
+        returnReason: reasonNotes.trim() ? `${reason}: ${reasonNotes.trim()}` : reason,
+        loyaltyPointsReversed: pointsReversed || undefined,
+      }, idempotencyKeyRef.current);
+    },
+    {
+      onSuccess: (data) => {
+        const transaction = data.data.transaction;
+        // Fill in product names when the server returns bare ids
+        transaction.items = transaction.items.map((item) => {
+          if (typeof item.product === 'object') return item;
+          const line = lines.find((l) => l.product === item.product);
+          return { ...item, product: { _id: item.product, name: line?.name || 'Product', sku: line?.sku } as Product };
+        });
+        transaction.relatedTransaction = transaction.relatedTransaction || original;
+        setReturnReceipt(transaction);
+        setSelections({});
+        setReasonNotes('');
+        queryClient.invalidateQueries(['related-transactions', original?._id]);
+        queryClient.invalidateQueries('transactions');
+        queryClient.invalidateQueries('inventory');
+        queryClient.invalidateQueries('sales-report');
+        queryClient.invalidateQueries(['shift-transactions', currentShift?._id]);
+      },
+      onError: (err: any) => {
+        setError(err.response?.data?.message || 'Failed to process return');
+      },
+    }
+  );
+
+  const handleLookup = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const value = lookupInput.trim();
+    if (value) setSearchParams({ number: value });
+  };
+
+  const updateSelection = (product: string, changes: Partial<ReturnSelection>) => {
+    const current = selections[product] || { quantity: 0, disposition: 'restock' as Disposition };
+    setSelections({ ...selections, [product]: { ...current, ...changes } });
+  };
+
+  const selectAll = () => {
+    const all: Record<string, ReturnSelection> = {};
+    lines.forEach((line) => {
+      all[line.product] = { quantity: line.returnable, disposition: selections[line.product]?.disposition || 'restock' };
+    });
+    setSelections(all);
+  };
+
+  const handleSubmit = () => {
+    setError('');
+    if (totals.items.length === 0) {
+      setError('Select at least one item to return');
+      return;
+    }
+    if (reason === 'Other' && !reasonNotes.trim()) {
+      setError('Please describe the reason for the return');
+      return;
+    }
+    if ((refund?.paymentDetails.cashAmount || 0) > 0 && !currentShift) {
+      setError('Open a shift before paying out a cash refund');
+      return;
+    }
+    if (!window.confirm(`Refund ৳${totals.total.toFixed(2)} to the customer?`)) return;
+    createReturnMutation.mutate();
+  };
+
+  const formatCurrency = (amount: number) => `৳${amount.toFixed(2)}`;
+
+  if (!storeId) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">No store assigned. Please contact administrator.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-mercellus">Returns & Refunds</h1>
+        <Link to="/transactions" className="text-blue-600 hover:text-blue-800">
+          ← Back to Transactions
+        </Link>
+      </div>
+
+      {/* Lookup */}
+      <form onSubmit={handleLookup} className="bg-white p-4 rounded-lg shadow flex gap-2">
+        <input
+          ref={lookupInputRef}
+          type="text"
+          autoFocus
+          placeholder="Scan receipt barcode or enter transaction number..."
+          value={lookupInput}
+          onChange={(e: ChangeEvent<HTMLInputElement>) => setLookupInput(e.target.value)}
+          className="flex-1 px-4 py-3 text-lg border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button type="submit" className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          Find Sale
+        </button>
+      </form>
+
+      {isLookingUp && <div>Loading...</div>}
+
+      {!!lookupError && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {(lookupError as any).response?.status === 404
+            ? `No transaction found with number ${transactionNumber}`
+            : (lookupError as any).response?.data?.message || 'Failed to look up transaction'}
+        </div>
+      )}
+
+      {original && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            <div className="p-4 border-b flex justify-between items-center">
+              <div>
+                <h2 className="text-xl font-mercellus">Sale #{original.transactionNumber}</h2>
+                <p className="text-sm text-gray-500">
+                  {original.createdAt && new Date(original.createdAt).toLocaleString()} · {formatCurrency(original.total)} ·{' '}
+                  <span className="capitalize">{original.paymentMethod.replace('_', ' ')}</span>
+                </p>
+              </div>
+              {!lookupProblem && (
+                <button onClick={selectAll} className="text-sm text-blue-600 hover:text-blue-800">
+                  Return all
+                </button>
+              )}
+            </div>
+
+            {lookupProblem && (
+              <div className="m-4 bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded">
+                {lookupProblem}
+              </div>
+            )}
+
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sold</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Returned</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paid / Unit</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Return Qty</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Stock</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {lines.map((line) => (
+                  <tr key={line.product} className={line.returnable === 0 ? 'opacity-50' : ''}>
+                    <td className="px-4 py-3">
+                      <div className="text-sm font-medium text-gray-900">{line.name}</div>
+                      {line.sku && <div className="text-xs text-gray-500">{line.sku}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{line.sold}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{line.alreadyReturned}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{formatCurrency(line.unitRefund)}</td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        max={line.returnable}
+                        disabled={!!lookupProblem || line.returnable === 0}
+                        value={selections[line.product]?.quantity || 0}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                          const quantity = Math.min(Math.max(0, parseInt(e.target.value) || 0), line.returnable);
+                          updateSelection(line.product, { quantity });
+                        }}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                      />
+                      <span className="text-xs text-gray-500 ml-1">/ {line.returnable}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={selections[line.product]?.disposition || 'restock'}
+                        disabled={!!lookupProblem || line.returnable === 0}
+                        onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+                          updateSelection(line.product, { disposition: e.target.value as Disposition })
+                        }
+                        className="px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="restock">Restock</option>
+                        <option value="write_off">Write off</option>
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {priorReturns.length > 0 && (
+              <div className="p-4 border-t text-sm text-gray-600">
+                Previous returns:{' '}
+                {priorReturns.map((t) => `#${t.transactionNumber} (${formatCurrency(t.total)})`).join(', ')}
+              </div>
+            )}
+          </div>
+
+          {/* Refund summary */}
+          <div className="bg-white p-6 rounded-lg shadow space-y-4 h-fit">
+            <h2 className="text-xl font-mercellus">Refund</h2>
+
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Items:</span>
+                <span>{totals.items.reduce((sum, item) => sum + item.quantity, 0)}</span>
+              </div>
+              {totals.tax > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">VAT refunded:</span>
+                  <span>{formatCurrency(totals.tax)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg font-bold pt-2 border-t">
+                <span>Refund Total:</span>
+                <span>{formatCurrency(totals.total)}</span>
+              </div>
+              {refund && totals.total > 0 && (
+                <>
+                  {refund.paymentDetails.cashAmount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Cash:</span>
+                      <span>{formatCurrency(refund.paymentDetails.cashAmount)}</span>
+                    </div>
+                  )}
+                  {refund.paymentDetails.cardAmount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Card:</span>
+                      <span>{formatCurrency(refund.paymentDetails.cardAmount)}</span>
+                    </div>
+                  )}
+                  {refund.paymentDetails.mobileAmount > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Mobile:</span>
+                      <span>{formatCurrency(refund.paymentDetails.mobileAmount)}</span>
+                    </div>
+                  )}
+                </>
+              )}
+              {pointsReversed > 0 && (
+                <div className="flex justify-between text-orange-600">
+                  <span>Loyalty points reversed:</span>
+                  <span>-{pointsReversed}</span>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <select
+                value={reason}
+                onChange={(e: ChangeEvent<HTMLSelectElement>) => setReason(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 mb-2"
+              >
+                {RETURN_REASONS.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+              <textarea
+                placeholder="Notes"
+                value={reasonNotes}
+                onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setReasonNotes(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <button
+              onClick={handleSubmit}
+              disabled={!!lookupProblem || totals.items.length === 0 || createReturnMutation.isLoading}
+              className="w-full bg-red-600 text-white py-3 px-4 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+            >
+              {createReturnMutation.isLoading ? 'Processing...' : 'Process Return'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {returnReceipt && (
+        <Receipt
+          transaction={returnReceipt}
+          storeName={typeof user?.store === 'object' ? user.store.name : undefined}
+          storeCode={typeof user?.store === 'object' ? user.store.code : undefined}
+          onClose={() => {
+            setReturnReceipt(null);
+            lookupInputRef.current?.focus();
+          }}
+          onPrint={() => window.print()}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Returns;
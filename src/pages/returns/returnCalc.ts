@@ -0,0 +1,166 @@
+import type { Transaction } from '../../types/index.js';
+import type { ReturnItemData } from '../../services/transactionService.js';
+import { roundMoney } from '../pos/tenders.js';
+import { allocateProportionally } from '../pos/vat.js';
+
+export type Disposition = ReturnItemData['disposition'];
+
+export interface ReturnLine {
+  product: string;
+  name: string;
+  sku?: string;
+  price: number;
+  taxRate?: number;
+  sold: number;
+  alreadyReturned: number;
+  returnable: number;
+  // What the customer actually paid per unit, after every discount and with VAT
+  unitRefund: number;
+  unitTax: number;
+  unitCost?: number;
+}
+
+export interface ReturnSelection {
+  quantity: number;
+  disposition: Disposition;
+}
+
+export interface ReturnTotals {
+  items: ReturnItemData[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+}
+
+const productIdOf = (product: Transaction['items'][number]['product']): string =>
+  typeof product === 'object' ? product._id : product;
+
+// Prior returns that still count - a cancelled return gave nothing back
+const activeReturns = (priorReturns: Transaction[]): Transaction[] =>
+  priorReturns.filter((t) => t.status !== 'cancelled' && (t.type === 'return' || t.type === 'refund'));
+
+// What the customer actually paid for each line, with VAT, after every discount.
+// Loyalty redemption is the part of the transaction discount not explained by
+// line and cart discounts; it is spread over the lines in proportion to their value
+export const paidPerLine = (transaction: Transaction): number[] => {
+  const taxInclusive = !!transaction.taxInclusive;
+  const paid = transaction.items.map((item) =>
+    roundMoney((item.taxableAmount ?? item.subtotal) + (taxInclusive ? 0 : item.tax))
+  );
+  const lineDiscounts = transaction.items.reduce((sum, item) => sum + (item.discount || 0), 0);
+  const loyaltyDiscount = Math.max(
+    0,
+    roundMoney(transaction.discount - lineDiscounts - (transaction.cartDiscount?.amount || 0))
+  );
+  const loyaltyShares = allocateProportionally(loyaltyDiscount, paid);
+  return paid.map((amount, index) => roundMoney(amount - loyaltyShares[index]));
+};
+
+export const buildReturnLines = (original: Transaction, priorReturns: Transaction[]): ReturnLine[] => {
+  // Refunds are capped at what was paid, so a line never gives back more than it took
+  const paid = paidPerLine(original);
+
+  const returned = new Map<string, number>();
+  activeReturns(priorReturns).forEach((t) => {
+    t.items.forEach((item) => {
+      const id = productIdOf(item.product);
+      returned.set(id, (returned.get(id) || 0) + item.quantity);
+    });
+  });
+
+  return original.items.map((item, index) => {
+    const id = productIdOf(item.product);
+    const alreadyReturned = returned.get(id) || 0;
+    return {
+      product: id,
+      name: typeof item.product === 'object' ? item.product.name : 'Product',
+      sku: typeof item.product === 'object' ? item.product.sku : undefined,
+      price: item.price,
+      taxRate: item.taxRate,
+      sold: item.quantity,
+      alreadyReturned,
+      returnable: Math.max(0, item.quantity - alreadyReturned),
+      unitRefund: paid[index] / item.quantity,
+      unitTax: item.tax / item.quantity,
+      unitCost: item.unitCost ?? (typeof item.product === 'object' ? item.product.cost : undefined),
+    };
+  });
+};
+
+export const calculateReturnTotals = (
+  lines: ReturnLine[],
+  selections: Record<string, ReturnSelection>,
+  taxInclusive: boolean
+): ReturnTotals => {
+  const items: ReturnItemData[] = lines
+    .filter((line) => (selections[line.product]?.quantity || 0) > 0)
+    .map((line) => {
+      const { quantity, disposition } = selections[line.product];
+      const gross = roundMoney(line.price * quantity);
+      const refund = roundMoney(line.unitRefund * quantity);
+      const tax = roundMoney(line.unitTax * quantity);
+      return {
+        product: line.product,
+        quantity,
+        price: line.price,
+        discount: Math.max(0, roundMoney(gross + (taxInclusive ? 0 : tax) - refund)),
+        tax,
+        subtotal: refund,
+        taxRate: line.taxRate,
+        disposition,
+        unitCost: line.unitCost,
+      };
+    });
+
+  const subtotal = roundMoney(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  const discount = roundMoney(items.reduce((sum, item) => sum + item.discount, 0));
+  const tax = roundMoney(items.reduce((sum, item) => sum + item.tax, 0));
+  const total = roundMoney(items.reduce((sum, item) => sum + item.subtotal, 0));
+  return { items, subtotal, discount, tax, total };
+};
+
+// Refunds go back on the original tenders, pro rata to what each still has left
+// after earlier refunds against the same sale
+export const allocateRefundToTenders = (
+  original: Transaction,
+  priorReturns: Transaction[],
+  refundTotal: number
+): Pick<Transaction, 'paymentMethod' | 'paymentDetails'> => {
+  const prior = activeReturns(priorReturns);
+  const priorSum = (pick: (t: Transaction) => number) => prior.reduce((sum, t) => sum + pick(t), 0);
+  const details = original.paymentDetails;
+
+  const available = [
+    Math.max(0, (details?.cashAmount || 0) - (details?.change || 0) - priorSum((t) => t.paymentDetails?.cashAmount || 0)),
+    Math.max(0, (details?.cardAmount || 0) - priorSum((t) => t.paymentDetails?.cardAmount || 0)),
+    Math.max(0, (details?.mobileAmount || 0) - priorSum((t) => t.paymentDetails?.mobileAmount || 0)),
+  ];
+  const [cashAmount, cardAmount, mobileAmount] = allocateProportionally(refundTotal, available);
+
+  const methods: Array<Transaction['paymentMethod']> = [];
+  if (cashAmount > 0) methods.push('cash');
+  if (cardAmount > 0) methods.push('card');
+  if (mobileAmount > 0) methods.push('mobile_payment');
+
+  return {
+    paymentMethod: methods.length === 1 ? methods[0] : methods.length > 1 ? 'mixed' : original.paymentMethod,
+    paymentDetails: { cashAmount, cardAmount, mobileAmount, change: 0 },
+  };
+};
+
+// Points earned on the sale are taken back in proportion to the amount refunded;
+// the final return against a sale takes back whatever is left
+export const loyaltyPointsToReverse = (
+  original: Transaction,
+  priorReturns: Transaction[],
+  refundTotal: number,
+  isFinalReturn: boolean
+): number => {
+  const earned = original.loyaltyPointsEarned || 0;
+  const alreadyReversed = activeReturns(priorReturns).reduce((sum, t) => sum + (t.loyaltyPointsReversed || 0), 0);
+  const remaining = Math.max(0, earned - alreadyReversed);
+  if (remaining === 0 || original.total <= 0) return 0;
+  if (isFinalReturn) return remaining;
+  return Math.min(remaining, Math.floor((earned * refundTotal) / original.total));
+};
@@ -0,0 +1,40 @@
+import { ChangeEvent } from 'react';
+import { BDT_DENOMINATIONS, countCash } from './cashCount.js';
+
+interface DenominationCountProps {
+  counts: Record<string, number>;
+  onChange: (counts: Record<string, number>) => void;
+}
+
+const DenominationCount = ({ counts, onChange }: DenominationCountProps) => {
+  const handleCountChange = (note: number, value: string) => {
+    const quantity = Math.max(0, parseInt(value) || 0);
+    onChange({ ...counts, [note]: quantity });
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2">
+        {BDT_DENOMINATIONS.map((note) => (
+          <div key={note} className="flex items-center gap-2">
+            <label className="w-16 text-sm font-medium text-gray-700 text-right">৳{note} ×</label>
+            <input
+              type="number"
+              min="0"
+              value={counts[note] || ''}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => handleCountChange(note, e.target.value)}
+              className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 text-sm"
+            />
+            <span className="text-sm text-gray-500">৳{(note * (counts[note] || 0)).toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-3 pt-2 border-t font-semibold">
+        <span>Counted Total:</span>
+        <span>৳{countCash(counts).toFixed(2)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DenominationCount;
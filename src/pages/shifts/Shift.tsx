@@ -0,0 +1,348 @@
+import { useState, FormEvent, ChangeEvent, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { useAuthStore } from '../../store/authStore.js';
+import { useShiftStore } from '../../store/shiftStore.js';
+import { shiftService } from '../../services/shiftService.js';
+import { offlineSync } from '../../services/offlineSync.js';
+import type { Shift as ShiftType, Transaction } from '../../types/index.js';
+import DenominationCount from './DenominationCount.js';
+import ZReport from './ZReport.js';
+import { countCash, summarizeShiftCash } from './cashCount.js';
+import type { ShiftCashSummary } from './cashCount.js';
+
+interface OfflineTransactionRecord {
+  id: string;
+  syncId: string;
+  transaction: Transaction;
+}
+
+const Shift = () => {
+  const { user } = useAuthStore();
+  const { currentShift, setShift, clearShift } = useShiftStore();
+  const queryClient = useQueryClient();
+  const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+  const storeName = typeof user?.store === 'object' ? user.store.name : undefined;
+
+  const [floatCounts, setFloatCounts] = useState<Record<string, number>>({});
+  const [movementType, setMovementType] = useState<'drop' | 'payout'>('drop');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [closingCounts, setClosingCounts] = useState<Record<string, number>>({});
+  const [closingNotes, setClosingNotes] = useState('');
+  const [error, setError] = useState('');
+  const [zReport, setZReport] = useState<{ shift: ShiftType; summary: ShiftCashSummary } | null>(null);
+
+  const shiftId = currentShift?._id;
+
+  const { data: shiftTransactions = [] } = useQuery(
+    ['shift-transactions', shiftId],
+    () => shiftService.getShiftTransactions(shiftId!),
+    { enabled: !!shiftId && offlineSync.isOnline() }
+  );
+
+  // Sales rung up offline during this shift are still in the drawer, even before they sync
+  const { data: offlineTransactions = [] } = useQuery(
+    ['shift-offline-transactions', shiftId],
+    async () => {
+      const records: OfflineTransactionRecord[] = (await offlineSync.getOffline('transactions')) || [];
+      return records
+        .map((record) => record.transaction)
+        .filter((transaction) => transaction.shift === shiftId);
+    },
+    { enabled: !!shiftId, refetchInterval: 5000 }
+  );
+
+  const summary = useMemo(() => {
+    if (!currentShift) return null;
+    const transactions = [...shiftTransactions, ...offlineTransactions];
+    return summarizeShiftCash(currentShift, transactions);
+  }, [currentShift, shiftTransactions, offlineTransactions]);
+
+  const countedCash = countCash(closingCounts);
+  const variance = summary ? Math.round((countedCash - summary.expectedCash) * 100) / 100 : 0;
+
+  const openShiftMutation = useMutation(
+    () => {
+      if (!storeId) throw new Error('No store ID');
+      return shiftService.openShift({
+        store: storeId,
+        openingFloat: countCash(floatCounts),
+        denominationCounts: floatCounts,
+      });
+    },
+    {
+      onSuccess: (data) => {
+        setShift(data.data.shift);
+        setFloatCounts({});
+        setError('');
+        queryClient.invalidateQueries(['current-shift', storeId]);
+      },
+      onError: (err: any) => {
+        setError(err.response?.data?.message || 'Failed to open shift');
+      },
+    }
+  );
+
+  const cashMovementMutation = useMutation(
+    () => shiftService.addCashMovement(shiftId!, {
+      type: movementType,
+      amount: parseFloat(movementAmount),
+      reason: movementReason.trim(),
+    }),
+    {
+      onSuccess: (data) => {
+        setShift(data.data.shift);
+        setMovementAmount('');
+        setMovementReason('');
+        setError('');
+      },
+      onError: (err: any) => {
+        setError(err.response?.data?.message || 'Failed to record cash movement');
+      },
+    }
+  );
+
+  const closeShiftMutation = useMutation(
+    () => shiftService.closeShift(shiftId!, {
+      countedCash,
+      expectedCash: summary!.expectedCash,
+      denominationCounts: closingCounts,
+      closingNotes: closingNotes.trim() || undefined,
+    }),
+    {
+      onSuccess: (data) => {
+        setZReport({ shift: data.data.shift, summary: summary! });
+        clearShift();
+        setClosingCounts({});
+        setClosingNotes('');
+        setError('');
+        queryClient.invalidateQueries(['current-shift', storeId]);
+      },
+      onError: (err: any) => {
+        setError(err.response?.data?.message || 'Failed to close shift');
+      },
+    }
+  );
+
+  const handleOpenShift = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    openShiftMutation.mutate();
+  };
+
+  const handleCashMovement = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const amount = parseFloat(movementAmount);
+    if (!(amount > 0)) {
+      setError('Amount must be greater than 0');
+      return;
+    }
+    if (!movementReason.trim()) {
+      setError('Please enter a reason');
+      return;
+    }
+    if (summary && amount > summary.expectedCash) {
+      setError('Amount exceeds the expected cash in the drawer');
+      return;
+    }
+    cashMovementMutation.mutate();
+  };
+
+  const handleCloseShift = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (offlineTransactions.length > 0) {
+      setError('Sync the pending offline sales for this shift before closing it');
+      return;
+    }
+    if (variance !== 0 && !closingNotes.trim()) {
+      setError('Please explain the cash variance in the closing notes');
+      return;
+    }
+    if (!window.confirm(`Close shift with ৳${countedCash.toFixed(2)} counted?`)) return;
+    closeShiftMutation.mutate();
+  };
+
+  const formatCurrency = (amount: number) => `৳${amount.toFixed(2)}`;
+
+  if (!storeId) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">No store assigned. Please contact administrator.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-mercellus text-gray-800">Cash Register Shift</h1>
+        {currentShift && (
+          <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-semibold">
+            Open since {new Date(currentShift.openedAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {!currentShift ? (
+        <form onSubmit={handleOpenShift} className="bg-white p-6 rounded-lg shadow max-w-xl">
+          <h2 className="text-xl font-mercellus text-gray-800 mb-2">Open Shift</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Count the opening float placed in the drawer.
+          </p>
+          <DenominationCount counts={floatCounts} onChange={setFloatCounts} />
+          <button
+            type="submit"
+            disabled={openShiftMutation.isLoading}
+            className="w-full mt-4 px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 font-semibold"
+          >
+            {openShiftMutation.isLoading ? 'Opening...' : `Open Shift with ${formatCurrency(countCash(floatCounts))}`}
+          </button>
+        </form>
+      ) : (
+        summary && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-6">
+              {/* Drawer summary */}
+              <div className="bg-white p-6 rounded-lg shadow">
+                <h2 className="text-xl font-mercellus text-gray-800 mb-4">Drawer</h2>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Opening Float:</span>
+                    <span>{formatCurrency(summary.openingFloat)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Cash Sales ({summary.salesCount} sales):</span>
+                    <span>+{formatCurrency(summary.cashSales)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Cash Refunds:</span>
+                    <span>-{formatCurrency(summary.cashRefunds)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Cash Drops:</span>
+                    <span>-{formatCurrency(summary.drops)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Pay-outs:</span>
+                    <span>-{formatCurrency(summary.payouts)}</span>
+                  </div>
+                  <div className="flex justify-between pt-2 border-t text-lg font-bold">
+                    <span>Expected Cash:</span>
+                    <span>{formatCurrency(summary.expectedCash)}</span>
+                  </div>
+                  {offlineTransactions.length > 0 && (
+                    <p className="text-xs text-orange-600">
+                      Includes {offlineTransactions.length} offline sale(s) waiting to sync.
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {/* Drops and pay-outs */}
+              <div className="bg-white p-6 rounded-lg shadow">
+                <h2 className="text-xl font-mercellus text-gray-800 mb-4">Cash Drop / Pay-out</h2>
+                <form onSubmit={handleCashMovement} className="space-y-3">
+                  <div className="flex gap-2">
+                    <select
+                      value={movementType}
+                      onChange={(e: ChangeEvent<HTMLSelectElement>) => setMovementType(e.target.value as 'drop' | 'payout')}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="drop">Cash Drop</option>
+                      <option value="payout">Pay-out</option>
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Amount"
+                      value={movementAmount}
+                      onChange={(e: ChangeEvent<HTMLInputElement>) => setMovementAmount(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <input
+                    type="text"
+                    placeholder={movementType === 'drop' ? 'e.g. Moved to safe' : 'e.g. Delivery charge paid'}
+                    value={movementReason}
+                    onChange={(e: ChangeEvent<HTMLInputElement>) => setMovementReason(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={cashMovementMutation.isLoading}
+                    className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {cashMovementMutation.isLoading ? 'Saving...' : 'Record'}
+                  </button>
+                </form>
+
+                {currentShift.cashMovements.length > 0 && (
+                  <ul className="mt-4 divide-y text-sm">
+                    {currentShift.cashMovements.map((movement, index) => (
+                      <li key={movement._id || index} className="flex justify-between py-2">
+                        <span>
+                          <span className="font-medium">{movement.type === 'drop' ? 'Drop' : 'Pay-out'}</span>
+                          <span className="text-gray-500"> - {movement.reason}</span>
+                        </span>
+                        <span>{formatCurrency(movement.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            {/* Close shift */}
+            <form onSubmit={handleCloseShift} className="bg-white p-6 rounded-lg shadow">
+              <h2 className="text-xl font-mercellus text-gray-800 mb-2">Close Shift</h2>
+              <p className="text-sm text-gray-600 mb-4">Count the cash in the drawer by denomination.</p>
+              <DenominationCount counts={closingCounts} onChange={setClosingCounts} />
+              <div className="mt-4 space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Expected Cash:</span>
+                  <span>{formatCurrency(summary.expectedCash)}</span>
+                </div>
+                <div className={`flex justify-between font-bold ${variance === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  <span>{variance < 0 ? 'Short:' : variance > 0 ? 'Over:' : 'Balanced'}</span>
+                  <span>{variance !== 0 && formatCurrency(Math.abs(variance))}</span>
+                </div>
+              </div>
+              <textarea
+                placeholder="Closing notes (required when the drawer is over or short)"
+                value={closingNotes}
+                onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setClosingNotes(e.target.value)}
+                rows={3}
+                className="w-full mt-4 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={closeShiftMutation.isLoading}
+                className="w-full mt-4 px-4 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 font-semibold"
+              >
+                {closeShiftMutation.isLoading ? 'Closing...' : 'Close Shift & Print Z-Report'}
+              </button>
+            </form>
+          </div>
+        )
+      )}
+
+      {zReport && (
+        <ZReport
+          shift={zReport.shift}
+          summary={zReport.summary}
+          storeName={storeName}
+          onClose={() => setZReport(null)}
+          onPrint={() => window.print()}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Shift;
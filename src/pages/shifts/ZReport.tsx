@@ -0,0 +1,187 @@
+import type { Shift } from '../../types/index.js';
+import { BDT_DENOMINATIONS } from './cashCount.js';
+import type { ShiftCashSummary } from './cashCount.js';
+
+interface ZReportProps {
+  shift: Shift;
+  summary: ShiftCashSummary;
+  storeName?: string;
+  onClose: () => void;
+  onPrint: () => void;
+}
+
+const ZReport = ({ shift, summary, storeName, onClose, onPrint }: ZReportProps) => {
+  const formatDate = (date: string | undefined) => {
+    if (!date) return 'N/A';
+    return new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return `৳${amount.toFixed(2)}`;
+  };
+
+  const countedCash = shift.countedCash ?? 0;
+  const variance = shift.variance ?? countedCash - summary.expectedCash;
+
+  const Row = ({ label, value, bold }: { label: string; value: string; bold?: boolean }) => (
+    <div className={`flex justify-between text-sm ${bold ? 'font-semibold' : ''}`}>
+      <span className={bold ? '' : 'text-gray-600'}>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full flex justify-center items-center z-50 print:hidden">
+        <div className="bg-white rounded-lg shadow-xl max-w-md w-full m-4 max-h-[90vh] overflow-y-auto">
+          <div className="flex justify-between items-center p-4 border-b sticky top-0 bg-white z-10">
+            <h2 className="text-xl font-mercellus text-gray-800">Z-Report</h2>
+            <div className="flex space-x-2">
+              <button
+                onClick={onPrint}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Print
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400 transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+
+          <div id="zreport-content" className="p-6 space-y-4">
+            <div className="text-center">
+              <h1 className="text-2xl font-mercellus font-bold mb-1">Z-Report</h1>
+              {storeName && <p className="text-lg font-semibold">{storeName}</p>}
+              <p className="text-xs text-gray-500 mt-1">Shift #{shift._id.slice(-6).toUpperCase()}</p>
+            </div>
+
+            <div className="border-t border-b border-gray-300 py-2 space-y-1">
+              <Row
+                label="Cashier:"
+                value={typeof shift.cashier === 'object' ? shift.cashier.name : 'N/A'}
+              />
+              <Row label="Opened:" value={formatDate(shift.openedAt)} />
+              <Row label="Closed:" value={formatDate(shift.closedAt)} />
+            </div>
+
+            <div className="space-y-1">
+              <h3 className="text-sm font-bold uppercase">Sales</h3>
+              <Row label="Transactions:" value={String(summary.salesCount)} />
+              <Row label="Gross Sales:" value={formatCurrency(summary.grossSales)} />
+              <Row label="Discounts:" value={`-${formatCurrency(summary.discounts)}`} />
+              <Row label="Tax:" value={formatCurrency(summary.tax)} />
+              <Row label="Net Sales:" value={formatCurrency(summary.netSales)} bold />
+              <Row label={`Returns/Refunds (${summary.refundCount}):`} value={`-${formatCurrency(summary.refundTotal)}`} />
+              <Row label="Voided:" value={String(summary.cancelledCount)} />
+            </div>
+
+            <div className="border-t border-gray-300 pt-2 space-y-1">
+              <h3 className="text-sm font-bold uppercase">Payments</h3>
+              <Row label="Cash (net of change):" value={formatCurrency(summary.cashSales)} />
+              <Row label="Card:" value={formatCurrency(summary.cardTotal)} />
+              <Row label="Mobile:" value={formatCurrency(summary.mobileTotal)} />
+            </div>
+
+            <div className="border-t border-gray-300 pt-2 space-y-1">
+              <h3 className="text-sm font-bold uppercase">Cash Drawer</h3>
+              <Row label="Opening Float:" value={formatCurrency(summary.openingFloat)} />
+              <Row label="+ Cash Sales:" value={formatCurrency(summary.cashSales)} />
+              <Row label="- Cash Refunds:" value={formatCurrency(summary.cashRefunds)} />
+              <Row label="- Cash Drops:" value={formatCurrency(summary.drops)} />
+              <Row label="- Pay-outs:" value={formatCurrency(summary.payouts)} />
+              <Row label="Expected Cash:" value={formatCurrency(summary.expectedCash)} bold />
+              <Row label="Counted Cash:" value={formatCurrency(countedCash)} bold />
+              <div className={`flex justify-between text-sm font-bold ${variance === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                <span>Over/Short:</span>
+                <span>{variance > 0 ? '+' : ''}{formatCurrency(variance)}</span>
+              </div>
+            </div>
+
+            {shift.denominationCounts && (
+              <div className="border-t border-gray-300 pt-2">
+                <h3 className="text-sm font-bold uppercase mb-1">Count</h3>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {BDT_DENOMINATIONS.filter((note) => (shift.denominationCounts?.[note] || 0) > 0).map((note) => (
+                      <tr key={note}>
+                        <td>৳{note} × {shift.denominationCounts?.[note]}</td>
+                        <td className="text-right">{formatCurrency(note * (shift.denominationCounts?.[note] || 0))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {shift.cashMovements.length > 0 && (
+              <div className="border-t border-gray-300 pt-2">
+                <h3 className="text-sm font-bold uppercase mb-1">Drops & Pay-outs</h3>
+                {shift.cashMovements.map((movement, index) => (
+                  <Row
+                    key={movement._id || index}
+                    label={`${movement.type === 'drop' ? 'Drop' : 'Pay-out'}: ${movement.reason}`}
+                    value={formatCurrency(movement.amount)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {shift.closingNotes && (
+              <p className="text-xs text-gray-600 border-t border-gray-300 pt-2">
+                <strong>Notes:</strong> {shift.closingNotes}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Print Styles */}
+      <style>{`
+        @media print {
+          @page {
+            size: 80mm auto;
+            margin: 0;
+          }
+
+          body * {
+            visibility: hidden;
+          }
+
+          #zreport-content,
+          #zreport-content * {
+            visibility: visible;
+          }
+
+          #zreport-content {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 80mm;
+            padding: 5mm;
+            background: white;
+            font-size: 11px;
+          }
+
+          button,
+          .print\\:hidden,
+          .print\\:hidden * {
+            display: none !important;
+            visibility: hidden !important;
+          }
+        }
+      `}</style>
+    </>
+  );
+};
+
+export default ZReport;
@@ -0,0 +1,64 @@
+import { roundMoney } from '../pos/tenders.js';
+import type { Shift, Transaction } from '../../types/index.js';
+
+// BDT notes and coins in circulation, largest first
+export const BDT_DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 2, 1];
+
+export interface ShiftCashSummary {
+  openingFloat: number;
+  cashSales: number;
+  cashRefunds: number;
+  drops: number;
+  payouts: number;
+  expectedCash: number;
+  salesCount: number;
+  grossSales: number;
+  discounts: number;
+  tax: number;
+  netSales: number;
+  cardTotal: number;
+  mobileTotal: number;
+  refundCount: number;
+  refundTotal: number;
+  cancelledCount: number;
+}
+
+export const countCash = (counts: Record<string, number>): number =>
+  roundMoney(BDT_DENOMINATIONS.reduce((sum, note) => sum + note * (counts[note] || 0), 0));
+
+// Cash actually kept in the drawer for a transaction (tendered minus change given back)
+const netCash = (transaction: Transaction): number =>
+  (transaction.paymentDetails?.cashAmount || 0) - (transaction.paymentDetails?.change || 0);
+
+export const summarizeShiftCash = (shift: Shift, transactions: Transaction[]): ShiftCashSummary => {
+  const active = transactions.filter((t) => t.status !== 'cancelled');
+  const sales = active.filter((t) => t.type === 'sale');
+  const refunds = active.filter((t) => t.type === 'return' || t.type === 'refund');
+
+  const sum = (items: Transaction[], pick: (t: Transaction) => number) =>
+    roundMoney(items.reduce((total, t) => total + pick(t), 0));
+
+  const cashSales = sum(sales, netCash);
+  const cashRefunds = sum(refunds, netCash);
+  const drops = roundMoney(shift.cashMovements.filter((m) => m.type === 'drop').reduce((t, m) => t + m.amount, 0));
+  const payouts = roundMoney(shift.cashMovements.filter((m) => m.type === 'payout').reduce((t, m) => t + m.amount, 0));
+
+  return {
+    openingFloat: shift.openingFloat,
+    cashSales,
+    cashRefunds,
+    drops,
+    payouts,
+    expectedCash: roundMoney(shift.openingFloat + cashSales - cashRefunds - drops - payouts),
+    salesCount: sales.length,
+    grossSales: sum(sales, (t) => t.subtotal),
+    discounts: sum(sales, (t) => t.discount),
+    tax: sum(sales, (t) => t.tax),
+    netSales: sum(sales, (t) => t.total),
+    cardTotal: sum(sales, (t) => t.paymentDetails?.cardAmount || 0),
+    mobileTotal: sum(sales, (t) => t.paymentDetails?.mobileAmount || 0),
+    refundCount: refunds.length,
+    refundTotal: sum(refunds, (t) => t.total),
+    cancelledCount: transactions.length - active.length,
+  };
+};
@@ -0,0 +1,520 @@
+import { useState, useRef, useEffect, FormEvent, ChangeEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../store/authStore.js';
+import { isNetworkError } from '../../services/api.js';
+import { stocktakeService } from '../../services/stocktakeService.js';
+import { generateIdempotencyKey } from '../../services/offlineSync.js';
+import { productIdOf, productNameOf } from '../purchasing/purchaseOrders.js';
+import {
+  findLineByCode,
+  getDeviceId,
+  isCounted,
+  lineVariance,
+  scopeDescription,
+  STOCKTAKE_STATUS_BADGES,
+  STOCKTAKE_STATUS_LABELS,
+  summarizeVariances,
+  varianceValue,
+} from './stocktake.js';
+import type { StocktakeCountData, StocktakeResponse } from '../../services/stocktakeService.js';
+import type { StocktakeLine } from '../../types/index.js';
+
+type LineFilter = 'all' | 'uncounted' | 'variance';
+
+const LINE_FILTER_LABELS: Record<LineFilter, string> = {
+  all: 'All',
+  uncounted: 'Not Counted',
+  variance: 'Variances',
+};
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  started: 'Started',
+  counted: 'Counted',
+  submitted: 'Counting finished',
+  reopened: 'Reopened',
+  approved: 'Approved and posted',
+  cancelled: 'Cancelled',
+};
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const nameOf = (value: unknown): string | undefined =>
+  value && typeof value === 'object' && 'name' in value ? (value as { name?: string }).name : undefined;
+
+const StocktakeSession = () => {
+  const { id } = useParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const canCount = canManage || user?.role === 'staff';
+
+  const [code, setCode] = useState('');
+  const [scanQuantity, setScanQuantity] = useState(1);
+  const [lastScan, setLastScan] = useState<{ name: string; quantity: number; total?: number } | null>(null);
+  const [lineFilter, setLineFilter] = useState<LineFilter>('all');
+  const [zeroUncounted, setZeroUncounted] = useState(false);
+  const [approvalNotes, setApprovalNotes] = useState('');
+  const [error, setError] = useState('');
+  const codeInputRef = useRef<HTMLInputElement>(null);
+  const approveKeyRef = useRef(generateIdempotencyKey());
+
+  const { data, isLoading } = useQuery(['stocktake', id], () => stocktakeService.getStocktake(id!), {
+    enabled: !!id && canCount,
+    // Pick up counts from the other devices while counting is open
+    refetchInterval: (response) => (response?.data?.stocktake?.status === 'counting' ? 10 * 1000 : false), // 10 seconds
+  });
+  const stocktake = data?.data?.stocktake;
+
+  // Approving different options, or a session that was reopened and recounted since,
+  // is a new request - only an identical resubmit may reuse the key
+  useEffect(() => {
+    approveKeyRef.current = generateIdempotencyKey();
+  }, [zeroUncounted, approvalNotes, stocktake?.status, stocktake?.updatedAt]);
+
+  const applyResponse = (response: StocktakeResponse) => {
+    queryClient.setQueryData(['stocktake', id], response);
+    queryClient.invalidateQueries('stocktakes');
+  };
+
+  const onMutationError = (err: any) => setError(err.response?.data?.message || 'Failed to update stocktake');
+
+  // The key is made once per scan by the caller, so a retry of the same request is
+  // recognised while repeated scans of the same product still count separately
+  const countMutation = useMutation(
+    ({ entries, idempotencyKey }: { entries: StocktakeCountData['entries']; idempotencyKey: string }) =>
+      stocktakeService.recordCounts(id!, { device: getDeviceId(), entries }, idempotencyKey),
+    {
+      onSuccess: (response, { entries }) => {
+        applyResponse(response);
+        setError('');
+        if (entries[0].mode !== 'add') return;
+        const line = response.data.stocktake.lines.find((l) => productIdOf(l.product) === entries[0].product);
+        setLastScan({
+          name: line ? productNameOf(line.product) : 'Product',
+          quantity: entries[0].quantity,
+          total: line?.countedQuantity,
+        });
+      },
+      onError: onMutationError,
+      // Only when the request may not have arrived; the server's answers stand
+      retry: (failureCount, error) => failureCount < 1 && isNetworkError(error),
+    }
+  );
+
+  const submitMutation = useMutation(() => stocktakeService.submitStocktake(id!), {
+    onSuccess: applyResponse,
+    onError: onMutationError,
+  });
+
+  const reopenMutation = useMutation(() => stocktakeService.reopenStocktake(id!), {
+    onSuccess: applyResponse,
+    onError: onMutationError,
+  });
+
+  const cancelMutation = useMutation((reason: string) => stocktakeService.cancelStocktake(id!, reason), {
+    onSuccess: applyResponse,
+    onError: onMutationError,
+  });
+
+  const approveMutation = useMutation(
+    () =>
+      stocktakeService.approveStocktake(
+        id!,
+        { zeroUncounted, notes: approvalNotes.trim() || undefined },
+        approveKeyRef.current
+      ),
+    {
+      onSuccess: (response) => {
+        applyResponse(response);
+        queryClient.invalidateQueries('inventory');
+        setError('');
+      },
+      onError: onMutationError,
+    }
+  );
+
+  if (!canCount) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">You don't have access to stocktakes.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!stocktake) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600 mb-4">Stocktake not found</p>
+        <Link to="/stocktakes" className="text-blue-600 hover:text-blue-800">
+          ← Back to Stocktakes
+        </Link>
+      </div>
+    );
+  }
+
+  const isCounting = stocktake.status === 'counting';
+  const isReview = stocktake.status === 'review';
+  // Counters don't see the system quantity so it can't steer their count
+  const showVariances = canManage && stocktake.status !== 'counting';
+  const summary = summarizeVariances(stocktake.lines, isReview && zeroUncounted);
+
+  const handleScan = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+    const line = findLineByCode(stocktake.lines, code);
+    if (!line) {
+      setError(`${code.trim() || 'That code'} is not part of this count`);
+    } else if (scanQuantity <= 0) {
+      setError('Quantity must be greater than 0');
+    } else {
+      countMutation.mutate({
+        entries: [{ product: productIdOf(line.product), quantity: scanQuantity, mode: 'add' }],
+        idempotencyKey: generateIdempotencyKey(),
+      });
+    }
+    setCode('');
+    setScanQuantity(1);
+    codeInputRef.current?.focus();
+  };
+
+  const handleCorrect = (line: StocktakeLine) => {
+    const input = window.prompt(
+      `Total counted for ${productNameOf(line.product)} (replaces every device's count)`,
+      line.countedQuantity !== undefined ? String(line.countedQuantity) : ''
+    );
+    if (input === null || input.trim() === '') return;
+    const quantity = Number(input);
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      setError('Enter a whole number of 0 or more');
+      return;
+    }
+    countMutation.mutate({
+      entries: [{ product: productIdOf(line.product), quantity, mode: 'set' }],
+      idempotencyKey: generateIdempotencyKey(),
+    });
+  };
+
+  const handleCancel = () => {
+    const reason = window.prompt(`Why is ${stocktake.stocktakeNumber} being cancelled?`);
+    if (reason && reason.trim()) {
+      cancelMutation.mutate(reason.trim());
+    }
+  };
+
+  const handleApprove = () => {
+    const message =
+      summary.withVariance === 0
+        ? 'No variances to post. Approve this stocktake?'
+        : `Post ${summary.withVariance} adjustment(s) with a net value of ${formatCurrency(summary.netValue)}?`;
+    if (window.confirm(message)) {
+      approveMutation.mutate();
+    }
+  };
+
+  const lines = stocktake.lines.filter((line) => {
+    if (lineFilter === 'uncounted') return !isCounted(line);
+    if (lineFilter === 'variance') return lineVariance(line, isReview && zeroUncounted) !== 0;
+    return true;
+  });
+
+  return (
+    <div>
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-mercellus">{stocktake.stocktakeNumber}</h1>
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STOCKTAKE_STATUS_BADGES[stocktake.status]}`}>
+              {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+            </span>
+          </div>
+          <p className="text-gray-600">
+            {typeof stocktake.store === 'object' && `${stocktake.store.name} · `}
+            {scopeDescription(stocktake)}
+          </p>
+          <Link to="/stocktakes" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to Stocktakes
+          </Link>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            {isCounting && (
+              <button
+                onClick={() => submitMutation.mutate()}
+                disabled={submitMutation.isLoading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                Finish Counting
+              </button>
+            )}
+            {isReview && (
+              <button
+                onClick={() => reopenMutation.mutate()}
+                disabled={reopenMutation.isLoading}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Reopen Counting
+              </button>
+            )}
+            {(isCounting || isReview) && (
+              <button
+                onClick={handleCancel}
+                disabled={cancelMutation.isLoading}
+                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Counting */}
+      {isCounting && (
+        <div className="bg-white p-6 rounded-lg shadow mb-6">
+          <form onSubmit={handleScan} className="flex flex-wrap gap-4 items-end">
+            <div className="flex-1 min-w-[200px]">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Scan barcode or enter SKU</label>
+              <input
+                ref={codeInputRef}
+                type="text"
+                value={code}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+                autoFocus
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
+              <input
+                type="number"
+                value={scanQuantity || ''}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setScanQuantity(Number(e.target.value))}
+                min="1"
+                className="w-24 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={countMutation.isLoading}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              Add Count
+            </button>
+          </form>
+          {lastScan && (
+            <p className="mt-3 text-sm text-green-700">
+              +{lastScan.quantity} {lastScan.name}
+              {lastScan.total !== undefined && ` (total counted: ${lastScan.total})`}
+            </p>
+          )}
+          <p className="mt-3 text-xs text-gray-500">
+            Counts from every device on this stocktake add up. Device {getDeviceId()} · {summary.counted} of{' '}
+            {summary.lines} products counted.
+          </p>
+        </div>
+      )}
+
+      {/* Variance summary */}
+      {showVariances && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+          <div className="bg-white p-6 rounded-lg shadow">
+            <p className="text-sm text-gray-600">Counted</p>
+            <p className="text-2xl font-bold">
+              {summary.counted} / {summary.lines}
+            </p>
+          </div>
+          <div className="bg-white p-6 rounded-lg shadow">
+            <p className="text-sm text-gray-600">Shortages</p>
+            <p className="text-2xl font-bold text-red-600">{formatCurrency(summary.shortValue)}</p>
+            <p className="text-xs text-gray-500">{summary.shortUnits} units</p>
+          </div>
+          <div className="bg-white p-6 rounded-lg shadow">
+            <p className="text-sm text-gray-600">Overages</p>
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(summary.overValue)}</p>
+            <p className="text-xs text-gray-500">{summary.overUnits} units</p>
+          </div>
+          <div className="bg-white p-6 rounded-lg shadow">
+            <p className="text-sm text-gray-600">Net Cost Impact</p>
+            <p className={`text-2xl font-bold ${summary.netValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatCurrency(summary.netValue)}
+            </p>
+            <p className="text-xs text-gray-500">{summary.withVariance} products with a variance</p>
+          </div>
+        </div>
+      )}
+
+      {/* Approval */}
+      {isReview && canManage && (
+        <div className="bg-white p-6 rounded-lg shadow mb-6">
+          <h2 className="text-2xl font-mercellus mb-4">Approve & Post</h2>
+          {summary.counted < summary.lines && (
+            <div className="mb-4 p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded">
+              {summary.lines - summary.counted} product(s) were not counted.
+              <label className="flex items-center mt-2">
+                <input
+                  type="checkbox"
+                  checked={zeroUncounted}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setZeroUncounted(e.target.checked)}
+                  className="mr-2"
+                />
+                Post uncounted products as zero (otherwise their stock is left unchanged)
+              </label>
+            </div>
+          )}
+          <div className="flex gap-4 items-end">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <input
+                type="text"
+                value={approvalNotes}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setApprovalNotes(e.target.value)}
+                placeholder="Recorded on every adjustment posted"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={handleApprove}
+              disabled={approveMutation.isLoading}
+              className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              {approveMutation.isLoading ? 'Posting...' : 'Approve & Post Adjustments'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Lines */}
+      <div className="bg-white p-6 rounded-lg shadow mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-mercellus">Products</h2>
+          <div className="flex gap-2">
+            {(Object.keys(LINE_FILTER_LABELS) as LineFilter[])
+              .filter((value) => value !== 'variance' || showVariances)
+              .map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setLineFilter(value)}
+                  className={`px-3 py-1.5 rounded-lg text-sm ${
+                    lineFilter === value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {LINE_FILTER_LABELS[value]}
+                </button>
+              ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                {showVariances && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">System</th>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted</th>
+                {showVariances && (
+                  <>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost Impact</th>
+                  </>
+                )}
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Count</th>
+                {(isCounting || (isReview && canManage)) && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {lines.map((line) => {
+                const variance = lineVariance(line, isReview && zeroUncounted);
+                return (
+                  <tr key={productIdOf(line.product)} className={showVariances && variance !== 0 ? 'bg-yellow-50' : ''}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{productNameOf(line.product)}</div>
+                      {typeof line.product === 'object' && (
+                        <div className="text-sm text-gray-500">{line.product.sku}</div>
+                      )}
+                    </td>
+                    {showVariances && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.systemQuantity}</td>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {isCounted(line) ? line.countedQuantity : <span className="text-gray-400">-</span>}
+                    </td>
+                    {showVariances && (
+                      <>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${variance < 0 ? 'text-red-600' : variance > 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                          {variance > 0 ? '+' : ''}
+                          {variance}
+                        </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm ${variance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                          {variance !== 0 ? formatCurrency(varianceValue(line, isReview && zeroUncounted)) : '-'}
+                        </td>
+                      </>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {line.lastCountedAt ? format(new Date(line.lastCountedAt), 'HH:mm') : '-'}
+                      {nameOf(line.lastCountedBy) && ` · ${nameOf(line.lastCountedBy)}`}
+                    </td>
+                    {(isCounting || (isReview && canManage)) && (
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <button onClick={() => handleCorrect(line)} className="text-blue-600 hover:text-blue-800">
+                          {isCounted(line) ? 'Correct' : 'Enter Count'}
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {lines.length === 0 && <p className="p-8 text-center text-gray-600">Nothing to show</p>}
+        </div>
+      </div>
+
+      {/* Audit trail */}
+      {canManage && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-2xl font-mercellus mb-4">Audit Trail</h2>
+          {stocktake.auditLog.length === 0 ? (
+            <p className="text-gray-600">No activity yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {stocktake.auditLog
+                .slice()
+                .reverse()
+                .map((entry, index) => (
+                  <li key={index} className="py-2 flex justify-between text-sm">
+                    <div>
+                      <span className="font-medium text-gray-900">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</span>
+                      {entry.details && <span className="text-gray-600"> - {entry.details}</span>}
+                    </div>
+                    <div className="text-gray-500 text-right">
+                      {format(new Date(entry.at), 'dd MMM yyyy HH:mm')}
+                      {nameOf(entry.user) && ` · ${nameOf(entry.user)}`}
+                      {entry.device && ` · device ${entry.device}`}
+                    </div>
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StocktakeSession;
@@ -0,0 +1,335 @@
+import { useState, FormEvent, ChangeEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import api from '../../services/api.js';
+import { useAuthStore } from '../../store/authStore.js';
+import { stocktakeService } from '../../services/stocktakeService.js';
+import {
+  scopeDescription,
+  STOCKTAKE_SCOPE_LABELS,
+  STOCKTAKE_STATUS_BADGES,
+  STOCKTAKE_STATUS_LABELS,
+  summarizeVariances,
+} from './stocktake.js';
+import type { StartStocktakeData } from '../../services/stocktakeService.js';
+import type { Inventory, Store, StocktakeScope } from '../../types/index.js';
+
+interface StoresResponse {
+  success: boolean;
+  data: {
+    stores: Store[];
+  };
+}
+
+interface CategoriesResponse {
+  success: boolean;
+  data: {
+    categories: string[];
+  };
+}
+
+interface InventoryResponse {
+  success: boolean;
+  data: {
+    inventory: Inventory[];
+  };
+}
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500';
+
+const formatCurrency = (amount: number) =>
+  `৳${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const Stocktakes = () => {
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === 'admin';
+  const canManage = isAdmin || user?.role === 'manager';
+  const canCount = canManage || user?.role === 'staff';
+  const userStoreId = typeof user?.store === 'object' ? user.store._id : user?.store || '';
+
+  const [showForm, setShowForm] = useState(false);
+  const [store, setStore] = useState(userStoreId);
+  const [scope, setScope] = useState<StocktakeScope>('store');
+  const [category, setCategory] = useState('');
+  const [location, setLocation] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const { data: storesData } = useQuery<StoresResponse>(
+    'stores',
+    async () => {
+      const response = await api.get<StoresResponse>('/stores');
+      return response.data;
+    },
+    { enabled: isAdmin, staleTime: 10 * 60 * 1000 } // 10 minutes
+  );
+
+  const { data, isLoading } = useQuery(
+    ['stocktakes', isAdmin ? 'all' : userStoreId],
+    () => stocktakeService.getStocktakes({ store: isAdmin ? undefined : userStoreId || undefined }),
+    { enabled: canCount }
+  );
+
+  const { data: categoriesData } = useQuery<CategoriesResponse>(
+    ['categories', store],
+    async () => {
+      const response = await api.get<CategoriesResponse>('/products/categories', { params: { store } });
+      return response.data;
+    },
+    { enabled: showForm && scope === 'category' && !!store }
+  );
+
+  const { data: inventoryData } = useQuery<InventoryResponse>(
+    ['inventory', store],
+    async () => {
+      const response = await api.get<InventoryResponse>(`/inventory/store/${store}`);
+      return response.data;
+    },
+    { enabled: showForm && scope === 'location' && !!store }
+  );
+
+  const locations = Array.from(
+    new Set((inventoryData?.data?.inventory || []).map((item) => item.location).filter((l): l is string => !!l))
+  ).sort();
+
+  const startMutation = useMutation(
+    (stocktakeData: StartStocktakeData) => stocktakeService.startStocktake(stocktakeData),
+    {
+      onSuccess: (response) => {
+        queryClient.invalidateQueries('stocktakes');
+        navigate(`/stocktakes/${response.data.stocktake._id}`);
+      },
+      onError: (err: any) => {
+        setError(err.response?.data?.message || 'Failed to start stocktake');
+      },
+    }
+  );
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError('');
+    if (!store) {
+      setError('Choose the store to count');
+      return;
+    }
+    if (scope === 'category' && !category) {
+      setError('Choose the category to count');
+      return;
+    }
+    if (scope === 'location' && !location) {
+      setError('Choose the location to count');
+      return;
+    }
+    startMutation.mutate({
+      store,
+      scope,
+      category: scope === 'category' ? category : undefined,
+      location: scope === 'location' ? location : undefined,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  if (!canCount) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">You don't have access to stocktakes.</p>
+      </div>
+    );
+  }
+
+  const stocktakes = data?.data?.stocktakes || [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-mercellus">Stocktakes</h1>
+        {canManage && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            {showForm ? 'Cancel' : '+ Start Count'}
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="bg-white p-6 rounded-lg shadow mb-6">
+          <h2 className="text-xl font-mercellus mb-4">Start a Count</h2>
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {isAdmin && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Store <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={store}
+                    onChange={(e: ChangeEvent<HTMLSelectElement>) => {
+                      setStore(e.target.value);
+                      setCategory('');
+                      setLocation('');
+                    }}
+                    className={inputClass}
+                  >
+                    <option value="">Select Store</option>
+                    {storesData?.data?.stores?.map((s) => (
+                      <option key={s._id} value={s._id}>
+                        {s.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Count</label>
+                <select
+                  value={scope}
+                  onChange={(e: ChangeEvent<HTMLSelectElement>) => setScope(e.target.value as StocktakeScope)}
+                  className={inputClass}
+                >
+                  {(Object.keys(STOCKTAKE_SCOPE_LABELS) as StocktakeScope[]).map((value) => (
+                    <option key={value} value={value}>
+                      {STOCKTAKE_SCOPE_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {scope === 'category' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Category <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={category}
+                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setCategory(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Select Category</option>
+                    {categoriesData?.data?.categories?.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {scope === 'location' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Location <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    value={location}
+                    onChange={(e: ChangeEvent<HTMLSelectElement>) => setLocation(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Select Location</option>
+                    {locations.map((l) => (
+                      <option key={l} value={l}>
+                        {l}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setNotes(e.target.value)}
+                placeholder="e.g. Quarterly count"
+                className={inputClass}
+              />
+            </div>
+            <p className="text-sm text-gray-600">
+              System quantities are captured when the count starts. Sales made during the count are not subtracted,
+              so count while the area is quiet.
+            </p>
+            <button
+              type="submit"
+              disabled={startMutation.isLoading}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {startMutation.isLoading ? 'Starting...' : 'Start Count'}
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Count #</th>
+              {isAdmin && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Store</th>
+              )}
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scope</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+              {canManage && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Net Variance</th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {stocktakes.map((stocktake) => {
+              const summary = summarizeVariances(stocktake.lines);
+              return (
+                <tr key={stocktake._id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <Link to={`/stocktakes/${stocktake._id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                      {stocktake.stocktakeNumber}
+                    </Link>
+                    {stocktake.createdAt && (
+                      <div className="text-gray-500">{format(new Date(stocktake.createdAt), 'dd MMM yyyy')}</div>
+                    )}
+                  </td>
+                  {isAdmin && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {typeof stocktake.store === 'object' ? stocktake.store.name : '-'}
+                    </td>
+                  )}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{scopeDescription(stocktake)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STOCKTAKE_STATUS_BADGES[stocktake.status]}`}>
+                      {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {summary.counted} / {summary.lines} counted
+                  </td>
+                  {canManage && (
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${summary.netValue < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                      {formatCurrency(summary.netValue)}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {!isLoading && stocktakes.length === 0 && (
+          <div className="p-8 text-center">
+            <p className="text-gray-600">No stocktakes yet</p>
+          </div>
+        )}
+        {isLoading && <div className="p-8 text-center text-gray-600">Loading...</div>}
+      </div>
+    </div>
+  );
+};
+
+export default Stocktakes;
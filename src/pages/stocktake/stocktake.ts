@@ -0,0 +1,107 @@
+import type { Product, Stocktake, StocktakeLine, StocktakeScope, StocktakeStatus } from '../../types/index.js';
+import { generateIdempotencyKey } from '../../services/offlineSync.js';
+import { roundMoney } from '../pos/tenders.js';
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  review: 'In Review',
+  approved: 'Approved',
+  cancelled: 'Cancelled',
+};
+
+export const STOCKTAKE_STATUS_BADGES: Record<StocktakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  review: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export const STOCKTAKE_SCOPE_LABELS: Record<StocktakeScope, string> = {
+  store: 'Full Store',
+  category: 'Category',
+  location: 'Location',
+};
+
+const DEVICE_KEY = 'stocktakeDeviceId';
+
+// Stable per browser so the audit trail can tell counting devices apart
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_KEY);
+  if (!deviceId) {
+    deviceId = generateIdempotencyKey().slice(0, 8);
+    localStorage.setItem(DEVICE_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const scopeDescription = (stocktake: Pick<Stocktake, 'scope' | 'category' | 'location'>): string => {
+  if (stocktake.scope === 'category') return `Category: ${stocktake.category}`;
+  if (stocktake.scope === 'location') return `Location: ${stocktake.location}`;
+  return STOCKTAKE_SCOPE_LABELS.store;
+};
+
+export const isCounted = (line: StocktakeLine): boolean => line.countedQuantity !== undefined;
+
+// Uncounted lines only have a variance when they are going to be posted as zero
+export const lineVariance = (line: StocktakeLine, zeroUncounted = false): number => {
+  if (!isCounted(line)) return zeroUncounted ? -line.systemQuantity : 0;
+  return (line.countedQuantity as number) - line.systemQuantity;
+};
+
+export const varianceValue = (line: StocktakeLine, zeroUncounted = false): number =>
+  roundMoney(lineVariance(line, zeroUncounted) * line.unitCost);
+
+export interface VarianceSummary {
+  lines: number;
+  counted: number;
+  withVariance: number;
+  shortUnits: number;
+  overUnits: number;
+  shortValue: number;
+  overValue: number;
+  netValue: number;
+}
+
+export const summarizeVariances = (lines: StocktakeLine[], zeroUncounted = false): VarianceSummary => {
+  const summary: VarianceSummary = {
+    lines: lines.length,
+    counted: 0,
+    withVariance: 0,
+    shortUnits: 0,
+    overUnits: 0,
+    shortValue: 0,
+    overValue: 0,
+    netValue: 0,
+  };
+
+  lines.forEach((line) => {
+    if (isCounted(line)) summary.counted += 1;
+    const variance = lineVariance(line, zeroUncounted);
+    if (variance === 0) return;
+    const value = varianceValue(line, zeroUncounted);
+    summary.withVariance += 1;
+    if (variance < 0) {
+      summary.shortUnits += -variance;
+      summary.shortValue += value;
+    } else {
+      summary.overUnits += variance;
+      summary.overValue += value;
+    }
+  });
+
+  summary.shortValue = roundMoney(summary.shortValue);
+  summary.overValue = roundMoney(summary.overValue);
+  summary.netValue = roundMoney(summary.shortValue + summary.overValue);
+  return summary;
+};
+
+// Matches a scanned barcode, or a typed SKU, against the products being counted
+export const findLineByCode = (lines: StocktakeLine[], code: string): StocktakeLine | undefined => {
+  const needle = code.trim().toLowerCase();
+  if (!needle) return undefined;
+  return lines.find((line) => {
+    if (typeof line.product !== 'object') return false;
+    const product = line.product as Product;
+    return product.barcode?.toLowerCase() === needle || product.sku.toLowerCase() === needle;
+  });
+};
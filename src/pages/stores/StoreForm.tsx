@@ -17,6 +17,7 @@ interface StoreFormData {
   email?: string;
   manager?: string;
   isActive: boolean;
+  taxInclusive: boolean;
 }
 
 // Type for form state (allows empty strings for input fields)
@@ -34,6 +35,7 @@ interface StoreFormState {
   email: string;
   manager: string;
   isActive: boolean;
+  taxInclusive: boolean;
 }
 
 interface StoreFormProps {
@@ -56,7 +58,8 @@ const StoreForm = ({ store, onSave, onCancel }: StoreFormProps) => {
     phone: '',
     email: '',
     manager: '',
-    isActive: true
+    isActive: true,
+    taxInclusive: false
   });
 
   useQuery('managers', async () => {
@@ -81,7 +84,8 @@ const StoreForm = ({ store, onSave, onCancel }: StoreFormProps) => {
         phone: store.phone || '',
         email: store.email || '',
         manager: typeof store.manager === 'object' ? store.manager._id || '' : store.manager || '',
-        isActive: store.isActive !== undefined ? store.isActive : true
+        isActive: store.isActive !== undefined ? store.isActive : true,
+        taxInclusive: !!store.taxInclusive
       });
     }
   }, [store]);
@@ -100,7 +104,7 @@ const StoreForm = ({ store, onSave, onCancel }: StoreFormProps) => {
     } else {
       setFormData({
         ...formData,
-        [name]: name === 'isActive' ? (e.target as HTMLInputElement).checked : value
+        [name]: name === 'isActive' || name === 'taxInclusive' ? (e.target as HTMLInputElement).checked : value
       } as StoreFormState);
     }
   };
@@ -242,6 +246,20 @@ const StoreForm = ({ store, onSave, onCancel }: StoreFormProps) => {
         </div>
       </div>
 
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          id="taxInclusive"
+          name="taxInclusive"
+          checked={formData.taxInclusive}
+          onChange={handleChange}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <label htmlFor="taxInclusive" className="ml-2 text-sm text-gray-700">
+          Product prices include VAT
+        </label>
+      </div>
+
       <div className="flex items-center space-x-4">
         <button
           type="submit"
@@ -0,0 +1,366 @@
+import { useState, ChangeEvent, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../store/authStore.js';
+import { useOfflineSync } from '../../hooks/useOfflineSync';
+import { offlineSync } from '../../services/offlineSync.js';
+import type { PendingSync, DeadLetterItem } from '../../services/offlineSync.js';
+
+type SyncRowStatus = 'pending' | DeadLetterItem['status'];
+
+interface SyncRow {
+  item: PendingSync | DeadLetterItem;
+  status: SyncRowStatus;
+}
+
+type StatusFilter = 'all' | SyncRowStatus;
+
+const STATUS_STYLES: Record<SyncRowStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-red-100 text-red-800',
+  needs_resolution: 'bg-yellow-100 text-yellow-800',
+  discarded: 'bg-gray-100 text-gray-800',
+};
+
+const isDeadLetter = (item: PendingSync | DeadLetterItem): item is DeadLetterItem => 'status' in item;
+
+// Only creates of simple records can be safely corrected by hand and resent
+const isEditable = (row: SyncRow): boolean =>
+  row.status === 'rejected' &&
+  row.item.action === 'create' &&
+  (row.item.type === 'customer' || row.item.type === 'product');
+
+const SyncQueue = () => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const { isOnline, syncNow } = useOfflineSync();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [editingRow, setEditingRow] = useState<SyncRow | null>(null);
+  const [editPayload, setEditPayload] = useState('');
+  const [editError, setEditError] = useState('');
+
+  const canReview = user?.role === 'admin' || user?.role === 'manager';
+
+  const { data, isLoading } = useQuery(
+    'sync-queue',
+    async () => {
+      await offlineSync.init();
+      return {
+        queue: offlineSync.getSyncQueue(),
+        deadLetters: await offlineSync.getDeadLetters(),
+      };
+    },
+    {
+      refetchInterval: 5000, // Keep in step with the offline indicator
+      staleTime: 0,
+    }
+  );
+
+  const rows = useMemo<SyncRow[]>(() => {
+    if (!data) return [];
+    const pending: SyncRow[] = data.queue.map((item) => ({ item, status: 'pending' }));
+    const parked: SyncRow[] = data.deadLetters.map((item) => ({ item, status: item.status }));
+    return [...pending, ...parked].sort((a, b) => b.item.timestamp - a.item.timestamp);
+  }, [data]);
+
+  const filteredRows = useMemo(() => {
+    if (statusFilter === 'all') return rows;
+    return rows.filter((row) => row.status === statusFilter);
+  }, [rows, statusFilter]);
+
+  const retryMutation = useMutation(
+    async (row: SyncRow) => {
+      if (isDeadLetter(row.item)) {
+        await offlineSync.requeueDeadLetter(row.item.id);
+      }
+      return syncNow();
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('sync-queue');
+      },
+      onError: (err: any) => {
+        alert(`Error: ${err.message || 'Failed to retry'}`);
+      },
+    }
+  );
+
+  const syncAllMutation = useMutation(() => syncNow(), {
+    onSuccess: () => {
+      queryClient.invalidateQueries('sync-queue');
+    },
+  });
+
+  const discardMutation = useMutation(
+    ({ id, reason }: { id: string; reason: string }) => offlineSync.discard(id, reason),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('sync-queue');
+      },
+      onError: (err: any) => {
+        alert(`Error: ${err.message || 'Failed to discard'}`);
+      },
+    }
+  );
+
+  const resubmitMutation = useMutation(
+    async ({ id, payload }: { id: string; payload: any }) => {
+      await offlineSync.requeueDeadLetter(id, payload);
+      return syncNow();
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('sync-queue');
+        setEditingRow(null);
+      },
+      onError: (err: any) => {
+        setEditError(err.message || 'Failed to resubmit');
+      },
+    }
+  );
+
+  const handleDiscard = (row: SyncRow) => {
+    const reason = prompt(`Reason for discarding this ${row.item.type} ${row.item.action}:`);
+    if (reason && reason.trim()) {
+      discardMutation.mutate({ id: row.item.id, reason: reason.trim() });
+    }
+  };
+
+  const handleEdit = (row: SyncRow) => {
+    setEditingRow(row);
+    setEditPayload(JSON.stringify(row.item.data, null, 2));
+    setEditError('');
+  };
+
+  const handleResubmit = () => {
+    if (!editingRow) return;
+    let payload: any;
+    try {
+      payload = JSON.parse(editPayload);
+    } catch (error) {
+      setEditError('Payload is not valid JSON');
+      return;
+    }
+    resubmitMutation.mutate({ id: editingRow.item.id, payload });
+  };
+
+  const handleExport = async () => {
+    const json = await offlineSync.exportQueue();
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sync-queue-${format(new Date(), 'yyyyMMdd-HHmmss')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!canReview) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">Only managers can review the offline sync queue.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  const pendingCount = rows.filter((row) => row.status === 'pending').length;
+  const failedCount = rows.filter((row) => row.status === 'rejected' || row.status === 'needs_resolution').length;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-mercellus">Offline Sync Queue</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            {pendingCount} pending · {failedCount} need attention · {isOnline ? 'Online' : 'Offline'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => syncAllMutation.mutate()}
+            disabled={!isOnline || pendingCount === 0 || syncAllMutation.isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {syncAllMutation.isLoading ? 'Syncing...' : 'Sync Now'}
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6 flex gap-4 items-center">
+        <label className="text-sm font-medium text-gray-700">Status:</label>
+        <select
+          value={statusFilter}
+          onChange={(e: ChangeEvent<HTMLSelectElement>) => setStatusFilter(e.target.value as StatusFilter)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="all">All</option>
+          <option value="pending">Pending</option>
+          <option value="rejected">Rejected</option>
+          <option value="needs_resolution">Needs Resolution</option>
+          <option value="discarded">Discarded</option>
+        </select>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Type
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Queued
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Retries
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Last Error
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredRows.map((row) => {
+              const deadLetter = isDeadLetter(row.item) ? row.item : null;
+              return (
+                <tr key={row.item.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900 capitalize">{row.item.type}</div>
+                    <div className="text-xs text-gray-500 capitalize">{row.item.action}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-500">
+                      {format(new Date(row.item.timestamp), 'MMM dd, yyyy HH:mm:ss')}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[row.status]}`}>
+                      {row.status.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm text-gray-500">{row.item.retries}</div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-red-600 max-w-xs">{deadLetter?.reason || row.item.lastError || '-'}</div>
+                    {deadLetter?.discardReason && (
+                      <div className="text-xs text-gray-500 mt-1">Discarded: {deadLetter.discardReason}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    {row.status !== 'discarded' && (
+                      <div className="flex items-center space-x-3">
+                        <button
+                          onClick={() => retryMutation.mutate(row)}
+                          disabled={!isOnline || retryMutation.isLoading}
+                          className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                        {isEditable(row) && (
+                          <button
+                            onClick={() => handleEdit(row)}
+                            className="text-green-600 hover:text-green-900"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDiscard(row)}
+                          disabled={discardMutation.isLoading}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {filteredRows.length === 0 && (
+        <div className="bg-white p-8 rounded-lg shadow text-center mt-6">
+          <p className="text-gray-600">Nothing waiting to sync</p>
+        </div>
+      )}
+
+      {/* Edit Payload Modal */}
+      {editingRow && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full m-4">
+            <div className="p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-mercellus capitalize">Edit {editingRow.item.type}</h2>
+                <button
+                  onClick={() => setEditingRow(null)}
+                  className="text-gray-500 hover:text-gray-700 text-2xl"
+                >
+                  ×
+                </button>
+              </div>
+
+              {isDeadLetter(editingRow.item) && (
+                <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded text-sm">
+                  Server reason: {editingRow.item.reason}
+                </div>
+              )}
+
+              {editError && (
+                <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+                  {editError}
+                </div>
+              )}
+
+              <textarea
+                value={editPayload}
+                onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setEditPayload(e.target.value)}
+                rows={16}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+              />
+
+              <div className="flex justify-end gap-4 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setEditingRow(null)}
+                  className="px-6 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleResubmit}
+                  disabled={resubmitMutation.isLoading}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {resubmitMutation.isLoading ? 'Resubmitting...' : 'Save & Resubmit'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncQueue;
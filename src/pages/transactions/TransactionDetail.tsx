@@ -0,0 +1,329 @@
+import { useState } from 'react';
+import { useQuery } from 'react-query';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { transactionService } from '../../services/transactionService.js';
+import type { Transaction } from '../../types/index.js';
+import Receipt from '../pos/Receipt.js';
+import { formatDiscountLabel } from '../pos/discounts.js';
+import VoidTransactionModal, { canReturnTransaction, canVoidTransaction } from './VoidTransactionModal';
+
+const formatCurrency = (amount: number) => `৳${amount.toFixed(2)}`;
+
+const formatDateTime = (date?: string) => (date ? format(new Date(date), 'MMM dd, yyyy HH:mm:ss') : 'N/A');
+
+const nameOf = (value: unknown): string | undefined =>
+  value && typeof value === 'object' && 'name' in value ? (value as { name?: string }).name : undefined;
+
+const TransactionDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [showReceipt, setShowReceipt] = useState(false);
+  const [showVoid, setShowVoid] = useState(false);
+
+  const { data, isLoading, error } = useQuery(
+    ['transaction', id],
+    () => transactionService.getTransaction(id!),
+    { enabled: !!id }
+  );
+  const transaction = data?.data?.transaction;
+
+  const { data: relatedData } = useQuery(
+    ['related-transactions', id],
+    () => transactionService.getRelatedTransactions(id!),
+    { enabled: !!id && transaction?.type === 'sale' }
+  );
+  const relatedReturns = relatedData?.data?.transactions || [];
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (error || !transaction) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600 mb-4">Transaction not found</p>
+        <Link to="/transactions" className="text-blue-600 hover:text-blue-800">
+          ← Back to Transactions
+        </Link>
+      </div>
+    );
+  }
+
+  const isReturn = transaction.type === 'return' || transaction.type === 'refund';
+  const related = typeof transaction.relatedTransaction === 'object' ? transaction.relatedTransaction : undefined;
+  const relatedId = related?._id || (typeof transaction.relatedTransaction === 'string' ? transaction.relatedTransaction : undefined);
+  const promotionTotal = transaction.items.reduce((sum, item) => sum + (item.promotionDiscount || 0), 0);
+  const lineDiscounts = transaction.items.reduce((sum, item) => sum + (item.discount || 0), 0) - promotionTotal;
+  const cartDiscount = transaction.cartDiscount?.amount || 0;
+  // Whatever is left of the transaction discount came from loyalty redemption
+  const loyaltyDiscount = Math.max(
+    0,
+    Math.round((transaction.discount - promotionTotal - lineDiscounts - cartDiscount) * 100) / 100
+  );
+  const promotionName = (promotionId: string) =>
+    transaction.appliedPromotions?.find((promotion) => promotion.promotion === promotionId)?.name || 'Promotion';
+  const customer = transaction.customer && typeof transaction.customer === 'object' ? transaction.customer : undefined;
+  const store = typeof transaction.store === 'object' ? transaction.store : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link to="/transactions" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to Transactions
+          </Link>
+          <h1 className="text-3xl font-mercellus mt-1">
+            {isReturn ? 'Return' : 'Sale'} #{transaction.transactionNumber}
+          </h1>
+          <div className="flex gap-2 mt-2">
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+              transaction.type === 'sale' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+            }`}>
+              {transaction.type}
+            </span>
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+              transaction.status === 'completed'
+                ? 'bg-blue-100 text-blue-800'
+                : transaction.status === 'cancelled'
+                ? 'bg-red-100 text-red-800'
+                : 'bg-gray-100 text-gray-800'
+            }`}>
+              {transaction.status === 'cancelled' ? 'voided' : transaction.status}
+            </span>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowReceipt(true)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Reprint Receipt
+          </button>
+          {canReturnTransaction(transaction) && (
+            <Link
+              to={`/returns?number=${encodeURIComponent(transaction.transactionNumber)}`}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+            >
+              Process Return
+            </Link>
+          )}
+          {/* Hidden until the returns have loaded, so a returned sale never offers Void */}
+          {relatedData && canVoidTransaction(transaction, relatedReturns) && (
+            <button
+              onClick={() => setShowVoid(true)}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+            >
+              Void
+            </button>
+          )}
+        </div>
+      </div>
+
+      {transaction.status === 'cancelled' && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+          Voided {transaction.voidedAt && `on ${formatDateTime(transaction.voidedAt)}`}
+          {nameOf(transaction.voidedBy) && ` by ${nameOf(transaction.voidedBy)}`}
+          {transaction.voidReason && ` - ${transaction.voidReason}`}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-4">Details</h2>
+          <div className="space-y-2 text-sm">
+            <p><strong>Date:</strong> {formatDateTime(transaction.createdAt)}</p>
+            {store && <p><strong>Store:</strong> {store.name}</p>}
+            <p><strong>Cashier:</strong> {nameOf(transaction.cashier) || 'N/A'}</p>
+            {isReturn && relatedId && (
+              <p>
+                <strong>Original Sale:</strong>{' '}
+                <Link to={`/transactions/${relatedId}`} className="text-blue-600 hover:text-blue-800">
+                  #{related?.transactionNumber || relatedId}
+                </Link>
+              </p>
+            )}
+            {transaction.returnReason && <p><strong>Reason:</strong> {transaction.returnReason}</p>}
+            {transaction.notes && <p><strong>Notes:</strong> {transaction.notes}</p>}
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-4">Customer</h2>
+          {customer ? (
+            <div className="space-y-2 text-sm">
+              <p><strong>Name:</strong> {customer.name || 'N/A'}</p>
+              {customer.phone && <p><strong>Phone:</strong> {customer.phone}</p>}
+              {customer.email && <p><strong>Email:</strong> {customer.email}</p>}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Walk-in customer</p>
+          )}
+          <div className="mt-4 pt-4 border-t space-y-1 text-sm">
+            <p><strong>Points Earned:</strong> {transaction.loyaltyPointsEarned || 0}</p>
+            <p><strong>Points Redeemed:</strong> {transaction.loyaltyPointsRedeemed || 0}</p>
+            {!!transaction.loyaltyPointsReversed && (
+              <p><strong>Points Reversed:</strong> {transaction.loyaltyPointsReversed}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-4">{isReturn ? 'Refunded To' : 'Payment'}</h2>
+          <div className="space-y-2 text-sm">
+            <p className="capitalize"><strong>Method:</strong> {transaction.paymentMethod.replace('_', ' ')}</p>
+            {transaction.paymentDetails?.cashAmount > 0 && (
+              <p><strong>Cash:</strong> {formatCurrency(transaction.paymentDetails.cashAmount)}</p>
+            )}
+            {transaction.paymentDetails?.cardAmount > 0 && (
+              <p><strong>Card:</strong> {formatCurrency(transaction.paymentDetails.cardAmount)}</p>
+            )}
+            {transaction.paymentDetails?.mobileAmount > 0 && (
+              <p><strong>Mobile:</strong> {formatCurrency(transaction.paymentDetails.mobileAmount)}</p>
+            )}
+            {transaction.paymentDetails?.change > 0 && (
+              <p><strong>Change:</strong> {formatCurrency(transaction.paymentDetails.change)}</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Qty</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">VAT</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {transaction.items.map((item, index) => (
+              <tr key={index}>
+                <td className="px-6 py-4">
+                  <div className="text-sm font-medium text-gray-900">
+                    {typeof item.product === 'object' ? item.product.name : 'Product'}
+                  </div>
+                  {typeof item.product === 'object' && item.product.sku && (
+                    <div className="text-xs text-gray-500">SKU: {item.product.sku}</div>
+                  )}
+                  {item.promotions?.map((promotionId) => (
+                    <div key={promotionId} className="text-xs text-red-600">{promotionName(promotionId)}</div>
+                  ))}
+                  {item.disposition && (
+                    <div className="text-xs text-gray-500">
+                      {item.disposition === 'restock' ? 'Restocked' : 'Written off'}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">{item.quantity}</td>
+                <td className="px-6 py-4 text-sm text-gray-900">{formatCurrency(item.price)}</td>
+                <td className="px-6 py-4 text-sm text-red-600">
+                  {item.discount > 0 ? `-${formatCurrency(item.discount)}` : '-'}
+                  {item.appliedDiscount && (
+                    <div className="text-xs text-gray-500">{formatDiscountLabel(item.appliedDiscount)}</div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {formatCurrency(item.tax)}
+                  {item.taxRate !== undefined && <span className="text-xs text-gray-500"> ({item.taxRate}%)</span>}
+                </td>
+                <td className="px-6 py-4 text-sm font-medium text-gray-900">{formatCurrency(item.subtotal)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="p-6 border-t flex justify-end">
+          <div className="w-full max-w-sm space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Subtotal:</span>
+              <span>{formatCurrency(transaction.subtotal)}</span>
+            </div>
+            {transaction.appliedPromotions?.map((promotion) => (
+              <div key={promotion.promotion} className="flex justify-between text-red-600">
+                <span>{promotion.name}:</span>
+                <span>-{formatCurrency(promotion.amount)}</span>
+              </div>
+            ))}
+            {lineDiscounts > 0 && (
+              <div className="flex justify-between text-red-600">
+                <span>Item Discounts:</span>
+                <span>-{formatCurrency(lineDiscounts)}</span>
+              </div>
+            )}
+            {transaction.cartDiscount && cartDiscount > 0 && (
+              <div className="flex justify-between text-red-600">
+                <span>Cart Discount ({formatDiscountLabel(transaction.cartDiscount)}):</span>
+                <span>-{formatCurrency(cartDiscount)}</span>
+              </div>
+            )}
+            {loyaltyDiscount > 0 && (
+              <div className="flex justify-between text-red-600">
+                <span>{transaction.loyaltyPointsRedeemed ? 'Points Discount:' : 'Discount:'}</span>
+                <span>-{formatCurrency(loyaltyDiscount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>{transaction.taxInclusive ? 'VAT (included):' : 'VAT:'}</span>
+              <span>{formatCurrency(transaction.tax)}</span>
+            </div>
+            <div className="flex justify-between text-lg font-bold pt-2 border-t">
+              <span>{isReturn ? 'Total Refunded:' : 'Total:'}</span>
+              <span>{formatCurrency(transaction.total)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {transaction.type === 'sale' && (
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-lg font-semibold mb-4">Returns</h2>
+          {relatedReturns.length > 0 ? (
+            <div className="space-y-2">
+              {relatedReturns.map((returned: Transaction) => (
+                <div key={returned._id} className="flex justify-between items-center border-b pb-2 text-sm">
+                  <div>
+                    <Link to={`/transactions/${returned._id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                      #{returned.transactionNumber}
+                    </Link>
+                    <span className="text-gray-500 ml-2">{formatDateTime(returned.createdAt)}</span>
+                    {returned.returnReason && <span className="text-gray-500 ml-2">· {returned.returnReason}</span>}
+                  </div>
+                  <span className={returned.status === 'cancelled' ? 'line-through text-gray-400' : 'font-medium'}>
+                    {formatCurrency(returned.total)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No returns against this sale</p>
+          )}
+        </div>
+      )}
+
+      {showReceipt && (
+        <Receipt
+          transaction={transaction}
+          storeName={store?.name}
+          storeCode={store?.code}
+          reprint
+          onClose={() => setShowReceipt(false)}
+          onPrint={() => window.print()}
+        />
+      )}
+
+      {showVoid && (
+        <VoidTransactionModal
+          transaction={transaction}
+          onVoided={() => setShowVoid(false)}
+          onClose={() => setShowVoid(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TransactionDetail;
@@ -0,0 +1,145 @@
+import { useState, useEffect, FormEvent, ChangeEvent } from 'react';
+import type { TransactionFilters } from '../../services/transactionService.js';
+import type { User } from '../../types/index.js';
+
+interface TransactionFiltersPanelProps {
+  filters: TransactionFilters;
+  cashiers: User[];
+  onApply: (filters: TransactionFilters) => void;
+  onReset: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500';
+
+const TransactionFiltersPanel = ({ filters, cashiers, onApply, onReset }: TransactionFiltersPanelProps) => {
+  // Edits stay local until applied so every keystroke doesn't hit the server
+  const [draft, setDraft] = useState<TransactionFilters>(filters);
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const update = (key: keyof TransactionFilters) =>
+    (e: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      const { value } = e.target;
+      const isNumber = key === 'minTotal' || key === 'maxTotal';
+      setDraft({ ...draft, [key]: value === '' ? undefined : isNumber ? parseFloat(value) : value });
+    };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onApply(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-4 rounded-lg shadow mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Transaction #</label>
+          <input
+            type="text"
+            placeholder="Search number..."
+            value={draft.search || ''}
+            onChange={update('search')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">From</label>
+          <input type="date" value={draft.startDate || ''} onChange={update('startDate')} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">To</label>
+          <input type="date" value={draft.endDate || ''} onChange={update('endDate')} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Customer</label>
+          <input
+            type="text"
+            placeholder="Name or phone..."
+            value={draft.customer || ''}
+            onChange={update('customer')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+          <select value={draft.type || ''} onChange={update('type')} className={inputClass}>
+            <option value="">All types</option>
+            <option value="sale">Sale</option>
+            <option value="return">Return</option>
+            <option value="refund">Refund</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Status</label>
+          <select value={draft.status || ''} onChange={update('status')} className={inputClass}>
+            <option value="">All statuses</option>
+            <option value="completed">Completed</option>
+            <option value="pending">Pending</option>
+            <option value="cancelled">Voided</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Payment</label>
+          <select value={draft.paymentMethod || ''} onChange={update('paymentMethod')} className={inputClass}>
+            <option value="">All methods</option>
+            <option value="cash">Cash</option>
+            <option value="card">Card</option>
+            <option value="mobile_payment">Mobile payment</option>
+            <option value="mixed">Mixed</option>
+          </select>
+        </div>
+        {cashiers.length > 0 && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Cashier</label>
+            <select value={draft.cashier || ''} onChange={update('cashier')} className={inputClass}>
+              <option value="">All cashiers</option>
+              {cashiers.map((cashier) => (
+                <option key={cashier._id || cashier.id} value={cashier._id || cashier.id}>
+                  {cashier.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Min Total (৳)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.minTotal ?? ''}
+            onChange={update('minTotal')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Max Total (৳)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={draft.maxTotal ?? ''}
+            onChange={update('maxTotal')}
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2 flex items-end gap-2">
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+            Apply Filters
+          </button>
+          <button
+            type="button"
+            onClick={onReset}
+            className="px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default TransactionFiltersPanel;
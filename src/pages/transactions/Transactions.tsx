@@ -1,34 +1,100 @@
+import { useMemo } from 'react';
 import { useQuery } from 'react-query';
-import api from '../../services/api.js';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuthStore } from '../../store/authStore.js';
-import { format } from 'date-fns';
+import { authService } from '../../services/authService.js';
+import { transactionService } from '../../services/transactionService.js';
+import type { TransactionFilters } from '../../services/transactionService.js';
+import type { ExportColumn, ExportPageFetcher } from '../../services/exportService.js';
 import type { Transaction } from '../../types/index.js';
+import { format } from 'date-fns';
+import { canReturnTransaction } from './VoidTransactionModal';
+import TransactionFiltersPanel from './TransactionFiltersPanel';
+import ExportButton from '../../components/ExportButton';
+import {
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  hasActiveFilters,
+  pageFromSearchParams,
+} from './transactionFilters.js';
 
-interface TransactionsResponse {
-  success: boolean;
-  data: {
-    transactions: Transaction[];
-  };
-}
+const PAGE_SIZE = 25;
+
+const nameOf = (value: unknown): string | undefined =>
+  value && typeof value === 'object' && 'name' in value ? (value as { name?: string }).name : undefined;
+
+const TRANSACTION_EXPORT_COLUMNS: ExportColumn<Transaction>[] = [
+  { key: 'number', header: 'Transaction #', value: (t) => t.transactionNumber },
+  { key: 'date', header: 'Date', value: (t) => t.createdAt, type: 'datetime' },
+  { key: 'type', header: 'Type', value: (t) => t.type },
+  { key: 'status', header: 'Status', value: (t) => (t.status === 'cancelled' ? 'voided' : t.status) },
+  { key: 'store', header: 'Store', value: (t) => nameOf(t.store), optional: true },
+  { key: 'cashier', header: 'Cashier', value: (t) => nameOf(t.cashier) },
+  { key: 'customer', header: 'Customer', value: (t) => nameOf(t.customer) },
+  { key: 'items', header: 'Items', value: (t) => t.items.reduce((sum, item) => sum + item.quantity, 0), type: 'number' },
+  { key: 'subtotal', header: 'Subtotal', value: (t) => t.subtotal, type: 'currency' },
+  { key: 'discount', header: 'Discount', value: (t) => t.discount, type: 'currency' },
+  { key: 'tax', header: 'VAT', value: (t) => t.tax, type: 'currency' },
+  { key: 'total', header: 'Total', value: (t) => t.total, type: 'currency' },
+  { key: 'paymentMethod', header: 'Payment Method', value: (t) => t.paymentMethod.replace('_', ' ') },
+  { key: 'cash', header: 'Cash', value: (t) => t.paymentDetails?.cashAmount, type: 'currency', optional: true },
+  { key: 'card', header: 'Card', value: (t) => t.paymentDetails?.cardAmount, type: 'currency', optional: true },
+  { key: 'mobile', header: 'Mobile', value: (t) => t.paymentDetails?.mobileAmount, type: 'currency', optional: true },
+  { key: 'pointsEarned', header: 'Points Earned', value: (t) => t.loyaltyPointsEarned, type: 'number', optional: true },
+  { key: 'pointsRedeemed', header: 'Points Redeemed', value: (t) => t.loyaltyPointsRedeemed, type: 'number', optional: true },
+  { key: 'notes', header: 'Notes', value: (t) => t.notes || t.returnReason || t.voidReason, optional: true },
+];
 
 const Transactions = () => {
   const { user } = useAuthStore();
   const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+  const canFilterByCashier = user?.role === 'admin' || user?.role === 'manager';
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const queryString = searchParams.toString();
+  const filters = useMemo(() => filtersFromSearchParams(new URLSearchParams(queryString)), [queryString]);
+  const page = pageFromSearchParams(searchParams);
 
-  const { data, isLoading } = useQuery<TransactionsResponse>(
-    ['transactions', storeId],
-    async () => {
-      const params: Record<string, string> = {};
-      if (storeId) params.store = storeId;
-      const response = await api.get<TransactionsResponse>('/transactions', { params });
-      return response.data;
-    },
+  const { data, isLoading, isFetching } = useQuery(
+    ['transactions', storeId, filters, page],
+    () => transactionService.getTransactions({ ...filters, store: storeId || undefined }, page, PAGE_SIZE),
     {
+      keepPreviousData: true, // keeps the current page on screen while the next one loads
       staleTime: 1 * 60 * 1000, // 1 minute
       cacheTime: 5 * 60 * 1000, // 5 minutes
     }
   );
 
+  const { data: usersData } = useQuery(
+    ['users', storeId],
+    () => authService.getUsers(storeId ? { store: storeId } : undefined),
+    {
+      enabled: canFilterByCashier,
+      staleTime: 10 * 60 * 1000, // 10 minutes
+    }
+  );
+
+  const pagination = data?.data?.pagination;
+
+  // Exports everything matching the current filters, not just the page on screen
+  const fetchExportPage: ExportPageFetcher<Transaction> = async (exportPage, limit) => {
+    const response = await transactionService.getTransactions(
+      { ...filters, store: storeId || undefined },
+      exportPage,
+      limit
+    );
+    const { transactions, pagination: exportPagination } = response.data;
+    return { rows: transactions, pages: exportPagination?.pages || 1, total: exportPagination?.total };
+  };
+
+  const applyFilters = (nextFilters: TransactionFilters) => {
+    setSearchParams(filtersToSearchParams(nextFilters));
+  };
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams(filtersToSearchParams(filters, nextPage));
+  };
+
   if (isLoading) {
     return <div>Loading...</div>;
   }
@@ -37,8 +103,21 @@ const Transactions = () => {
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-mercellus">Transactions</h1>
+        <div className="flex gap-2">
+          <ExportButton name="transactions" columns={TRANSACTION_EXPORT_COLUMNS} fetchPage={fetchExportPage} />
+          <Link to="/returns" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+            Process Return
+          </Link>
+        </div>
       </div>
 
+      <TransactionFiltersPanel
+        filters={filters}
+        cashiers={usersData?.data?.users || []}
+        onApply={applyFilters}
+        onReset={() => setSearchParams({})}
+      />
+
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
@@ -61,13 +140,21 @@ const Transactions = () => {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Payment
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {data?.data?.transactions?.map((transaction) => (
               <tr key={transaction._id}>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm font-medium text-gray-900">{transaction.transactionNumber}</div>
+                  <Link
+                    to={`/transactions/${transaction._id}`}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-900"
+                  >
+                    {transaction.transactionNumber}
+                  </Link>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
@@ -75,6 +162,11 @@ const Transactions = () => {
                   }`}>
                     {transaction.type}
                   </span>
+                  {transaction.status === 'cancelled' && (
+                    <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                      voided
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-gray-500">
@@ -90,6 +182,19 @@ const Transactions = () => {
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-gray-500 capitalize">{transaction.paymentMethod}</div>
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                  {canReturnTransaction(transaction) && (
+                    <Link
+                      to={`/returns?number=${encodeURIComponent(transaction.transactionNumber)}`}
+                      className="text-blue-600 hover:text-blue-900"
+                    >
+                      Return
+                    </Link>
+                  )}
+                  <Link to={`/transactions/${transaction._id}`} className="text-blue-600 hover:text-blue-900">
+                    View
+                  </Link>
+                </td>
               </tr>
             ))}
           </tbody>
@@ -98,7 +203,38 @@ const Transactions = () => {
 
       {data?.data?.transactions?.length === 0 && (
         <div className="bg-white p-8 rounded-lg shadow text-center mt-6">
-          <p className="text-gray-600">No transactions found</p>
+          <p className="text-gray-600">
+            {hasActiveFilters(filters) ? 'No transactions match these filters' : 'No transactions found'}
+          </p>
+        </div>
+      )}
+
+      {pagination && pagination.pages > 1 && (
+        <div className="flex justify-between items-center mt-4">
+          <p className="text-sm text-gray-600">
+            Showing {(pagination.page - 1) * pagination.limit + 1}-
+            {Math.min(pagination.page * pagination.limit, pagination.total)} of {pagination.total}
+            {isFetching && ' · Loading...'}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => goToPage(page - 1)}
+              disabled={page <= 1}
+              className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="px-4 py-2 text-sm text-gray-700">
+              Page {pagination.page} of {pagination.pages}
+            </span>
+            <button
+              onClick={() => goToPage(page + 1)}
+              disabled={page >= pagination.pages}
+              className="px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,143 @@
+import { useState, ChangeEvent } from 'react';
+import { useMutation, useQueryClient } from 'react-query';
+import { useAuthStore } from '../../store/authStore.js';
+import { transactionService } from '../../services/transactionService.js';
+import type { VoidResponse } from '../../services/transactionService.js';
+import type { Transaction } from '../../types/index.js';
+import ManagerApproval from '../../components/ManagerApproval';
+
+const VOID_REASONS = ['Rung up by mistake', 'Wrong items or quantities', 'Wrong payment method', 'Customer cancelled', 'Other'];
+
+// Only settled sales can be returned or voided; offline sales have to sync first
+export const canReturnTransaction = (transaction: Transaction): boolean =>
+  transaction.type === 'sale' && transaction.status === 'completed';
+
+// A sale with returns against it would refund the returned items twice if voided,
+// so those have to be handled through the returns screen
+export const canVoidTransaction = (transaction: Transaction, relatedReturns: Transaction[]): boolean =>
+  canReturnTransaction(transaction) && relatedReturns.every((returned) => returned.status === 'cancelled');
+
+interface VoidTransactionModalProps {
+  transaction: Transaction;
+  onVoided: (result: VoidResponse['data']) => void;
+  onClose: () => void;
+}
+
+const VoidTransactionModal = ({ transaction, onVoided, onClose }: VoidTransactionModalProps) => {
+  const { user } = useAuthStore();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState(VOID_REASONS[0]);
+  const [notes, setNotes] = useState('');
+  const [showApproval, setShowApproval] = useState(false);
+  const [error, setError] = useState('');
+
+  const isManager = user?.role === 'admin' || user?.role === 'manager';
+
+  const voidMutation = useMutation(
+    (overrideToken?: string) =>
+      transactionService.voidTransaction(transaction._id, {
+        reason: notes.trim() ? `${reason}: ${notes.trim()}` : reason,
+        overrideToken,
+      }),
+    {
+      onSuccess: (data) => {
+        queryClient.invalidateQueries('transactions');
+        queryClient.invalidateQueries(['transaction', transaction._id]);
+        queryClient.invalidateQueries('inventory');
+        queryClient.invalidateQueries('sales-report');
+        queryClient.invalidateQueries('customers');
+        if (transaction.shift) {
+          const shiftId = typeof transaction.shift === 'object' ? transaction.shift._id : transaction.shift;
+          queryClient.invalidateQueries(['shift-transactions', shiftId]);
+        }
+        onVoided(data.data);
+      },
+      onError: (err: any) => {
+        setError(err.response?.data?.message || 'Failed to void transaction');
+      },
+    }
+  );
+
+  const handleVoid = () => {
+    setError('');
+    if (reason === 'Other' && !notes.trim()) {
+      setError('Please describe why the sale is being voided');
+      return;
+    }
+    // Managers approve their own voids; everyone else needs a manager at the till
+    if (isManager) {
+      voidMutation.mutate(undefined);
+    } else {
+      setShowApproval(true);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[55]">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full m-4 p-6">
+        <h2 className="text-xl font-mercellus text-gray-800 mb-2">Void Sale</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Sale #{transaction.transactionNumber} for ৳{transaction.total.toFixed(2)} will be cancelled. Stock is
+          put back and any loyalty points earned or redeemed are reversed.
+        </p>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded mb-4 text-sm">
+            {error}
+          </div>
+        )}
+
+        <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+        <select
+          value={reason}
+          onChange={(e: ChangeEvent<HTMLSelectElement>) => setReason(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 mb-2"
+        >
+          {VOID_REASONS.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <textarea
+          placeholder="Notes"
+          value={notes}
+          onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setNotes(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 mb-4"
+        />
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-300 text-gray-700 rounded-lg hover:bg-gray-400"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleVoid}
+            disabled={voidMutation.isLoading}
+            className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            {voidMutation.isLoading ? 'Voiding...' : isManager ? 'Void Sale' : 'Request Approval'}
+          </button>
+        </div>
+      </div>
+
+      {showApproval && (
+        <ManagerApproval
+          title="Approve Void"
+          message={`A manager must approve voiding sale #${transaction.transactionNumber}.`}
+          action="void"
+          onApproved={(_approver, overrideToken) => {
+            setShowApproval(false);
+            voidMutation.mutate(overrideToken);
+          }}
+          onCancel={() => setShowApproval(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VoidTransactionModal;
@@ -0,0 +1,34 @@
+import type { TransactionFilters } from '../../services/transactionService.js';
+
+// Filters live in the query string so a filtered view can be bookmarked or shared
+const TEXT_KEYS = ['startDate', 'endDate', 'type', 'status', 'paymentMethod', 'cashier', 'customer', 'search'] as const;
+const NUMBER_KEYS = ['minTotal', 'maxTotal'] as const;
+
+export const filtersFromSearchParams = (searchParams: URLSearchParams): TransactionFilters => {
+  const filters: Record<string, string | number> = {};
+  TEXT_KEYS.forEach((key) => {
+    const value = searchParams.get(key);
+    if (value) filters[key] = value;
+  });
+  NUMBER_KEYS.forEach((key) => {
+    const value = parseFloat(searchParams.get(key) || '');
+    if (!isNaN(value)) filters[key] = value;
+  });
+  return filters as TransactionFilters;
+};
+
+export const pageFromSearchParams = (searchParams: URLSearchParams): number =>
+  Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+
+export const filtersToSearchParams = (filters: TransactionFilters, page = 1): Record<string, string> => {
+  const params: Record<string, string> = {};
+  [...TEXT_KEYS, ...NUMBER_KEYS].forEach((key) => {
+    const value = filters[key];
+    if (value !== undefined && value !== '') params[key] = String(value);
+  });
+  if (page > 1) params.page = String(page);
+  return params;
+};
+
+export const hasActiveFilters = (filters: TransactionFilters): boolean =>
+  Object.keys(filtersToSearchParams(filters)).length > 0;
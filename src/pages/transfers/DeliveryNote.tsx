@@ -0,0 +1,108 @@
+import { format } from 'date-fns';
+import { productIdOf, productNameOf } from '../purchasing/purchaseOrders.js';
+import { shippedQuantity, storeNameOf, totalUnits } from './transfers.js';
+import type { StockTransfer } from '../../types/index.js';
+
+interface DeliveryNoteProps {
+  transfer: StockTransfer;
+}
+
+const nameOf = (value: unknown): string =>
+  value && typeof value === 'object' && 'name' in value ? (value as { name?: string }).name || '' : '';
+
+// Printed to travel with the goods; the receiving store counts against it and signs
+const DeliveryNote = ({ transfer }: DeliveryNoteProps) => {
+  const received = transfer.status === 'received' || transfer.status === 'received_with_discrepancy';
+
+  return (
+    <>
+      <div id="delivery-note" className="hidden print:block">
+        <h1 className="text-2xl font-bold">Delivery Note</h1>
+        <p className="text-sm">{transfer.transferNumber}</p>
+
+        <div className="grid grid-cols-2 gap-4 mt-4 text-sm">
+          <div>
+            <p className="font-semibold">From</p>
+            <p>{storeNameOf(transfer.fromStore)}</p>
+            {transfer.dispatchedAt && <p>Dispatched {format(new Date(transfer.dispatchedAt), 'dd MMM yyyy HH:mm')}</p>}
+          </div>
+          <div>
+            <p className="font-semibold">To</p>
+            <p>{storeNameOf(transfer.toStore)}</p>
+            {transfer.receivedAt && <p>Received {format(new Date(transfer.receivedAt), 'dd MMM yyyy HH:mm')}</p>}
+          </div>
+        </div>
+
+        <table className="w-full mt-4 text-sm">
+          <thead>
+            <tr className="border-b border-black">
+              <th className="text-left py-1">Product</th>
+              <th className="text-left py-1">SKU</th>
+              <th className="text-right py-1">Sent</th>
+              <th className="text-right py-1">Received</th>
+            </tr>
+          </thead>
+          <tbody>
+            {transfer.lines.map((line) => (
+              <tr key={productIdOf(line.product)} className="border-b border-gray-300">
+                <td className="py-2">{productNameOf(line.product)}</td>
+                <td className="py-2">{typeof line.product === 'object' ? line.product.sku : ''}</td>
+                <td className="text-right py-2">{shippedQuantity(line)}</td>
+                <td className="text-right py-2">{received ? line.receivedQuantity : '________'}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colSpan={2} className="py-1 font-semibold">Total units</td>
+              <td className="text-right py-1 font-semibold">{totalUnits(transfer.lines, shippedQuantity)}</td>
+              <td className="text-right py-1 font-semibold">
+                {received ? totalUnits(transfer.lines, (line) => line.receivedQuantity || 0) : ''}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+
+        {transfer.notes && <p className="mt-4 text-sm">Notes: {transfer.notes}</p>}
+
+        <div className="grid grid-cols-2 gap-8 mt-12 text-sm">
+          <div className="border-t border-black pt-1">
+            Dispatched by {nameOf(transfer.dispatchedBy)}
+          </div>
+          <div className="border-t border-black pt-1">
+            Received by {nameOf(transfer.receivedBy)}
+          </div>
+        </div>
+      </div>
+
+      {/* Print Styles */}
+      <style>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 12mm;
+          }
+
+          body * {
+            visibility: hidden;
+          }
+
+          #delivery-note,
+          #delivery-note * {
+            visibility: visible;
+          }
+
+          #delivery-note {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 100%;
+            background: white;
+          }
+        }
+      `}</style>
+    </>
+  );
+};
+
+export default DeliveryNote;
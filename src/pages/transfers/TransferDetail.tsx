@@ -0,0 +1,444 @@
+import { useState, useRef, useEffect, ChangeEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuthStore } from '../../store/authStore.js';
+import { transferService } from '../../services/transferService.js';
+import { generateIdempotencyKey } from '../../services/offlineSync.js';
+import { productIdOf, productNameOf } from '../purchasing/purchaseOrders.js';
+import DeliveryNote from './DeliveryNote';
+import {
+  isIncoming,
+  isOutgoing,
+  lineDiscrepancy,
+  shippedQuantity,
+  storeNameOf,
+  TRANSFER_STATUS_BADGES,
+  TRANSFER_STATUS_LABELS,
+} from './transfers.js';
+
+interface ReceiveLineState {
+  receivedQuantity: number;
+  discrepancyNote: string;
+}
+
+const formatDateTime = (date?: string) => (date ? format(new Date(date), 'dd MMM yyyy HH:mm') : '-');
+
+const nameOf = (value: unknown): string | undefined =>
+  value && typeof value === 'object' && 'name' in value ? (value as { name?: string }).name : undefined;
+
+const TransferDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const canView = isAdmin || user?.role === 'manager' || user?.role === 'staff';
+  const storeId = typeof user?.store === 'object' ? user.store._id : user?.store || null;
+
+  const [dispatchQuantities, setDispatchQuantities] = useState<Record<string, number>>({});
+  const [receiving, setReceiving] = useState<Record<string, ReceiveLineState>>({});
+  const [receiptNotes, setReceiptNotes] = useState('');
+  const [error, setError] = useState('');
+  const idempotencyKeyRef = useRef(generateIdempotencyKey());
+
+  // Changed quantities or notes make a new attempt - only an identical resubmit may reuse the key
+  useEffect(() => {
+    idempotencyKeyRef.current = generateIdempotencyKey();
+  }, [dispatchQuantities, receiving, receiptNotes]);
+
+  const { data, isLoading } = useQuery(['transfer', id], () => transferService.getTransfer(id!), {
+    enabled: !!id && canView,
+  });
+  const transfer = data?.data?.transfer;
+
+  const onMutationSuccess = () => {
+    setError('');
+    idempotencyKeyRef.current = generateIdempotencyKey();
+    queryClient.invalidateQueries(['transfer', id]);
+    queryClient.invalidateQueries('transfers');
+  };
+
+  const onMutationError = (err: any) => setError(err.response?.data?.message || 'Failed to update transfer');
+
+  const approveMutation = useMutation(() => transferService.approveTransfer(id!), {
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const cancelMutation = useMutation((reason: string) => transferService.cancelTransfer(id!, reason), {
+    onSuccess: onMutationSuccess,
+    onError: onMutationError,
+  });
+
+  const dispatchMutation = useMutation(
+    (lines: Array<{ product: string; quantity: number }>) =>
+      transferService.dispatchTransfer(id!, { lines }, idempotencyKeyRef.current),
+    {
+      onSuccess: () => {
+        onMutationSuccess();
+        queryClient.invalidateQueries('inventory');
+      },
+      onError: onMutationError,
+    }
+  );
+
+  const receiveMutation = useMutation(
+    (lines: Array<{ product: string; receivedQuantity: number; discrepancyNote?: string }>) =>
+      transferService.receiveTransfer(
+        id!,
+        { lines, notes: receiptNotes.trim() || undefined },
+        idempotencyKeyRef.current
+      ),
+    {
+      onSuccess: () => {
+        onMutationSuccess();
+        queryClient.invalidateQueries('inventory');
+      },
+      onError: onMutationError,
+    }
+  );
+
+  if (!canView) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">You don't have access to stock transfers.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!transfer) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600 mb-4">Transfer not found</p>
+        <Link to="/transfers" className="text-blue-600 hover:text-blue-800">
+          ← Back to Transfers
+        </Link>
+      </div>
+    );
+  }
+
+  const isManager = isAdmin || user?.role === 'manager';
+  // The source store approves and dispatches; the destination store confirms what arrived
+  const canDispatch = isAdmin || (user?.role === 'manager' && isOutgoing(transfer, storeId));
+  const canReceive = isAdmin || isIncoming(transfer, storeId);
+  const canCancel =
+    isManager &&
+    (transfer.status === 'requested' || transfer.status === 'approved') &&
+    (isAdmin || isOutgoing(transfer, storeId) || isIncoming(transfer, storeId));
+
+  const showDispatchForm = transfer.status === 'approved' && canDispatch;
+  const showReceiveForm = transfer.status === 'dispatched' && canReceive;
+  const isReceived = transfer.status === 'received' || transfer.status === 'received_with_discrepancy';
+  const isPrintable = transfer.status !== 'requested' && transfer.status !== 'cancelled';
+
+  const dispatchQuantity = (productId: string, requested: number) => dispatchQuantities[productId] ?? requested;
+
+  const receiveLine = (productId: string, shipped: number): ReceiveLineState =>
+    receiving[productId] || { receivedQuantity: shipped, discrepancyNote: '' };
+
+  const updateReceiveLine = (productId: string, shipped: number, changes: Partial<ReceiveLineState>) => {
+    setReceiving({ ...receiving, [productId]: { ...receiveLine(productId, shipped), ...changes } });
+  };
+
+  const handleDispatch = () => {
+    setError('');
+    const invalid = transfer.lines.find((line) => {
+      const quantity = dispatchQuantity(productIdOf(line.product), line.quantity);
+      return !Number.isInteger(quantity) || quantity < 0 || quantity > line.quantity;
+    });
+    if (invalid) {
+      setError(`Dispatch a whole number from 0 to ${invalid.quantity} for ${productNameOf(invalid.product)}`);
+      return;
+    }
+    const lines = transfer.lines.map((line) => ({
+      product: productIdOf(line.product),
+      quantity: dispatchQuantity(productIdOf(line.product), line.quantity),
+    }));
+    if (lines.every((line) => line.quantity <= 0)) {
+      setError('Nothing to dispatch - every quantity is zero');
+      return;
+    }
+    if (window.confirm('Dispatch these quantities? They will be deducted from the source store now.')) {
+      dispatchMutation.mutate(lines);
+    }
+  };
+
+  const handleReceive = () => {
+    setError('');
+    const lines = transfer.lines.map((line) => {
+      const productId = productIdOf(line.product);
+      const entry = receiveLine(productId, shippedQuantity(line));
+      return {
+        product: productId,
+        receivedQuantity: entry.receivedQuantity,
+        discrepancyNote: entry.discrepancyNote.trim() || undefined,
+        shipped: shippedQuantity(line),
+        name: productNameOf(line.product),
+      };
+    });
+    const invalid = lines.find((line) => !Number.isInteger(line.receivedQuantity) || line.receivedQuantity < 0);
+    if (invalid) {
+      setError(`Enter a whole number of 0 or more received for ${invalid.name}`);
+      return;
+    }
+    const unexplained = lines.find((line) => line.receivedQuantity !== line.shipped && !line.discrepancyNote);
+    if (unexplained) {
+      setError(`Add a note explaining the difference for ${unexplained.name}`);
+      return;
+    }
+    receiveMutation.mutate(
+      lines.map(({ product, receivedQuantity, discrepancyNote }) => ({ product, receivedQuantity, discrepancyNote }))
+    );
+  };
+
+  const handleCancel = () => {
+    const reason = window.prompt(`Why is ${transfer.transferNumber} being cancelled?`);
+    if (reason && reason.trim()) {
+      cancelMutation.mutate(reason.trim());
+    }
+  };
+
+  const timeline = [
+    { label: 'Requested', at: transfer.createdAt, by: transfer.requestedBy },
+    { label: 'Approved', at: transfer.approvedAt, by: transfer.approvedBy },
+    { label: 'Dispatched', at: transfer.dispatchedAt, by: transfer.dispatchedBy },
+    { label: 'Received', at: transfer.receivedAt, by: transfer.receivedBy },
+  ];
+
+  return (
+    <div>
+      <div className="flex justify-between items-start mb-6 print:hidden">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-mercellus">{transfer.transferNumber}</h1>
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${TRANSFER_STATUS_BADGES[transfer.status]}`}>
+              {TRANSFER_STATUS_LABELS[transfer.status]}
+            </span>
+          </div>
+          <p className="text-gray-600">
+            {storeNameOf(transfer.fromStore)} → {storeNameOf(transfer.toStore)}
+          </p>
+          <Link to="/transfers" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to Transfers
+          </Link>
+        </div>
+        <div className="flex gap-2">
+          {isPrintable && (
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              Print Delivery Note
+            </button>
+          )}
+          {transfer.status === 'requested' && canDispatch && (
+            <button
+              onClick={() => approveMutation.mutate()}
+              disabled={approveMutation.isLoading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              Approve
+            </button>
+          )}
+          {canCancel && (
+            <button
+              onClick={handleCancel}
+              disabled={cancelMutation.isLoading}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              Cancel Transfer
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded print:hidden">
+          {error}
+        </div>
+      )}
+
+      {transfer.status === 'received_with_discrepancy' && (
+        <div className="mb-4 p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded print:hidden">
+          The destination store received a different quantity than was dispatched on one or more lines.
+        </div>
+      )}
+
+      {transfer.status === 'cancelled' && transfer.cancelReason && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded print:hidden">
+          Cancelled: {transfer.cancelReason}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 print:hidden">
+        <div className="lg:col-span-2 bg-white p-6 rounded-lg shadow">
+          <h2 className="text-2xl font-mercellus mb-4">Items</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dispatched</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                  {showReceiveForm && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {transfer.lines.map((line) => {
+                  const productId = productIdOf(line.product);
+                  const shipped = shippedQuantity(line);
+                  const entry = receiveLine(productId, shipped);
+                  const difference = showReceiveForm ? entry.receivedQuantity - shipped : lineDiscrepancy(line);
+                  return (
+                    <tr key={productId} className={difference !== 0 ? 'bg-yellow-50' : ''}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{productNameOf(line.product)}</div>
+                        {typeof line.product === 'object' && (
+                          <div className="text-sm text-gray-500">{line.product.sku}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{line.quantity}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {showDispatchForm ? (
+                          <input
+                            type="number"
+                            value={dispatchQuantity(productId, line.quantity)}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                              setDispatchQuantities({ ...dispatchQuantities, [productId]: Number(e.target.value) })
+                            }
+                            min="0"
+                            max={line.quantity}
+                            className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                          />
+                        ) : (
+                          line.dispatchedQuantity ?? '-'
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {showReceiveForm ? (
+                          <input
+                            type="number"
+                            value={entry.receivedQuantity}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                              updateReceiveLine(productId, shipped, { receivedQuantity: Number(e.target.value) })
+                            }
+                            min="0"
+                            className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                          />
+                        ) : (
+                          line.receivedQuantity ?? '-'
+                        )}
+                        {difference !== 0 && (
+                          <span className={`ml-2 text-xs font-medium ${difference < 0 ? 'text-red-600' : 'text-yellow-700'}`}>
+                            {difference > 0 ? '+' : ''}
+                            {difference}
+                          </span>
+                        )}
+                        {!showReceiveForm && line.discrepancyNote && (
+                          <div className="text-xs text-gray-500 mt-1">{line.discrepancyNote}</div>
+                        )}
+                      </td>
+                      {showReceiveForm && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <input
+                            type="text"
+                            value={entry.discrepancyNote}
+                            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                              updateReceiveLine(productId, shipped, { discrepancyNote: e.target.value })
+                            }
+                            placeholder={difference !== 0 ? 'Required - e.g. 2 damaged' : ''}
+                            className={`w-48 px-3 py-1 border rounded-lg focus:ring-2 focus:ring-blue-500 ${
+                              difference !== 0 && !entry.discrepancyNote.trim() ? 'border-yellow-500' : 'border-gray-300'
+                            }`}
+                          />
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {showDispatchForm && (
+            <div className="mt-6 border-t pt-4 flex justify-between items-center">
+              <p className="text-sm text-gray-600">
+                Lower a quantity if less is going on the truck than was requested.
+              </p>
+              <button
+                onClick={handleDispatch}
+                disabled={dispatchMutation.isLoading}
+                className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+              >
+                {dispatchMutation.isLoading ? 'Dispatching...' : 'Dispatch'}
+              </button>
+            </div>
+          )}
+
+          {showReceiveForm && (
+            <div className="mt-6 border-t pt-4 flex gap-4 items-end">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <input
+                  type="text"
+                  value={receiptNotes}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setReceiptNotes(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                onClick={handleReceive}
+                disabled={receiveMutation.isLoading}
+                className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                {receiveMutation.isLoading ? 'Receiving...' : 'Confirm Receipt'}
+              </button>
+            </div>
+          )}
+
+          {transfer.status === 'dispatched' && !canReceive && (
+            <p className="mt-4 text-sm text-gray-600">
+              In transit - waiting for {storeNameOf(transfer.toStore)} to confirm receipt.
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow">
+          <h2 className="text-2xl font-mercellus mb-4">History</h2>
+          <ol className="space-y-3">
+            {timeline.map((step) => (
+              <li key={step.label} className={step.at ? 'text-gray-900' : 'text-gray-400'}>
+                <p className="text-sm font-medium">{step.label}</p>
+                <p className="text-sm">
+                  {formatDateTime(step.at)}
+                  {nameOf(step.by) && ` · ${nameOf(step.by)}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+          {transfer.notes && (
+            <p className="mt-4 text-sm text-gray-600">
+              <strong>Notes:</strong> {transfer.notes}
+            </p>
+          )}
+          {isReceived && (
+            <p className="mt-4 text-sm text-gray-600">
+              Stock has been added to {storeNameOf(transfer.toStore)}.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {isPrintable && <DeliveryNote transfer={transfer} />}
+    </div>
+  );
+};
+
+export default TransferDetail;
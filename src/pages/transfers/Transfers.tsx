@@ -0,0 +1,211 @@
+import { useState, ChangeEvent } from 'react';
+import { useQuery } from 'react-query';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import api from '../../services/api.js';
+import { useAuthStore } from '../../store/authStore.js';
+import { transferService } from '../../services/transferService.js';
+import StockTransfer from '../inventory/StockTransfer.js';
+import {
+  isIncoming,
+  OPEN_TRANSFER_STATUSES,
+  storeNameOf,
+  totalUnits,
+  TRANSFER_STATUS_BADGES,
+  TRANSFER_STATUS_LABELS,
+} from './transfers.js';
+import type { Store, StockTransferStatus } from '../../types/index.js';
+
+interface StoresResponse {
+  success: boolean;
+  data: {
+    stores: Store[];
+  };
+}
+
+type Direction = 'all' | 'in' | 'out';
+
+const DIRECTION_LABELS: Record<Direction, string> = {
+  all: 'In & Out',
+  in: 'Incoming',
+  out: 'Outgoing',
+};
+
+const STATUS_FILTERS: Array<{ value: string; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'all', label: 'All' },
+  ...(Object.keys(TRANSFER_STATUS_LABELS) as StockTransferStatus[]).map((status) => ({
+    value: status,
+    label: TRANSFER_STATUS_LABELS[status],
+  })),
+];
+
+const Transfers = () => {
+  const { user } = useAuthStore();
+  const isAdmin = user?.role === 'admin';
+  const canView = isAdmin || user?.role === 'manager' || user?.role === 'staff';
+  const canRequest = isAdmin || user?.role === 'manager';
+  const userStoreId = typeof user?.store === 'object' ? user.store._id : user?.store || '';
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showRequest, setShowRequest] = useState(false);
+
+  const direction = (searchParams.get('direction') as Direction) || 'all';
+  const statusFilter = searchParams.get('status') || 'open';
+  // Admins look at transfers for any store, or across all stores when none is picked
+  const store = isAdmin ? searchParams.get('store') || '' : userStoreId;
+
+  const { data: storesData } = useQuery<StoresResponse>(
+    'stores',
+    async () => {
+      const response = await api.get<StoresResponse>('/stores');
+      return response.data;
+    },
+    { enabled: isAdmin, staleTime: 10 * 60 * 1000 } // 10 minutes
+  );
+
+  const { data, isLoading } = useQuery(
+    ['transfers', store, direction, statusFilter],
+    () => transferService.getTransfers({
+      store: store || undefined,
+      direction: store && direction !== 'all' ? direction : undefined,
+      status: statusFilter === 'open' ? OPEN_TRANSFER_STATUSES.join(',') : statusFilter === 'all' ? undefined : statusFilter,
+    }),
+    { enabled: canView, keepPreviousData: true }
+  );
+
+  const updateFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    setSearchParams(next);
+  };
+
+  if (!canView) {
+    return (
+      <div className="bg-white p-8 rounded-lg shadow text-center">
+        <p className="text-gray-600">You don't have access to stock transfers.</p>
+      </div>
+    );
+  }
+
+  const transfers = data?.data?.transfers || [];
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-mercellus">Stock Transfers</h1>
+        {canRequest && (
+          <button
+            onClick={() => setShowRequest(true)}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            + Request Transfer
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white p-4 rounded-lg shadow mb-6 flex flex-wrap gap-4 items-center">
+        {isAdmin && (
+          <select
+            value={store}
+            onChange={(e: ChangeEvent<HTMLSelectElement>) => updateFilter('store', e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+          >
+            <option value="">All stores</option>
+            {storesData?.data?.stores?.map((s) => (
+              <option key={s._id} value={s._id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {store && (
+          <div className="flex gap-2">
+            {(Object.keys(DIRECTION_LABELS) as Direction[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => updateFilter('direction', value === 'all' ? '' : value)}
+                className={`px-3 py-1.5 rounded-lg text-sm ${
+                  direction === value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {DIRECTION_LABELS[value]}
+              </button>
+            ))}
+          </div>
+        )}
+        <select
+          value={statusFilter}
+          onChange={(e: ChangeEvent<HTMLSelectElement>) => updateFilter('status', e.target.value === 'open' ? '' : e.target.value)}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+        >
+          {STATUS_FILTERS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transfer #</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">To</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Items</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dispatched</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {transfers.map((transfer) => {
+              const incoming = isIncoming(transfer, store || null);
+              return (
+                <tr key={transfer._id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <Link to={`/transfers/${transfer._id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                      {transfer.transferNumber}
+                    </Link>
+                    {transfer.createdAt && (
+                      <div className="text-gray-500">{format(new Date(transfer.createdAt), 'dd MMM yyyy')}</div>
+                    )}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${store && !incoming ? 'font-medium text-gray-900' : 'text-gray-600'}`}>
+                    {storeNameOf(transfer.fromStore)}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${incoming ? 'font-medium text-gray-900' : 'text-gray-600'}`}>
+                    {storeNameOf(transfer.toStore)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${TRANSFER_STATUS_BADGES[transfer.status]}`}>
+                      {TRANSFER_STATUS_LABELS[transfer.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {transfer.lines.length} products · {totalUnits(transfer.lines)} units
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {transfer.dispatchedAt ? format(new Date(transfer.dispatchedAt), 'dd MMM yyyy') : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {!isLoading && transfers.length === 0 && (
+          <div className="p-8 text-center">
+            <p className="text-gray-600">No transfers found</p>
+          </div>
+        )}
+        {isLoading && <div className="p-8 text-center text-gray-600">Loading...</div>}
+      </div>
+
+      {showRequest && <StockTransfer onClose={() => setShowRequest(false)} />}
+    </div>
+  );
+};
+
+export default Transfers;
@@ -0,0 +1,41 @@
+import type { StockTransfer, StockTransferLine, StockTransferStatus, Store } from '../../types/index.js';
+
+export const TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  dispatched: 'In Transit',
+  received: 'Received',
+  received_with_discrepancy: 'Received with Discrepancy',
+  cancelled: 'Cancelled',
+};
+
+export const TRANSFER_STATUS_BADGES: Record<StockTransferStatus, string> = {
+  requested: 'bg-gray-100 text-gray-800',
+  approved: 'bg-blue-100 text-blue-800',
+  dispatched: 'bg-purple-100 text-purple-800',
+  received: 'bg-green-100 text-green-800',
+  received_with_discrepancy: 'bg-yellow-100 text-yellow-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+// Transfers someone still has to act on
+export const OPEN_TRANSFER_STATUSES: StockTransferStatus[] = ['requested', 'approved', 'dispatched'];
+
+export const storeIdOf = (store: Store | string): string => (typeof store === 'object' ? store._id : store);
+
+export const storeNameOf = (store: Store | string): string => (typeof store === 'object' ? store.name : 'Store');
+
+export const isOutgoing = (transfer: StockTransfer, storeId: string | null): boolean =>
+  !!storeId && storeIdOf(transfer.fromStore) === storeId;
+
+export const isIncoming = (transfer: StockTransfer, storeId: string | null): boolean =>
+  !!storeId && storeIdOf(transfer.toStore) === storeId;
+
+// What actually left the source store, falling back to the request before dispatch
+export const shippedQuantity = (line: StockTransferLine): number => line.dispatchedQuantity ?? line.quantity;
+
+export const lineDiscrepancy = (line: StockTransferLine): number =>
+  line.receivedQuantity === undefined ? 0 : line.receivedQuantity - shippedQuantity(line);
+
+export const totalUnits = (lines: StockTransferLine[], quantityOf: (line: StockTransferLine) => number = (line) => line.quantity) =>
+  lines.reduce((sum, line) => sum + quantityOf(line), 0);
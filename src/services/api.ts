@@ -1,4 +1,4 @@
-import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import axios, { AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
 
 // Get API URL from environment variable or use relative path
 const API_URL = import.meta.env.VITE_API_URL 
@@ -51,6 +51,22 @@ export const clearTokenCache = (): void => {
   tokenCacheTime = 0;
 };
 
+// True when the request never reached the server (offline, DNS failure, timeout)
+export const isNetworkError = (error: unknown): boolean => {
+  return axios.isAxiosError(error) && !error.response;
+};
+
+// Header the backend uses to deduplicate replayed writes (offline sync, double-submits)
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export const withIdempotencyKey = (idempotencyKey?: string): AxiosRequestConfig => {
+  return idempotencyKey ? { headers: { [IDEMPOTENCY_HEADER]: idempotencyKey } } : {};
+};
+
+// Manager override checks run while a cashier is signed in - a rejected
+// override must not end the cashier's session
+export const MANAGER_OVERRIDE_URL = '/auth/verify-override';
+
 // Add token to requests
 api.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
@@ -69,7 +85,7 @@ api.interceptors.request.use(
 api.interceptors.response.use(
   (response) => response,
   (error: AxiosError) => {
-    if (error.response?.status === 401) {
+    if (error.response?.status === 401 && error.config?.url !== MANAGER_OVERRIDE_URL) {
       // Clear cached token
       clearTokenCache();
       // Don't redirect if we're already on login or register page
@@ -1,4 +1,4 @@
-import api from './api.js';
+import api, { MANAGER_OVERRIDE_URL } from './api.js';
 
 interface LoginResponse {
   success: boolean;
@@ -46,8 +46,33 @@ export interface Store {
   };
   phone?: string;
   email?: string;
+  // Product prices already include VAT; otherwise VAT is added at checkout
+  taxInclusive?: boolean;
 }
 
+interface UsersResponse {
+  success: boolean;
+  data: {
+    users: User[];
+  };
+}
+
+interface VerifyOverrideResponse {
+  success: boolean;
+  data: {
+    approver: User;
+    // Short-lived token signed for this approver and action; sent with the
+    // sale or void it approves so the server can check the approval itself
+    overrideToken: string;
+    expiresAt: string;
+  };
+}
+
+// Either the approver's own credentials or their override PIN
+export type OverrideCredentials =
+  | { email: string; password: string }
+  | { pin: string };
+
 export interface RegisterData {
   name: string;
   email: string;
@@ -68,6 +93,20 @@ export const authService = {
     return response.data;
   },
 
+  // Verifies a manager's credentials without replacing the signed-in user's session
+  verifyOverride: async (
+    credentials: OverrideCredentials,
+    action: string
+  ): Promise<VerifyOverrideResponse> => {
+    const response = await api.post<VerifyOverrideResponse>(MANAGER_OVERRIDE_URL, { ...credentials, action });
+    return response.data;
+  },
+
+  getUsers: async (params?: { role?: User['role']; store?: string }): Promise<UsersResponse> => {
+    const response = await api.get<UsersResponse>('/auth/users', { params });
+    return response.data;
+  },
+
   getMe: async (): Promise<MeResponse> => {
     const response = await api.get<MeResponse>('/auth/me');
     return response.data;
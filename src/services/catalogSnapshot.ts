@@ -0,0 +1,139 @@
+// Catalogue Snapshot
+// Keeps a per-store copy of active products and stock levels in IndexedDB so the POS keeps working offline
+
+import api from './api.js';
+import { offlineSync } from './offlineSync.js';
+import { fetchAllPages } from './pagination.js';
+import type { Product, Inventory } from '../types/index.js';
+import type { SaleTransactionData } from './transactionService.js';
+
+interface PaginatedResponse {
+  pagination?: {
+    pages: number;
+    total: number;
+  };
+}
+
+interface ProductSnapshot {
+  id: string; // store id
+  products: Product[];
+  refreshedAt: number;
+}
+
+interface InventorySnapshot {
+  id: string; // store id
+  inventory: Inventory[];
+  refreshedAt: number;
+}
+
+export interface SnapshotProductFilters {
+  search?: string;
+  category?: string;
+  brand?: string;
+}
+
+const getProductId = (product: Product | string): string =>
+  typeof product === 'object' ? product._id : product;
+
+// Quantities sold offline that the server has not seen yet
+const getPendingSaleQuantities = (storeId: string): Map<string, number> => {
+  const pending = new Map<string, number>();
+  offlineSync.getSyncQueue()
+    .filter((item) => item.type === 'transaction' && item.action === 'create')
+    .forEach((item) => {
+      const sale = item.data as SaleTransactionData;
+      if (sale.store !== storeId) return;
+      sale.items.forEach((line) => {
+        pending.set(line.product, (pending.get(line.product) || 0) + line.quantity);
+      });
+    });
+  return pending;
+};
+
+// The catalogue endpoints are paginated; a snapshot needs every page
+const fetchAllProducts = (storeId: string): Promise<Product[]> =>
+  fetchAllPages(async (page, limit) => {
+    const response = await api.get<{ data: { products: Product[] } & PaginatedResponse }>('/products', {
+      params: { store: storeId, isActive: true, page, limit },
+    });
+    const { products, pagination } = response.data.data;
+    return { rows: products || [], pages: pagination?.pages || 1, total: pagination?.total };
+  });
+
+const fetchAllInventory = (storeId: string): Promise<Inventory[]> =>
+  fetchAllPages(async (page, limit) => {
+    const response = await api.get<{ data: { inventory: Inventory[] } & PaginatedResponse }>(
+      `/inventory/store/${storeId}`,
+      { params: { page, limit } }
+    );
+    const { inventory, pagination } = response.data.data;
+    return { rows: inventory || [], pages: pagination?.pages || 1, total: pagination?.total };
+  });
+
+const applyQuantityChanges = (inventory: Inventory[], changes: Map<string, number>): Inventory[] => {
+  return inventory.map((item) => {
+    const sold = changes.get(getProductId(item.product));
+    if (!sold) return item;
+    const quantity = Math.max(0, item.quantity - sold);
+    return { ...item, quantity, availableQuantity: Math.max(0, quantity - (item.reservedQuantity || 0)) };
+  });
+};
+
+export const catalogSnapshot = {
+  refresh: async (storeId: string): Promise<void> => {
+    const [products, inventory] = await Promise.all([fetchAllProducts(storeId), fetchAllInventory(storeId)]);
+    const refreshedAt = Date.now();
+
+    const productSnapshot: ProductSnapshot = {
+      id: storeId,
+      products,
+      refreshedAt,
+    };
+
+    // Server stock does not include sales still waiting in the queue - subtract them again
+    const inventorySnapshot: InventorySnapshot = {
+      id: storeId,
+      inventory: applyQuantityChanges(inventory, getPendingSaleQuantities(storeId)),
+      refreshedAt,
+    };
+
+    await offlineSync.storeOffline('products', productSnapshot);
+    await offlineSync.storeOffline('inventory', inventorySnapshot);
+  },
+
+  getProducts: async (storeId: string, filters: SnapshotProductFilters = {}): Promise<Product[] | null> => {
+    const snapshot: ProductSnapshot | undefined = await offlineSync.getOffline('products', storeId);
+    if (!snapshot) return null;
+
+    const search = filters.search?.toLowerCase();
+    return snapshot.products.filter((product) => {
+      if (filters.category && product.category !== filters.category) return false;
+      if (filters.brand && product.brand !== filters.brand) return false;
+      if (!search) return true;
+      return (
+        product.name.toLowerCase().includes(search) ||
+        product.sku.toLowerCase().includes(search) ||
+        (product.barcode && product.barcode.toLowerCase().includes(search))
+      );
+    });
+  },
+
+  getInventory: async (storeId: string): Promise<Inventory[] | null> => {
+    const snapshot: InventorySnapshot | undefined = await offlineSync.getOffline('inventory', storeId);
+    return snapshot ? snapshot.inventory : null;
+  },
+
+  // Take stock for a sale that was queued offline
+  decrementStock: async (storeId: string, items: Array<{ product: string; quantity: number }>): Promise<void> => {
+    const snapshot: InventorySnapshot | undefined = await offlineSync.getOffline('inventory', storeId);
+    if (!snapshot) return;
+
+    const sold = new Map<string, number>();
+    items.forEach((item) => sold.set(item.product, (sold.get(item.product) || 0) + item.quantity));
+
+    await offlineSync.storeOffline('inventory', {
+      ...snapshot,
+      inventory: applyQuantityChanges(snapshot.inventory, sold),
+    });
+  },
+};
@@ -1,10 +1,16 @@
-import api from './api.js';
+import api, { withIdempotencyKey } from './api.js';
 import type { Customer } from '../types/index.js';
 
 interface CustomersResponse {
   success: boolean;
   data: {
     customers: Customer[];
+    pagination?: {
+      page: number;
+      limit: number;
+      total: number;
+      pages: number;
+    };
   };
   count?: number;
 }
@@ -18,7 +24,7 @@ interface CustomerResponse {
   };
 }
 
-interface CreateCustomerData {
+export interface CreateCustomerData {
   name: string;
   email?: string;
   phone: string;
@@ -44,6 +50,8 @@ export const customerService = {
     tag?: string;
     minPoints?: number;
     sortBy?: string;
+    page?: number;
+    limit?: number;
   }): Promise<CustomersResponse> => {
     const response = await api.get<CustomersResponse>('/customers', { params });
     return response.data;
@@ -54,8 +62,8 @@ export const customerService = {
     return response.data;
   },
 
-  createCustomer: async (customerData: CreateCustomerData): Promise<CustomerResponse> => {
-    const response = await api.post<CustomerResponse>('/customers', customerData);
+  createCustomer: async (customerData: CreateCustomerData, idempotencyKey?: string): Promise<CustomerResponse> => {
+    const response = await api.post<CustomerResponse>('/customers', customerData, withIdempotencyKey(idempotencyKey));
     return response.data;
   },
 
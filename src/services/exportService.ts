@@ -0,0 +1,102 @@
+import { format as formatDate } from 'date-fns';
+import { buildXlsx } from './xlsxWriter.js';
+import type { XlsxCell, XlsxCellStyle } from './xlsxWriter.js';
+import type { PageFetcher, PageProgress } from './pagination.js';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => string | number | Date | null | undefined;
+  // How the value is written: formatted text in CSV, a typed and formatted cell in XLSX
+  type?: XlsxCellStyle;
+  // Columns switched off until the user picks them
+  optional?: boolean;
+}
+
+export type ExportPageFetcher<T> = PageFetcher<T>;
+
+export type ExportProgress = PageProgress;
+
+const EXPORT_LOCALE = 'en-BD';
+
+const currencyFormatter = new Intl.NumberFormat(EXPORT_LOCALE, {
+  style: 'currency',
+  currency: 'BDT',
+  minimumFractionDigits: 2,
+});
+
+const numberFormatter = new Intl.NumberFormat(EXPORT_LOCALE);
+
+const toDate = (value: string | number | Date): Date => (value instanceof Date ? value : new Date(value));
+
+const formatForCsv = (value: ReturnType<ExportColumn<unknown>['value']>, type: XlsxCellStyle = 'text'): string => {
+  if (value === null || value === undefined || value === '') return '';
+  switch (type) {
+    case 'currency':
+      return typeof value === 'number' ? currencyFormatter.format(value) : String(value);
+    case 'number':
+      return typeof value === 'number' ? numberFormatter.format(value) : String(value);
+    case 'date':
+      return formatDate(toDate(value), 'dd MMM yyyy');
+    case 'datetime':
+      return formatDate(toDate(value), 'dd MMM yyyy HH:mm');
+    default:
+      return value instanceof Date ? formatDate(value, 'dd MMM yyyy HH:mm') : String(value);
+  }
+};
+
+const escapeCsv = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Spreadsheets run text starting with these as a formula, so free text such as a
+// customer name or product note is prefixed with ' to keep it as plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: ReturnType<ExportColumn<unknown>['value']>, type?: XlsxCellStyle): string => {
+  const text = formatForCsv(value, type);
+  // Numbers can't carry a formula, and a negative amount has to stay a number
+  return escapeCsv(typeof value !== 'number' && FORMULA_PREFIX.test(text) ? `'${text}` : text);
+};
+
+const toXlsxCell = (value: ReturnType<ExportColumn<unknown>['value']>, type: XlsxCellStyle = 'text'): XlsxCell => {
+  if ((type === 'date' || type === 'datetime') && value !== null && value !== undefined && value !== '') {
+    return { value: toDate(value), style: type };
+  }
+  return { value, style: type };
+};
+
+export const exportService = {
+  toCsv: <T>(rows: T[], columns: ExportColumn<T>[]): string => {
+    const lines = [columns.map((column) => escapeCsv(column.header)).join(',')];
+    rows.forEach((row) => {
+      lines.push(columns.map((column) => toCsvCell(column.value(row), column.type)).join(','));
+    });
+    return lines.join('\r\n');
+  },
+
+  toXlsx: <T>(rows: T[], columns: ExportColumn<T>[], sheetName: string): Blob =>
+    buildXlsx(
+      sheetName,
+      columns.map((column) => column.header),
+      rows.map((row) => columns.map((column) => toXlsxCell(column.value(row), column.type)))
+    ),
+
+  download: <T>(rows: T[], columns: ExportColumn<T>[], fileName: string, exportFormat: ExportFormat) => {
+    const stamp = formatDate(new Date(), 'yyyy-MM-dd');
+    const blob =
+      exportFormat === 'csv'
+        // BOM so Excel opens the file as UTF-8 and shows ৳ correctly
+        ? new Blob(['\uFEFF' + exportService.toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' })
+        : exportService.toXlsx(rows, columns, fileName);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}-${stamp}.${exportFormat}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  },
+};
@@ -0,0 +1,42 @@
+import api from './api.js';
+import type { InventoryMovement, InventoryMovementType } from '../types/index.js';
+
+export interface InventoryMovementsResponse {
+  success: boolean;
+  data: {
+    movements: InventoryMovement[];
+    // On-hand quantity at the start and end of the date range, counting every movement
+    // type whatever the type filter and page
+    openingBalance: number;
+    closingBalance: number;
+    pagination?: {
+      page: number;
+      pages: number;
+      total: number;
+    };
+  };
+}
+
+export interface InventoryMovementFilters {
+  // yyyy-MM-dd, inclusive
+  startDate?: string;
+  endDate?: string;
+  type?: InventoryMovementType;
+  page?: number;
+  limit?: number;
+}
+
+export const inventoryService = {
+  // Oldest first, the order a stock card is read in
+  getMovements: async (
+    storeId: string,
+    productId: string,
+    filters?: InventoryMovementFilters
+  ): Promise<InventoryMovementsResponse> => {
+    const response = await api.get<InventoryMovementsResponse>(
+      `/inventory/store/${storeId}/product/${productId}/movements`,
+      { params: filters }
+    );
+    return response.data;
+  },
+};
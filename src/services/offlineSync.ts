@@ -1,29 +1,96 @@
 // Offline Sync Service
 // Handles offline data storage and synchronization
 
-interface PendingSync {
+export interface PendingSync {
   id: string;
   type: 'transaction' | 'inventory' | 'customer' | 'product';
   action: 'create' | 'update' | 'delete';
   data: any;
   timestamp: number;
   retries: number;
+  // Stable client-generated key so the server can ignore replays of the same operation
+  idempotencyKey: string;
+  lastError?: string;
 }
 
+// Outcome of replaying one queued item against the server
+export type SyncResult =
+  | { status: 'synced' }
+  | { status: 'duplicate' }
+  | { status: 'rejected'; reason: string }
+  | { status: 'needs_resolution'; reason: string }
+  | { status: 'retry'; reason: string }
+  // The request never reached the server - stop this run without spending a retry
+  | { status: 'offline' };
+
+// Items the server refused (or that exhausted their retries) are parked here instead of being deleted.
+// Items a manager discards stay here too, as an audit trail.
+export interface DeadLetterItem extends PendingSync {
+  status: 'rejected' | 'needs_resolution' | 'discarded';
+  reason: string;
+  failedAt: number;
+  discardReason?: string;
+  discardedAt?: number;
+}
+
+export interface SyncItemResult {
+  item: PendingSync;
+  result: SyncResult;
+}
+
+const MAX_RETRIES = 5;
+
+export const generateIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
 class OfflineSyncService {
   private dbName = 'pos-offline-db';
-  private version = 1;
+  private version = 3;
   private db: IDBDatabase | null = null;
   private syncQueue: PendingSync[] = [];
+  private initPromise: Promise<void> | null = null;
+  // The run in progress; overlapping callers wait on it instead of replaying the same items
+  private syncRun: Promise<SyncItemResult[]> | null = null;
 
   async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    // Share a single open request between concurrent callers
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.version);
+      let blocked = false;
 
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        this.db = request.result;
-        this.loadSyncQueue();
+      request.onerror = () => {
+        this.initPromise = null;
+        reject(request.error);
+      };
+      // Another tab still holds an older version open, so the upgrade can't run yet
+      request.onblocked = () => {
+        blocked = true;
+        this.initPromise = null;
+        console.warn('Offline storage upgrade is blocked by another open POS tab');
+        reject(new Error('Close other open POS tabs to finish updating offline storage'));
+      };
+      request.onsuccess = async () => {
+        const db = request.result;
+        if (blocked) {
+          // The caller has already been told it failed; the next init() opens a fresh connection
+          db.close();
+          return;
+        }
+        // Step aside when a newer tab needs to upgrade, instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          this.db = null;
+          this.initPromise = null;
+          console.warn('Offline storage was upgraded in another tab; reload this tab to keep working offline');
+        };
+        this.db = db;
+        await this.loadSyncQueue();
         resolve();
       };
 
@@ -50,8 +117,19 @@ class OfflineSyncService {
         if (!db.objectStoreNames.contains('products')) {
           db.createObjectStore('products', { keyPath: 'id' });
         }
+
+        if (!db.objectStoreNames.contains('deadLetter')) {
+          db.createObjectStore('deadLetter', { keyPath: 'id' });
+        }
+
+        // Carts put on hold at the till
+        if (!db.objectStoreNames.contains('parkedCarts')) {
+          db.createObjectStore('parkedCarts', { keyPath: 'id' });
+        }
       };
     });
+
+    return this.initPromise;
   }
 
   private async loadSyncQueue(): Promise<void> {
@@ -61,16 +139,25 @@ class OfflineSyncService {
     const store = transaction.objectStore('syncQueue');
     const request = store.getAll();
 
-    request.onsuccess = () => {
-      this.syncQueue = request.result || [];
-    };
+    return new Promise((resolve) => {
+      request.onsuccess = () => {
+        // Items queued before idempotency keys existed reuse their queue id as the key
+        this.syncQueue = (request.result || []).map((item: PendingSync) => ({
+          ...item,
+          idempotencyKey: item.idempotencyKey || item.id
+        }));
+        resolve();
+      };
+      request.onerror = () => resolve();
+    });
   }
 
   // Add item to sync queue
   async addToSyncQueue(
     type: PendingSync['type'],
     action: PendingSync['action'],
-    data: any
+    data: any,
+    idempotencyKey: string = generateIdempotencyKey()
   ): Promise<string> {
     if (!this.db) {
       await this.init();
@@ -82,9 +169,14 @@ class OfflineSyncService {
       action,
       data,
       timestamp: Date.now(),
-      retries: 0
+      retries: 0,
+      idempotencyKey
     };
 
+    return this.enqueue(syncItem);
+  }
+
+  private async enqueue(syncItem: PendingSync): Promise<string> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
         reject(new Error('Database not initialized'));
@@ -152,11 +244,38 @@ class OfflineSyncService {
     });
   }
 
+  // Delete offline data
+  async deleteOffline(storeName: string, id: string): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database not initialized'));
+        return;
+      }
+
+      const transaction = this.db.transaction([storeName], 'readwrite');
+      const objectStore = transaction.objectStore(storeName);
+      const request = objectStore.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Get sync queue
   getSyncQueue(): PendingSync[] {
     return [...this.syncQueue];
   }
 
+  // Persist changes to a queued item (retry count, last error)
+  async updateSyncItem(item: PendingSync): Promise<void> {
+    await this.storeOffline('syncQueue', item);
+    this.syncQueue = this.syncQueue.map(existing => existing.id === item.id ? item : existing);
+  }
+
   // Remove from sync queue
   async removeFromSyncQueue(id: string): Promise<void> {
     if (!this.db) return;
@@ -175,46 +294,169 @@ class OfflineSyncService {
     });
   }
 
+  // Move a queued item to the dead-letter store so it is kept for manual review
+  async moveToDeadLetter(
+    item: PendingSync,
+    status: DeadLetterItem['status'],
+    reason: string
+  ): Promise<void> {
+    const deadLetterItem: DeadLetterItem = {
+      ...item,
+      lastError: reason,
+      status,
+      reason,
+      failedAt: Date.now()
+    };
+    await this.storeOffline('deadLetter', deadLetterItem);
+    await this.removeFromSyncQueue(item.id);
+  }
+
+  // Get dead-letter items
+  async getDeadLetters(): Promise<DeadLetterItem[]> {
+    return (await this.getOffline('deadLetter')) || [];
+  }
+
+  // Put a dead-letter item back on the queue with a fresh retry budget.
+  // Passing new data replaces the payload; an edited payload is a different request, so it gets a new key.
+  async requeueDeadLetter(id: string, data?: any): Promise<void> {
+    const deadLetter: DeadLetterItem | undefined = await this.getOffline('deadLetter', id);
+    if (!deadLetter) {
+      throw new Error('Dead-letter item not found');
+    }
+
+    const { status: _status, reason: _reason, failedAt: _failedAt, discardReason: _discardReason, discardedAt: _discardedAt, ...pending } = deadLetter;
+    const syncItem: PendingSync = {
+      ...pending,
+      retries: 0,
+      data: data !== undefined ? data : pending.data,
+      idempotencyKey: data !== undefined ? generateIdempotencyKey() : pending.idempotencyKey
+    };
+
+    await this.enqueue(syncItem);
+    await this.deleteOffline('deadLetter', id);
+  }
+
+  // Drop an item from the queue or dead-letter store, keeping it in the archive with the reason
+  async discard(id: string, discardReason: string): Promise<void> {
+    const queued = this.syncQueue.find(item => item.id === id);
+    const deadLetter: DeadLetterItem | undefined = queued ? undefined : await this.getOffline('deadLetter', id);
+    const item = queued || deadLetter;
+    if (!item) {
+      throw new Error('Sync item not found');
+    }
+
+    const discarded: DeadLetterItem = {
+      ...item,
+      status: 'discarded',
+      reason: deadLetter?.reason || item.lastError || 'Discarded before syncing',
+      failedAt: deadLetter?.failedAt || Date.now(),
+      discardReason,
+      discardedAt: Date.now()
+    };
+    await this.storeOffline('deadLetter', discarded);
+    if (queued) {
+      await this.removeFromSyncQueue(id);
+    }
+  }
+
+  // Snapshot of everything pending or parked, for support tickets
+  async exportQueue(): Promise<string> {
+    await this.init();
+    return JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      syncQueue: this.getSyncQueue(),
+      deadLetter: await this.getDeadLetters()
+    }, null, 2);
+  }
+
   // Check if online
   isOnline(): boolean {
     return navigator.onLine;
   }
 
   // Sync when back online
-  async syncWhenOnline(syncFunction: (item: PendingSync) => Promise<boolean>): Promise<void> {
+  async syncWhenOnline(syncFunction: (item: PendingSync) => Promise<SyncResult>): Promise<SyncItemResult[]> {
     if (!this.isOnline()) {
       // Register for online event
       window.addEventListener('online', () => {
         this.syncWhenOnline(syncFunction);
-      });
-      return;
+      }, { once: true });
+      return [];
     }
 
-    const queue = this.getSyncQueue();
-    if (queue.length === 0) return;
+    if (this.syncRun) return this.syncRun;
 
-    console.log(`🔄 Syncing ${queue.length} pending items...`);
+    this.syncRun = (async () => {
+      await this.init();
+      const queue = this.getSyncQueue();
+      if (queue.length === 0) return [];
+
+      console.log(`🔄 Syncing ${queue.length} pending items...`);
+      return this.processQueue(queue, syncFunction);
+    })();
+
+    try {
+      return await this.syncRun;
+    } finally {
+      this.syncRun = null;
+    }
+  }
+
+  private async processQueue(
+    queue: PendingSync[],
+    syncFunction: (item: PendingSync) => Promise<SyncResult>
+  ): Promise<SyncItemResult[]> {
+    const results: SyncItemResult[] = [];
 
     for (const item of queue) {
+      // Connection dropped mid-run - leave the rest for the next online event
+      if (!this.isOnline()) break;
+
+      let result: SyncResult;
       try {
-        const success = await syncFunction(item);
-        if (success) {
+        result = await syncFunction(item);
+      } catch (error) {
+        console.error(`❌ Sync error for ${item.id}:`, error);
+        result = { status: 'retry', reason: error instanceof Error ? error.message : 'Unknown sync error' };
+      }
+
+      if (result.status === 'offline') {
+        console.log('📴 Connection lost during sync - will resume when back online');
+        break;
+      }
+
+      switch (result.status) {
+        case 'synced':
+        case 'duplicate':
+          // A duplicate means the server already applied this key - nothing left to do
           await this.removeFromSyncQueue(item.id);
-          console.log(`✅ Synced: ${item.type} - ${item.action}`);
-        } else {
-          // Increment retries
-          item.retries++;
-          if (item.retries > 5) {
-            // Remove after 5 failed retries
-            await this.removeFromSyncQueue(item.id);
-            console.warn(`⚠️ Removed after 5 retries: ${item.id}`);
+          console.log(`✅ ${result.status === 'synced' ? 'Synced' : 'Already synced'}: ${item.type} - ${item.action}`);
+          break;
+        case 'rejected':
+        case 'needs_resolution':
+          await this.moveToDeadLetter(item, result.status, result.reason);
+          console.warn(`⚠️ ${item.type} - ${item.action} moved to dead-letter: ${result.reason}`);
+          break;
+        case 'retry': {
+          const retried: PendingSync = { ...item, retries: item.retries + 1, lastError: result.reason };
+          if (retried.retries >= MAX_RETRIES) {
+            await this.moveToDeadLetter(
+              retried,
+              'needs_resolution',
+              `Gave up after ${MAX_RETRIES} attempts: ${result.reason}`
+            );
+            console.warn(`⚠️ Parked after ${MAX_RETRIES} retries: ${item.id}`);
+          } else {
+            await this.updateSyncItem(retried);
           }
+          break;
         }
-      } catch (error) {
-        console.error(`❌ Sync error for ${item.id}:`, error);
-        item.retries++;
       }
+
+      results.push({ item, result });
     }
+
+    return results;
   }
 }
 
@@ -224,4 +466,3 @@ export const offlineSync = new OfflineSyncService();
 if (typeof window !== 'undefined') {
   offlineSync.init().catch(console.error);
 }
-
@@ -0,0 +1,39 @@
+export interface Page<T> {
+  rows: T[];
+  // Total number of pages; 1 when the endpoint isn't paginated
+  pages: number;
+  total?: number;
+}
+
+export type PageFetcher<T> = (page: number, limit: number) => Promise<Page<T>>;
+
+export interface PageProgress {
+  fetched: number;
+  total?: number;
+}
+
+export const FETCH_ALL_PAGE_SIZE = 200;
+
+// Yield to the browser between pages so the UI stays responsive on large fetches
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Walks a paginated endpoint to the end, for views that need every row
+export const fetchAllPages = async <T>(
+  fetchPage: PageFetcher<T>,
+  onProgress?: (progress: PageProgress) => void,
+  signal?: { cancelled: boolean }
+): Promise<T[]> => {
+  const rows: T[] = [];
+  let page = 1;
+  let pages = 1;
+  do {
+    const result = await fetchPage(page, FETCH_ALL_PAGE_SIZE);
+    if (signal?.cancelled) return rows;
+    rows.push(...result.rows);
+    pages = result.pages;
+    onProgress?.({ fetched: rows.length, total: result.total });
+    page += 1;
+    await nextTick();
+  } while (page <= pages);
+  return rows;
+};
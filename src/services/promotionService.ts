@@ -0,0 +1,51 @@
+import api from './api.js';
+import type { Promotion } from '../types/index.js';
+
+interface PromotionsResponse {
+  success: boolean;
+  data: {
+    promotions: Promotion[];
+  };
+}
+
+interface PromotionResponse {
+  success: boolean;
+  data: {
+    promotion: Promotion;
+  };
+}
+
+export type PromotionData = Omit<Promotion, '_id' | 'stores' | 'products' | 'createdAt' | 'updatedAt'> & {
+  stores: string[];
+  products?: string[];
+};
+
+export const promotionService = {
+  getPromotions: async (params?: { store?: string; isActive?: boolean }): Promise<PromotionsResponse> => {
+    const response = await api.get<PromotionsResponse>('/promotions', { params });
+    return response.data;
+  },
+
+  // Promotions running today for the store; time windows are checked at the till
+  getActivePromotions: async (storeId: string): Promise<PromotionsResponse> => {
+    const response = await api.get<PromotionsResponse>('/promotions/active', {
+      params: { store: storeId }
+    });
+    return response.data;
+  },
+
+  createPromotion: async (promotionData: PromotionData): Promise<PromotionResponse> => {
+    const response = await api.post<PromotionResponse>('/promotions', promotionData);
+    return response.data;
+  },
+
+  updatePromotion: async (id: string, promotionData: PromotionData): Promise<PromotionResponse> => {
+    const response = await api.put<PromotionResponse>(`/promotions/${id}`, promotionData);
+    return response.data;
+  },
+
+  deletePromotion: async (id: string): Promise<{ success: boolean; message: string }> => {
+    const response = await api.delete<{ success: boolean; message: string }>(`/promotions/${id}`);
+    return response.data;
+  },
+};
@@ -0,0 +1,124 @@
+import api, { withIdempotencyKey } from './api.js';
+import type { PurchaseOrder, PurchaseOrderStatus, Supplier } from '../types/index.js';
+
+interface SuppliersResponse {
+  success: boolean;
+  data: {
+    suppliers: Supplier[];
+  };
+}
+
+interface SupplierResponse {
+  success: boolean;
+  data: {
+    supplier: Supplier;
+  };
+}
+
+interface PurchaseOrdersResponse {
+  success: boolean;
+  data: {
+    purchaseOrders: PurchaseOrder[];
+  };
+}
+
+export interface PurchaseOrderResponse {
+  success: boolean;
+  data: {
+    purchaseOrder: PurchaseOrder;
+  };
+}
+
+export type SupplierData = Omit<Supplier, '_id' | 'createdAt' | 'updatedAt'>;
+
+export interface PurchaseOrderData {
+  supplier: string;
+  store: string;
+  lines: Array<{
+    product: string;
+    quantity: number;
+    unitCost: number;
+  }>;
+  expectedDate?: string;
+  notes?: string;
+  // Save as a draft, or place the order straight away
+  status: Extract<PurchaseOrderStatus, 'draft' | 'ordered'>;
+}
+
+export interface ReceivePurchaseOrderData {
+  reference: string;
+  lines: Array<{
+    product: string;
+    quantity: number;
+    unitCost: number;
+  }>;
+  notes?: string;
+}
+
+export interface PurchaseOrderFilters {
+  store?: string;
+  supplier?: string;
+  // Comma separated, e.g. "ordered,partially_received"
+  status?: string;
+}
+
+export const purchasingService = {
+  getSuppliers: async (params?: { isActive?: boolean }): Promise<SuppliersResponse> => {
+    const response = await api.get<SuppliersResponse>('/suppliers', { params });
+    return response.data;
+  },
+
+  createSupplier: async (supplierData: SupplierData): Promise<SupplierResponse> => {
+    const response = await api.post<SupplierResponse>('/suppliers', supplierData);
+    return response.data;
+  },
+
+  updateSupplier: async (id: string, supplierData: SupplierData): Promise<SupplierResponse> => {
+    const response = await api.put<SupplierResponse>(`/suppliers/${id}`, supplierData);
+    return response.data;
+  },
+
+  getPurchaseOrders: async (filters?: PurchaseOrderFilters): Promise<PurchaseOrdersResponse> => {
+    const response = await api.get<PurchaseOrdersResponse>('/purchase-orders', { params: filters });
+    return response.data;
+  },
+
+  getPurchaseOrder: async (id: string): Promise<PurchaseOrderResponse> => {
+    const response = await api.get<PurchaseOrderResponse>(`/purchase-orders/${id}`);
+    return response.data;
+  },
+
+  createPurchaseOrder: async (orderData: PurchaseOrderData): Promise<PurchaseOrderResponse> => {
+    const response = await api.post<PurchaseOrderResponse>('/purchase-orders', orderData);
+    return response.data;
+  },
+
+  updatePurchaseOrder: async (id: string, orderData: PurchaseOrderData): Promise<PurchaseOrderResponse> => {
+    const response = await api.put<PurchaseOrderResponse>(`/purchase-orders/${id}`, orderData);
+    return response.data;
+  },
+
+  // ordered from a draft, closed once the rest won't arrive, or cancelled before anything arrived
+  updatePurchaseOrderStatus: async (
+    id: string,
+    status: Extract<PurchaseOrderStatus, 'ordered' | 'closed' | 'cancelled'>
+  ): Promise<PurchaseOrderResponse> => {
+    const response = await api.patch<PurchaseOrderResponse>(`/purchase-orders/${id}/status`, { status });
+    return response.data;
+  },
+
+  // Adds the received quantities to the store's inventory, stamps lastRestocked, updates
+  // Product.cost to the invoiced unit cost and moves the PO to partially_received or received
+  receivePurchaseOrder: async (
+    id: string,
+    receiptData: ReceivePurchaseOrderData,
+    idempotencyKey?: string
+  ): Promise<PurchaseOrderResponse> => {
+    const response = await api.post<PurchaseOrderResponse>(
+      `/purchase-orders/${id}/receive`,
+      receiptData,
+      withIdempotencyKey(idempotencyKey)
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,62 @@
+import api from './api.js';
+import type { Product } from '../types/index.js';
+
+export type ReportGroupBy = 'hour' | 'day' | 'week' | 'month';
+
+export interface ReportParams {
+  store?: string;
+  // yyyy-MM-dd, inclusive
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface SalesPeriod {
+  date: string;
+  sales: number;
+  transactions: number;
+  items?: number;
+  tax?: number;
+}
+
+export interface SalesSummary {
+  totalSales: number;
+  totalTransactions: number;
+  totalItems?: number;
+  averageTransaction?: number;
+  totalTax?: number;
+}
+
+export interface SalesReportResponse {
+  success: boolean;
+  data: {
+    summary: SalesSummary;
+    grouped?: SalesPeriod[];
+  };
+}
+
+export interface TopProduct {
+  product: Product;
+  quantity: number;
+  revenue: number;
+}
+
+export interface TopProductsResponse {
+  success: boolean;
+  data: {
+    topProducts: TopProduct[];
+  };
+}
+
+export const reportService = {
+  getSalesReport: async (params: ReportParams & { groupBy?: ReportGroupBy }): Promise<SalesReportResponse> => {
+    const response = await api.get<SalesReportResponse>('/reports/sales', { params });
+    return response.data;
+  },
+
+  getTopProducts: async (
+    params: ReportParams & { limit?: number; sortBy?: 'quantity' | 'revenue' }
+  ): Promise<TopProductsResponse> => {
+    const response = await api.get<TopProductsResponse>('/reports/top-products', { params });
+    return response.data;
+  },
+};
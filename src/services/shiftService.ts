@@ -0,0 +1,83 @@
+import api from './api.js';
+import { fetchAllPages } from './pagination.js';
+import type { CashMovement, Shift, Transaction } from '../types/index.js';
+
+interface ShiftResponse {
+  success: boolean;
+  data: {
+    shift: Shift;
+  };
+}
+
+interface CurrentShiftResponse {
+  success: boolean;
+  data: {
+    shift: Shift | null;
+  };
+}
+
+interface ShiftTransactionsResponse {
+  success: boolean;
+  data: {
+    transactions: Transaction[];
+    pagination?: {
+      pages: number;
+      total: number;
+    };
+  };
+}
+
+interface OpenShiftData {
+  store: string;
+  openingFloat: number;
+  denominationCounts?: Record<string, number>;
+}
+
+interface CloseShiftData {
+  countedCash: number;
+  expectedCash: number;
+  denominationCounts: Record<string, number>;
+  closingNotes?: string;
+}
+
+export const shiftService = {
+  getCurrentShift: async (storeId: string): Promise<CurrentShiftResponse> => {
+    const response = await api.get<CurrentShiftResponse>('/shifts/current', {
+      params: { store: storeId }
+    });
+    return response.data;
+  },
+
+  getShift: async (id: string): Promise<ShiftResponse> => {
+    const response = await api.get<ShiftResponse>(`/shifts/${id}`);
+    return response.data;
+  },
+
+  // Every page - the drawer total has to include each sale in the shift
+  getShiftTransactions: (id: string): Promise<Transaction[]> =>
+    fetchAllPages(async (page, limit) => {
+      const response = await api.get<ShiftTransactionsResponse>('/transactions', {
+        params: { shift: id, page, limit }
+      });
+      return {
+        rows: response.data.data.transactions || [],
+        pages: response.data.data.pagination?.pages || 1,
+        total: response.data.data.pagination?.total,
+      };
+    }),
+
+  openShift: async (shiftData: OpenShiftData): Promise<ShiftResponse> => {
+    const response = await api.post<ShiftResponse>('/shifts/open', shiftData);
+    return response.data;
+  },
+
+  addCashMovement: async (id: string, movement: Omit<CashMovement, '_id' | 'createdBy' | 'createdAt'>): Promise<ShiftResponse> => {
+    const response = await api.post<ShiftResponse>(`/shifts/${id}/movements`, movement);
+    return response.data;
+  },
+
+  closeShift: async (id: string, closeData: CloseShiftData): Promise<ShiftResponse> => {
+    const response = await api.post<ShiftResponse>(`/shifts/${id}/close`, closeData);
+    return response.data;
+  },
+};
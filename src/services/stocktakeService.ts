@@ -0,0 +1,108 @@
+import api, { withIdempotencyKey } from './api.js';
+import type { Stocktake, StocktakeScope, StocktakeStatus } from '../types/index.js';
+
+interface StocktakesResponse {
+  success: boolean;
+  data: {
+    stocktakes: Stocktake[];
+  };
+}
+
+export interface StocktakeResponse {
+  success: boolean;
+  data: {
+    stocktake: Stocktake;
+  };
+}
+
+export interface StartStocktakeData {
+  store: string;
+  scope: StocktakeScope;
+  category?: string;
+  location?: string;
+  notes?: string;
+}
+
+export interface StocktakeCountData {
+  // Identifies the scanner or phone the counts came from, for the audit trail
+  device: string;
+  entries: Array<{
+    product: string;
+    quantity: number;
+    // 'add' for scans, so several devices counting the same product add up;
+    // 'set' to overwrite a miscount
+    mode: 'add' | 'set';
+  }>;
+}
+
+export interface ApproveStocktakeData {
+  // Post uncounted lines as zero instead of leaving their stock untouched
+  zeroUncounted: boolean;
+  notes?: string;
+}
+
+export interface StocktakeFilters {
+  store?: string;
+  status?: StocktakeStatus;
+}
+
+export const stocktakeService = {
+  getStocktakes: async (filters?: StocktakeFilters): Promise<StocktakesResponse> => {
+    const response = await api.get<StocktakesResponse>('/stocktakes', { params: filters });
+    return response.data;
+  },
+
+  getStocktake: async (id: string): Promise<StocktakeResponse> => {
+    const response = await api.get<StocktakeResponse>(`/stocktakes/${id}`);
+    return response.data;
+  },
+
+  // Snapshots the system quantity and cost of every product in scope
+  startStocktake: async (stocktakeData: StartStocktakeData): Promise<StocktakeResponse> => {
+    const response = await api.post<StocktakeResponse>('/stocktakes', stocktakeData);
+    return response.data;
+  },
+
+  recordCounts: async (
+    id: string,
+    countData: StocktakeCountData,
+    idempotencyKey?: string
+  ): Promise<StocktakeResponse> => {
+    const response = await api.post<StocktakeResponse>(
+      `/stocktakes/${id}/counts`,
+      countData,
+      withIdempotencyKey(idempotencyKey)
+    );
+    return response.data;
+  },
+
+  // Closes counting so the variances can be reviewed
+  submitStocktake: async (id: string): Promise<StocktakeResponse> => {
+    const response = await api.patch<StocktakeResponse>(`/stocktakes/${id}/submit`);
+    return response.data;
+  },
+
+  reopenStocktake: async (id: string): Promise<StocktakeResponse> => {
+    const response = await api.patch<StocktakeResponse>(`/stocktakes/${id}/reopen`);
+    return response.data;
+  },
+
+  // Posts every variance as an inventory adjustment in one batch
+  approveStocktake: async (
+    id: string,
+    approveData: ApproveStocktakeData,
+    idempotencyKey?: string
+  ): Promise<StocktakeResponse> => {
+    const response = await api.post<StocktakeResponse>(
+      `/stocktakes/${id}/approve`,
+      approveData,
+      withIdempotencyKey(idempotencyKey)
+    );
+    return response.data;
+  },
+
+  cancelStocktake: async (id: string, reason: string): Promise<StocktakeResponse> => {
+    const response = await api.patch<StocktakeResponse>(`/stocktakes/${id}/cancel`, { reason });
+    return response.data;
+  },
+};
@@ -0,0 +1,95 @@
+// Sync Handlers
+// Replays queued offline operations against the API
+
+import axios from 'axios';
+import api, { isNetworkError, withIdempotencyKey } from './api.js';
+import { customerService } from './customerService.js';
+import { offlineSync } from './offlineSync.js';
+import { transactionService } from './transactionService.js';
+import type { CreateCustomerData } from './customerService.js';
+import type { PendingSync, SyncResult } from './offlineSync.js';
+import type { SaleTransactionData } from './transactionService.js';
+
+// Map a failed request onto a sync outcome the queue knows how to handle
+export const classifySyncError = (error: unknown): SyncResult => {
+  if (isNetworkError(error)) {
+    return { status: 'offline' };
+  }
+
+  if (!axios.isAxiosError(error) || !error.response) {
+    return { status: 'retry', reason: error instanceof Error ? error.message : 'Unknown sync error' };
+  }
+
+  const { status, data } = error.response;
+  const reason: string = (data as { message?: string } | undefined)?.message || `Request failed with status ${status}`;
+
+  // 409 carrying our idempotency code means the server already applied this operation
+  if (status === 409 && (data as { code?: string } | undefined)?.code === 'DUPLICATE_REQUEST') {
+    return { status: 'duplicate' };
+  }
+  if (status === 409) {
+    return { status: 'needs_resolution', reason };
+  }
+  if (status === 400 || status === 404 || status === 422) {
+    return { status: 'rejected', reason };
+  }
+
+  // Auth, rate limiting and server errors are transient from the client's point of view
+  return { status: 'retry', reason };
+};
+
+const syncTransaction = async (item: PendingSync): Promise<SyncResult> => {
+  if (item.action !== 'create') {
+    return { status: 'needs_resolution', reason: `Unsupported transaction action: ${item.action}` };
+  }
+
+  const sale = item.data as SaleTransactionData;
+  let result: SyncResult;
+  try {
+    await transactionService.createSale(sale, item.idempotencyKey);
+    result = { status: 'synced' };
+  } catch (error) {
+    result = classifySyncError(error);
+  }
+
+  // The server copy is now authoritative - drop the provisional receipt
+  if ((result.status === 'synced' || result.status === 'duplicate') && sale.offlineTransactionNumber) {
+    await offlineSync.deleteOffline('transactions', sale.offlineTransactionNumber);
+  }
+  return result;
+};
+
+const syncCustomer = async (item: PendingSync): Promise<SyncResult> => {
+  if (item.action !== 'create') {
+    return { status: 'needs_resolution', reason: `Unsupported customer action: ${item.action}` };
+  }
+
+  await customerService.createCustomer(item.data as CreateCustomerData, item.idempotencyKey);
+  return { status: 'synced' };
+};
+
+const syncProduct = async (item: PendingSync): Promise<SyncResult> => {
+  if (item.action !== 'create') {
+    return { status: 'needs_resolution', reason: `Unsupported product action: ${item.action}` };
+  }
+
+  await api.post('/products', item.data, withIdempotencyKey(item.idempotencyKey));
+  return { status: 'synced' };
+};
+
+export const syncPendingItem = async (item: PendingSync): Promise<SyncResult> => {
+  try {
+    switch (item.type) {
+      case 'transaction':
+        return await syncTransaction(item);
+      case 'customer':
+        return await syncCustomer(item);
+      case 'product':
+        return await syncProduct(item);
+      default:
+        return { status: 'needs_resolution', reason: `No sync handler for ${item.type} - ${item.action}` };
+    }
+  } catch (error) {
+    return classifySyncError(error);
+  }
+};
@@ -0,0 +1,216 @@
+import { format } from 'date-fns';
+import api, { withIdempotencyKey } from './api.js';
+import type { AppliedDiscount, AppliedPromotion, Transaction } from '../types/index.js';
+
+export interface SaleItemData {
+  product: string;
+  quantity: number;
+  price: number;
+  discount: number;
+  tax: number;
+  subtotal: number;
+  appliedDiscount?: AppliedDiscount;
+  taxRate: number;
+  taxableAmount: number;
+  promotions?: string[];
+  promotionDiscount?: number;
+  unitCost?: number;
+}
+
+export interface SaleTransactionData {
+  store: string;
+  items: SaleItemData[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  taxInclusive: boolean;
+  total: number;
+  paymentMethod: 'cash' | 'card' | 'mobile_payment' | 'mixed';
+  paymentDetails: {
+    cashAmount: number;
+    cardAmount: number;
+    mobileAmount: number;
+    change: number;
+  };
+  customer?: string;
+  shift?: string;
+  cartDiscount?: AppliedDiscount;
+  appliedPromotions?: AppliedPromotion[];
+  loyaltyPointsRedeemed?: number;
+  // Provisional number printed on the receipt when the sale was rung up offline
+  offlineTransactionNumber?: string;
+  offlineCreatedAt?: string;
+}
+
+export interface SaleResponse {
+  success: boolean;
+  data: {
+    transaction: Transaction;
+    loyaltyPoints?: {
+      earned: number;
+      redeemed: number;
+      newBalance?: number;
+    };
+  };
+  // Set when the sale was queued locally instead of reaching the server
+  offline?: boolean;
+}
+
+export interface ReturnItemData {
+  product: string;
+  quantity: number;
+  price: number;
+  discount: number;
+  tax: number;
+  subtotal: number;
+  taxRate?: number;
+  disposition: 'restock' | 'write_off';
+  // Carried over from the sale line so the reversal uses the same cost
+  unitCost?: number;
+}
+
+export interface ReturnTransactionData {
+  relatedTransaction: string;
+  store: string;
+  shift?: string;
+  items: ReturnItemData[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  // Refunds go back on the tenders the sale was paid with
+  paymentMethod: Transaction['paymentMethod'];
+  paymentDetails: Transaction['paymentDetails'];
+  customer?: string;
+  returnReason: string;
+  loyaltyPointsReversed?: number;
+}
+
+export interface VoidTransactionData {
+  reason: string;
+  // Manager override from the till; left out when the signed-in user is a manager
+  overrideToken?: string;
+}
+
+export interface VoidResponse {
+  success: boolean;
+  data: {
+    transaction: Transaction;
+    // Loyalty entries the void took back, and the customer's balance afterwards
+    loyaltyPoints?: {
+      earnedReversed: number;
+      redeemedRestored: number;
+      newBalance?: number;
+    };
+  };
+}
+
+interface TransactionResponse {
+  success: boolean;
+  data: {
+    transaction: Transaction;
+  };
+}
+
+interface TransactionsResponse {
+  success: boolean;
+  data: {
+    transactions: Transaction[];
+  };
+}
+
+export interface TransactionFilters {
+  store?: string;
+  startDate?: string;
+  endDate?: string;
+  type?: Transaction['type'];
+  status?: Transaction['status'];
+  paymentMethod?: Transaction['paymentMethod'];
+  cashier?: string;
+  // Customer name or phone
+  customer?: string;
+  minTotal?: number;
+  maxTotal?: number;
+  // Full or partial transaction number
+  search?: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface TransactionsPageResponse {
+  success: boolean;
+  data: {
+    transactions: Transaction[];
+    pagination: Pagination;
+  };
+}
+
+// Provisional numbers are prefixed so they can never collide with server-issued ones
+export const generateProvisionalTransactionNumber = (storeCode?: string): string => {
+  const prefix = storeCode ? `OFF-${storeCode}` : 'OFF';
+  const random = Math.random().toString(36).substr(2, 4).toUpperCase();
+  return `${prefix}-${format(new Date(), 'yyMMddHHmmss')}-${random}`;
+};
+
+export const transactionService = {
+  createSale: async (transactionData: SaleTransactionData, idempotencyKey?: string): Promise<SaleResponse> => {
+    const response = await api.post<SaleResponse>(
+      '/transactions/sale',
+      transactionData,
+      withIdempotencyKey(idempotencyKey)
+    );
+    return response.data;
+  },
+
+  getTransactions: async (
+    filters: TransactionFilters,
+    page = 1,
+    limit = 25
+  ): Promise<TransactionsPageResponse> => {
+    const response = await api.get<TransactionsPageResponse>('/transactions', {
+      params: { ...filters, page, limit }
+    });
+    return response.data;
+  },
+
+  getTransaction: async (transactionId: string): Promise<TransactionResponse> => {
+    const response = await api.get<TransactionResponse>(`/transactions/${transactionId}`);
+    return response.data;
+  },
+
+  // Looks up by the number printed (and barcoded) on the receipt
+  getTransactionByNumber: async (transactionNumber: string): Promise<TransactionResponse> => {
+    const response = await api.get<TransactionResponse>(
+      `/transactions/number/${encodeURIComponent(transactionNumber)}`
+    );
+    return response.data;
+  },
+
+  // Returns and refunds already made against a sale
+  getRelatedTransactions: async (transactionId: string): Promise<TransactionsResponse> => {
+    const response = await api.get<TransactionsResponse>('/transactions', {
+      params: { relatedTransaction: transactionId }
+    });
+    return response.data;
+  },
+
+  createReturn: async (returnData: ReturnTransactionData, idempotencyKey?: string): Promise<TransactionResponse> => {
+    const response = await api.post<TransactionResponse>(
+      '/transactions/return',
+      returnData,
+      withIdempotencyKey(idempotencyKey)
+    );
+    return response.data;
+  },
+
+  // Cancels a completed sale: the server restores stock and reverses its loyalty entries
+  voidTransaction: async (transactionId: string, voidData: VoidTransactionData): Promise<VoidResponse> => {
+    const response = await api.post<VoidResponse>(`/transactions/${transactionId}/void`, voidData);
+    return response.data;
+  },
+};
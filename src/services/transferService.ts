@@ -0,0 +1,107 @@
+import api, { withIdempotencyKey } from './api.js';
+import type { StockTransfer } from '../types/index.js';
+
+interface StockTransfersResponse {
+  success: boolean;
+  data: {
+    transfers: StockTransfer[];
+  };
+}
+
+export interface StockTransferResponse {
+  success: boolean;
+  data: {
+    transfer: StockTransfer;
+  };
+}
+
+export interface StockTransferData {
+  fromStore: string;
+  toStore: string;
+  lines: Array<{
+    product: string;
+    quantity: number;
+  }>;
+  notes?: string;
+}
+
+export interface DispatchTransferData {
+  lines: Array<{
+    product: string;
+    quantity: number;
+  }>;
+}
+
+export interface ReceiveTransferData {
+  lines: Array<{
+    product: string;
+    receivedQuantity: number;
+    discrepancyNote?: string;
+  }>;
+  notes?: string;
+}
+
+export interface StockTransferFilters {
+  store?: string;
+  // Relative to store: transfers coming in, going out, or both
+  direction?: 'in' | 'out';
+  // Comma separated, e.g. "approved,dispatched"
+  status?: string;
+}
+
+export const transferService = {
+  getTransfers: async (filters?: StockTransferFilters): Promise<StockTransfersResponse> => {
+    const response = await api.get<StockTransfersResponse>('/transfers', { params: filters });
+    return response.data;
+  },
+
+  getTransfer: async (id: string): Promise<StockTransferResponse> => {
+    const response = await api.get<StockTransferResponse>(`/transfers/${id}`);
+    return response.data;
+  },
+
+  createTransfer: async (transferData: StockTransferData): Promise<StockTransferResponse> => {
+    const response = await api.post<StockTransferResponse>('/transfers', transferData);
+    return response.data;
+  },
+
+  approveTransfer: async (id: string): Promise<StockTransferResponse> => {
+    const response = await api.patch<StockTransferResponse>(`/transfers/${id}/approve`);
+    return response.data;
+  },
+
+  // Deducts the dispatched quantities from the source store; the goods are in transit until received
+  dispatchTransfer: async (
+    id: string,
+    dispatchData: DispatchTransferData,
+    idempotencyKey?: string
+  ): Promise<StockTransferResponse> => {
+    const response = await api.post<StockTransferResponse>(
+      `/transfers/${id}/dispatch`,
+      dispatchData,
+      withIdempotencyKey(idempotencyKey)
+    );
+    return response.data;
+  },
+
+  // Adds the received quantities to the destination store and marks the transfer received,
+  // or received_with_discrepancy when any line differs from what was dispatched
+  receiveTransfer: async (
+    id: string,
+    receiptData: ReceiveTransferData,
+    idempotencyKey?: string
+  ): Promise<StockTransferResponse> => {
+    const response = await api.post<StockTransferResponse>(
+      `/transfers/${id}/receive`,
+      receiptData,
+      withIdempotencyKey(idempotencyKey)
+    );
+    return response.data;
+  },
+
+  // Only before dispatch; nothing has moved yet
+  cancelTransfer: async (id: string, reason: string): Promise<StockTransferResponse> => {
+    const response = await api.patch<StockTransferResponse>(`/transfers/${id}/cancel`, { reason });
+    return response.data;
+  },
+};
@@ -0,0 +1,46 @@
+import { create } from 'zustand';
+import type { Shift } from '../types/index.js';
+
+interface ShiftState {
+  currentShift: Shift | null;
+  setShift: (shift: Shift | null) => void;
+  clearShift: () => void;
+}
+
+// Persisted so the till stays usable when the POS reloads while offline
+const getStoredShift = (): Shift | null => {
+  try {
+    const stored = localStorage.getItem('shift-storage');
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Error reading shift from storage:', error);
+  }
+  return null;
+};
+
+const setStoredShift = (shift: Shift | null): void => {
+  try {
+    if (shift) {
+      localStorage.setItem('shift-storage', JSON.stringify(shift));
+    } else {
+      localStorage.removeItem('shift-storage');
+    }
+  } catch (error) {
+    console.error('Error saving shift to storage:', error);
+  }
+};
+
+export const useShiftStore = create<ShiftState>((set) => ({
+  currentShift: getStoredShift(),
+  setShift: (shift: Shift | null) => {
+    const openShift = shift && shift.status === 'open' ? shift : null;
+    setStoredShift(openShift);
+    set({ currentShift: openShift });
+  },
+  clearShift: () => {
+    setStoredShift(null);
+    set({ currentShift: null });
+  },
+}));
@@ -14,6 +14,8 @@ export interface Product {
   unit: 'pcs' | 'kg' | 'gm' | 'L' | 'mL' | 'box' | 'pack';
   taxRate: number;
   image?: string;
+  // Preferred supplier, used to group reorder suggestions
+  supplier?: Supplier | string;
   isActive: boolean;
   createdAt?: string;
   updatedAt?: string;
@@ -34,6 +36,16 @@ export interface Inventory {
   updatedAt?: string;
 }
 
+export interface AppliedDiscount {
+  type: 'percentage' | 'fixed';
+  value: number;
+  // Resolved taka amount taken off
+  amount: number;
+  // Sent with the sale; the server records the approver from it
+  overrideToken?: string;
+  approvedBy?: User | string;
+}
+
 export interface TransactionItem {
   product: Product | string;
   quantity: number;
@@ -41,6 +53,17 @@ export interface TransactionItem {
   discount: number;
   tax: number;
   subtotal: number;
+  appliedDiscount?: AppliedDiscount;
+  taxRate?: number;
+  // Line amount VAT was computed on, after line and cart discounts
+  taxableAmount?: number;
+  // Ids of the promotions that reduced this line; their share is included in `discount`
+  promotions?: string[];
+  promotionDiscount?: number;
+  // Return lines: whether the goods went back on the shelf or were written off
+  disposition?: 'restock' | 'write_off';
+  // Product cost per unit when the line was rung up, so margins survive later cost changes
+  unitCost?: number;
 }
 
 export interface Customer {
@@ -110,13 +133,272 @@ export interface Transaction {
   cashier: User | string;
   status: 'completed' | 'pending' | 'cancelled';
   notes?: string;
-  relatedTransaction?: string;
+  // For returns and refunds, the original sale
+  relatedTransaction?: Transaction | string;
+  returnReason?: string;
+  loyaltyPointsReversed?: number;
+  // Set when a manager voids the sale; status becomes 'cancelled'
+  voidReason?: string;
+  voidedBy?: User | string;
+  voidedAt?: string;
+  shift?: Shift | string;
+  cartDiscount?: AppliedDiscount;
+  // Whether item prices already included VAT when the sale was made
+  taxInclusive?: boolean;
+  appliedPromotions?: AppliedPromotion[];
   loyaltyPointsEarned?: number;
   loyaltyPointsRedeemed?: number;
   createdAt?: string;
   updatedAt?: string;
 }
 
+export interface CashMovement {
+  _id?: string;
+  type: 'drop' | 'payout';
+  amount: number;
+  reason: string;
+  createdBy?: User | string;
+  createdAt?: string;
+}
+
+export interface Shift {
+  _id: string;
+  store: Store | string;
+  cashier: User | string;
+  status: 'open' | 'closed';
+  openingFloat: number;
+  openedAt: string;
+  closedAt?: string;
+  cashMovements: CashMovement[];
+  expectedCash?: number;
+  countedCash?: number;
+  variance?: number;
+  denominationCounts?: Record<string, number>;
+  closingNotes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type PromotionType = 'buy_x_get_y' | 'bundle' | 'category_percent' | 'time_window' | 'min_spend';
+
+export interface Promotion {
+  _id: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  // Empty means every store
+  stores: Array<Store | string>;
+  startDate: string;
+  endDate: string;
+  isActive: boolean;
+  // Stackable promotions combine with each other; others apply alone
+  stackable: boolean;
+  // Qualifying products for buy_x_get_y and time_window, components for bundle
+  products?: Array<Product | string>;
+  // Qualifying category for category_percent and time_window
+  category?: string;
+  buyQuantity?: number;
+  getQuantity?: number;
+  bundlePrice?: number;
+  percentOff?: number;
+  // min_spend either takes percentOff or a fixed amount off
+  amountOff?: number;
+  minSpend?: number;
+  // time_window: 0 = Sunday; times are 'HH:mm' in store local time
+  daysOfWeek?: number[];
+  startTime?: string;
+  endTime?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface AppliedPromotion {
+  promotion: string;
+  name: string;
+  amount: number;
+}
+
+export interface Supplier {
+  _id: string;
+  name: string;
+  code?: string;
+  contactPerson?: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  // e.g. "Net 30", "Cash on delivery"
+  paymentTerms?: string;
+  // Typical days from order to delivery
+  leadTimeDays?: number;
+  notes?: string;
+  isActive: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// draft → ordered → partially_received → received; closed when the rest will never arrive
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'closed' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  product: Product | string;
+  quantity: number;
+  // Expected cost per unit when ordering
+  unitCost: number;
+  receivedQuantity: number;
+}
+
+export interface PurchaseOrderReceiptLine {
+  product: Product | string;
+  quantity: number;
+  // Actual cost per unit on the supplier's invoice; becomes the product's cost
+  unitCost: number;
+}
+
+export interface PurchaseOrderReceipt {
+  _id?: string;
+  // Supplier invoice or delivery challan number the goods came in on
+  reference: string;
+  lines: PurchaseOrderReceiptLine[];
+  notes?: string;
+  receivedBy?: User | string;
+  receivedAt: string;
+}
+
+export interface PurchaseOrder {
+  _id: string;
+  poNumber: string;
+  supplier: Supplier | string;
+  store: Store | string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expectedDate?: string;
+  notes?: string;
+  receipts: PurchaseOrderReceipt[];
+  createdBy?: User | string;
+  orderedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// requested → approved → dispatched (in transit) → received, or received_with_discrepancy when
+// the destination counts something different from what left the source
+export type StockTransferStatus =
+  | 'requested'
+  | 'approved'
+  | 'dispatched'
+  | 'received'
+  | 'received_with_discrepancy'
+  | 'cancelled';
+
+export interface StockTransferLine {
+  product: Product | string;
+  // Requested quantity
+  quantity: number;
+  // Set on dispatch; stock leaves the source store at this point
+  dispatchedQuantity?: number;
+  // Set by the destination store when it confirms the delivery
+  receivedQuantity?: number;
+  // Why the received quantity differs from what was dispatched
+  discrepancyNote?: string;
+}
+
+export interface StockTransfer {
+  _id: string;
+  transferNumber: string;
+  fromStore: Store | string;
+  toStore: Store | string;
+  status: StockTransferStatus;
+  lines: StockTransferLine[];
+  notes?: string;
+  cancelReason?: string;
+  requestedBy?: User | string;
+  approvedBy?: User | string;
+  dispatchedBy?: User | string;
+  receivedBy?: User | string;
+  approvedAt?: string;
+  dispatchedAt?: string;
+  receivedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type StocktakeScope = 'store' | 'category' | 'location';
+
+// counting → review (counting closed, variances checked) → approved (adjustments posted)
+export type StocktakeStatus = 'counting' | 'review' | 'approved' | 'cancelled';
+
+export interface StocktakeLine {
+  product: Product | string;
+  // Inventory quantity snapshotted when the count started
+  systemQuantity: number;
+  // Sum of every device's counts; undefined until someone counts the product
+  countedQuantity?: number;
+  // Product cost snapshotted when the count started, used to value the variance
+  unitCost: number;
+  lastCountedBy?: User | string;
+  lastCountedAt?: string;
+}
+
+export interface StocktakeAuditEntry {
+  action: 'started' | 'counted' | 'submitted' | 'reopened' | 'approved' | 'cancelled';
+  user?: User | string;
+  at: string;
+  device?: string;
+  details?: string;
+}
+
+export interface Stocktake {
+  _id: string;
+  stocktakeNumber: string;
+  store: Store | string;
+  scope: StocktakeScope;
+  // Set when scope is 'category' or 'location'
+  category?: string;
+  location?: string;
+  status: StocktakeStatus;
+  lines: StocktakeLine[];
+  notes?: string;
+  auditLog: StocktakeAuditEntry[];
+  startedBy?: User | string;
+  approvedBy?: User | string;
+  approvedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type InventoryMovementType =
+  | 'sale'
+  | 'return'
+  | 'void'
+  | 'stock_entry'
+  | 'purchase_receipt'
+  | 'adjustment'
+  | 'manual_edit'
+  | 'transfer_out'
+  | 'transfer_in'
+  | 'stocktake';
+
+// The document a movement was posted from, so the stock card can link back to it
+export type InventoryMovementSource = 'transaction' | 'purchase_order' | 'transfer' | 'stocktake';
+
+export interface InventoryMovement {
+  _id: string;
+  store: Store | string;
+  product: Product | string;
+  type: InventoryMovementType;
+  // Signed change to the on-hand quantity
+  quantity: number;
+  // On-hand quantity right after this movement
+  balanceAfter: number;
+  user?: User | string;
+  // Document number as printed: transaction, PO, transfer or stocktake number, or supplier invoice
+  reference?: string;
+  sourceType?: InventoryMovementSource;
+  sourceId?: string;
+  reason?: string;
+  createdAt: string;
+}
+
 export interface StoreWithManager extends Store {
   manager?: User;
   isActive: boolean;